@@ -0,0 +1,191 @@
+'use client'
+
+import { useState, useRef, useEffect } from 'react'
+import Link from 'next/link'
+import type { Point2D } from '@/lib/types'
+import CameraPreview from '@/components/CameraPreview'
+import { useCalibrationStore } from '@/features/calibration/CalibrationStore'
+import {
+  collectLinePoints,
+  estimateLensDistortion,
+  type LensEstimate,
+} from '@/features/calibration/LensDistortion'
+import {
+  getCameraDevices,
+  getDownsampledFrame,
+  getStreamDeviceId,
+  type CameraDevice,
+} from '@/lib/camera'
+
+// Frame size lines are collected at; the coefficients don't depend on it
+const CAPTURE_WIDTH = 640
+const CAPTURE_HEIGHT = 360
+
+export default function LensCalibrationPage() {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const [stream, setStream] = useState<MediaStream | null>(null)
+  const [devices, setDevices] = useState<CameraDevice[]>([])
+  const [selectedDevice, setSelectedDevice] = useState<string | undefined>(
+    undefined
+  )
+  const [lines, setLines] = useState<Point2D[][]>([])
+  const [estimate, setEstimate] = useState<LensEstimate | null>(null)
+  const [saved, setSaved] = useState(false)
+  const { lensProfiles, setLensProfile } = useCalibrationStore()
+
+  const cameraId = getStreamDeviceId(stream) ?? selectedDevice ?? null
+  const currentLens = cameraId ? lensProfiles[cameraId] : undefined
+
+  useEffect(() => {
+    getCameraDevices().then(setDevices)
+  }, [stream])
+
+  const handleStreamReady = (newStream: MediaStream) => {
+    setStream(newStream)
+    if (videoRef.current) {
+      videoRef.current.srcObject = newStream
+    }
+  }
+
+  const selectCamera = (deviceId: string) => {
+    setSelectedDevice(deviceId)
+    setLines([])
+    setEstimate(null)
+    setSaved(false)
+  }
+
+  // Add this frame's lines to those already collected and re-estimate
+  const capture = () => {
+    const video = videoRef.current
+    if (!video || video.readyState < 2) return
+
+    const imageData = getDownsampledFrame(video, CAPTURE_WIDTH, CAPTURE_HEIGHT)
+    if (!imageData) return
+
+    const collected = [...lines, ...collectLinePoints(imageData)]
+    setLines(collected)
+    setEstimate(
+      estimateLensDistortion(collected, CAPTURE_WIDTH, CAPTURE_HEIGHT)
+    )
+    setSaved(false)
+  }
+
+  const save = () => {
+    if (!cameraId || !estimate) return
+    setLensProfile(cameraId, estimate.lens)
+    setSaved(true)
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center bg-gray-900 p-4">
+      <div className="w-full max-w-4xl space-y-4">
+        <h1 className="text-center text-2xl font-bold text-white">
+          Lens Calibration
+        </h1>
+        <p className="text-center text-sm text-gray-300">
+          Wide-angle lenses bend straight lines. Point the camera at straight
+          edges such as door frames, shelves or a sheet of lined paper, spread
+          across the picture and especially near its edges, and capture a few
+          frames.
+        </p>
+
+        {devices.length > 1 && (
+          <select
+            value={selectedDevice ?? cameraId ?? ''}
+            onChange={(e) => selectCamera(e.target.value)}
+            className="w-full rounded-lg border-2 border-gray-300 px-3 py-2"
+            aria-label="Camera"
+          >
+            {devices.map((device) => (
+              <option key={device.deviceId} value={device.deviceId}>
+                {device.label}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <div className="relative aspect-video overflow-hidden rounded-lg bg-black">
+          <div className="h-full w-full">
+            <CameraPreview
+              onStreamReady={handleStreamReady}
+              constraints={
+                selectedDevice ? { deviceId: selectedDevice } : undefined
+              }
+              className="h-full w-full"
+              mirrored={false}
+            />
+          </div>
+          <video
+            ref={videoRef}
+            autoPlay
+            playsInline
+            muted
+            className="pointer-events-none absolute left-0 top-0 h-full w-full object-cover opacity-0"
+          />
+        </div>
+
+        <div className="space-y-3 rounded-lg bg-white p-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-700">
+              {lines.length} line{lines.length === 1 ? '' : 's'} collected
+              {estimate &&
+                ` - k1 ${estimate.lens.k1.toFixed(3)}, k2 ${estimate.lens.k2.toFixed(3)}, ` +
+                  `${estimate.straightness.toFixed(2)}px from straight`}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={capture}
+                disabled={!stream}
+                className="rounded-lg bg-blue-600 px-4 py-2 text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                Capture
+              </button>
+              <button
+                onClick={save}
+                disabled={!estimate || !cameraId}
+                className="rounded-lg bg-green-600 px-4 py-2 text-white hover:bg-green-700 disabled:opacity-50"
+              >
+                Save for this Camera
+              </button>
+            </div>
+          </div>
+
+          {!estimate && lines.length > 0 && (
+            <p className="text-sm text-yellow-700">
+              At least three straight lines are needed; capture more.
+            </p>
+          )}
+          {saved && (
+            <p className="text-sm text-green-700">
+              Saved. Re-calibrate the fretboard to use it.
+            </p>
+          )}
+
+          {currentLens && (
+            <div className="flex items-center justify-between text-sm text-gray-600">
+              <span>
+                Saved for this camera: k1 {currentLens.k1.toFixed(3)}, k2{' '}
+                {currentLens.k2.toFixed(3)}
+              </span>
+              <button
+                onClick={() => cameraId && setLensProfile(cameraId, null)}
+                className="text-red-600 hover:underline"
+              >
+                Remove
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="text-center">
+          <Link
+            href="/calibrate"
+            className="text-sm text-blue-300 hover:underline"
+          >
+            Back to Calibration
+          </Link>
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,150 @@
+'use client'
+
+import Link from 'next/link'
+import {
+  markerCells,
+  MARKER_GRID,
+  MARKER_MARGIN_MM,
+  MARKER_SIZE_MM,
+} from '@/features/calibration/FiducialMarker'
+
+// The card, in millimetres: marker plus its white quiet zone
+const CARD_MM = MARKER_SIZE_MM + 2 * MARKER_MARGIN_MM
+const CELL_MM = MARKER_SIZE_MM / MARKER_GRID
+// Ruler printed alongside to check the print scale
+const RULER_MM = 50
+
+export default function MarkerPage() {
+  const cells = markerCells()
+
+  return (
+    <main className="flex min-h-screen flex-col items-center bg-gray-900 p-8 print:bg-white">
+      <div className="w-full max-w-2xl space-y-6">
+        <div className="space-y-4 text-white print:hidden">
+          <h1 className="text-center text-3xl font-bold">Calibration Marker</h1>
+          <ol className="list-inside list-decimal space-y-1 text-sm text-gray-300">
+            <li>Print this page at 100% scale (no &quot;fit to page&quot;).</li>
+            <li>
+              Check the ruler measures {RULER_MM} mm, then cut the card out
+              along the dashed line.
+            </li>
+            <li>
+              Slide the card under the strings, flat on the fretboard, with the
+              edge marked &quot;Nut&quot; against the nut and the card centred
+              across the neck.
+            </li>
+            <li>
+              Choose &quot;Use Marker Card&quot; on the calibration page and
+              hold still.
+            </li>
+          </ol>
+          <div className="flex justify-center gap-3">
+            <button
+              onClick={() => window.print()}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-white hover:bg-blue-700"
+            >
+              Print
+            </button>
+            <Link
+              href="/calibrate"
+              className="rounded-lg border border-gray-500 px-4 py-2 text-gray-200 hover:bg-gray-800"
+            >
+              Back to Calibration
+            </Link>
+          </div>
+        </div>
+
+        <div className="flex flex-col items-center gap-6 rounded-lg bg-white p-8 print:p-0">
+          <svg
+            width={`${CARD_MM}mm`}
+            height={`${CARD_MM + 6}mm`}
+            viewBox={`0 -6 ${CARD_MM} ${CARD_MM + 6}`}
+            aria-label="Calibration marker card"
+          >
+            <text
+              x={CARD_MM / 2}
+              y={-1.5}
+              fontSize={3.5}
+              textAnchor="middle"
+              fill="black"
+            >
+              Nut ▲
+            </text>
+            <rect
+              x={0}
+              y={0}
+              width={CARD_MM}
+              height={CARD_MM}
+              fill="white"
+              stroke="black"
+              strokeWidth={0.2}
+              strokeDasharray="1.5 1"
+            />
+            {cells.flatMap((row, r) =>
+              row.map((black, c) =>
+                black ? (
+                  <rect
+                    key={`${r}-${c}`}
+                    x={MARKER_MARGIN_MM + c * CELL_MM}
+                    y={MARKER_MARGIN_MM + r * CELL_MM}
+                    // Overlap neighbours slightly so no hairline gaps print
+                    width={CELL_MM + 0.05}
+                    height={CELL_MM + 0.05}
+                    fill="black"
+                  />
+                ) : null
+              )
+            )}
+            <text
+              x={2}
+              y={CARD_MM / 2}
+              fontSize={2.5}
+              fill="black"
+              transform={`rotate(-90 2 ${CARD_MM / 2})`}
+              dominantBaseline="hanging"
+              textAnchor="middle"
+            >
+              1st string
+            </text>
+          </svg>
+
+          <svg
+            width={`${RULER_MM}mm`}
+            height="8mm"
+            viewBox={`0 0 ${RULER_MM} 8`}
+            aria-label={`${RULER_MM} mm ruler`}
+          >
+            <line
+              x1={0}
+              y1={2}
+              x2={RULER_MM}
+              y2={2}
+              stroke="black"
+              strokeWidth={0.3}
+            />
+            {Array.from({ length: RULER_MM / 10 + 1 }, (_, i) => (
+              <line
+                key={i}
+                x1={i * 10}
+                y1={0}
+                x2={i * 10}
+                y2={4}
+                stroke="black"
+                strokeWidth={0.3}
+              />
+            ))}
+            <text
+              x={RULER_MM / 2}
+              y={7.5}
+              fontSize={3}
+              textAnchor="middle"
+              fill="black"
+            >
+              {RULER_MM} mm
+            </text>
+          </svg>
+        </div>
+      </div>
+    </main>
+  )
+}
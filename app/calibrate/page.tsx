@@ -2,28 +2,46 @@
 
 import { useState, useRef, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
+import Link from 'next/link'
 import CameraPreview from '@/components/CameraPreview'
 import ManualCalibration from '@/features/calibration/ManualCalibration'
+import MarkerCalibration from '@/features/calibration/MarkerCalibration'
 import OverlayCanvas from '@/components/OverlayCanvas'
+import TuningSettings from '@/features/calibration/TuningSettings'
 import { useCalibrationStore } from '@/features/calibration/CalibrationStore'
 import { estimateFretboard } from '@/features/ml/fretboard/FretboardLocalizer'
-import { getDownsampledFrame } from '@/lib/camera'
+import {
+  createUndistortMap,
+  remapImage,
+} from '@/features/calibration/LensDistortion'
+import { getDownsampledFrame, getStreamDeviceId } from '@/lib/camera'
 
 export default function CalibratePage() {
   const router = useRouter()
   const videoRef = useRef<HTMLVideoElement>(null)
   const [stream, setStream] = useState<MediaStream | null>(null)
   const [showManualCalibration, setShowManualCalibration] = useState(false)
+  const [showMarkerCalibration, setShowMarkerCalibration] = useState(false)
   const [videoDimensions, setVideoDimensions] = useState({ width: 640, height: 480 })
-  const { fretboard, setFretboard, isCalibrated } = useCalibrationStore()
+  const { fretboard, setFretboard, isCalibrated, tuning, lensProfiles } =
+    useCalibrationStore()
+  const stringCount = tuning.notes.length
+  const cameraId = getStreamDeviceId(stream)
+  const lens = cameraId ? (lensProfiles[cameraId] ?? null) : null
 
   useEffect(() => {
+    if (typeof window === 'undefined') return
+
+    // Sent back from practice because the saved calibration drifted
+    if (new URLSearchParams(window.location.search).has('recalibrate')) {
+      setShowManualCalibration(true)
+      return
+    }
+
     // Try to load saved calibration
-    if (typeof window !== 'undefined') {
-      const saved = useCalibrationStore.getState().loadCalibration()
-      if (saved) {
-        router.push('/practice/chords')
-      }
+    const saved = useCalibrationStore.getState().loadCalibration()
+    if (saved) {
+      router.push('/practice/chords')
     }
   }, [router])
 
@@ -41,20 +59,28 @@ export default function CalibratePage() {
     video.addEventListener('loadedmetadata', updateDimensions)
     updateDimensions()
 
+    // Detection runs in the undistorted frame, as in practice
+    let undistortMap: Float32Array | null = null
+
     // Try auto-detection
     const tryAutoDetect = async () => {
       if (!videoRef.current || video.readyState < 2) return // Need at least HAVE_CURRENT_DATA
 
       try {
-        const imageData = getDownsampledFrame(videoRef.current, 640, 360)
-        if (!imageData) return
+        const frame = getDownsampledFrame(videoRef.current, 640, 360)
+        if (!frame) return
+        if (lens && !undistortMap) {
+          undistortMap = createUndistortMap(lens, frame.width, frame.height)
+        }
+        const imageData = undistortMap ? remapImage(frame, undistortMap) : frame
 
-        const result = estimateFretboard(imageData)
-        setFretboard(result)
+        const result = estimateFretboard(imageData, undefined, stringCount)
+        const frameSize = { width: imageData.width, height: imageData.height }
+        setFretboard(result, frameSize)
 
         if (result.confidence >= 0.7) {
           // Auto-detection successful - save and redirect
-          setFretboard(result)
+          setFretboard(result, frameSize)
           setTimeout(() => {
             router.push('/practice/chords')
           }, 2000)
@@ -73,7 +99,7 @@ export default function CalibratePage() {
       clearTimeout(timeout)
       video.removeEventListener('loadedmetadata', updateDimensions)
     }
-  }, [stream, setFretboard, router])
+  }, [stream, setFretboard, router, stringCount, lens])
 
   const handleStreamReady = (newStream: MediaStream) => {
     setStream(newStream)
@@ -113,6 +139,15 @@ export default function CalibratePage() {
             <ManualCalibration
               videoWidth={videoDimensions.width}
               videoHeight={videoDimensions.height}
+              lens={lens}
+              onComplete={handleCalibrationComplete}
+            />
+          ) : showMarkerCalibration ? (
+            <MarkerCalibration
+              video={videoRef.current}
+              videoWidth={videoDimensions.width}
+              videoHeight={videoDimensions.height}
+              lens={lens}
               onComplete={handleCalibrationComplete}
             />
           ) : (
@@ -129,12 +164,20 @@ export default function CalibratePage() {
                   <p className="text-sm">
                     Try: Move closer, improve lighting, or use manual calibration
                   </p>
-                  <button
-                    onClick={() => setShowManualCalibration(true)}
-                    className="mt-2 px-4 py-2 bg-white text-yellow-600 rounded hover:bg-gray-100"
-                  >
-                    Use Manual Calibration
-                  </button>
+                  <div className="mt-2 flex gap-2">
+                    <button
+                      onClick={() => setShowManualCalibration(true)}
+                      className="px-4 py-2 bg-white text-yellow-600 rounded hover:bg-gray-100"
+                    >
+                      Use Manual Calibration
+                    </button>
+                    <button
+                      onClick={() => setShowMarkerCalibration(true)}
+                      className="px-4 py-2 bg-white text-yellow-600 rounded hover:bg-gray-100"
+                    >
+                      Use Marker Card
+                    </button>
+                  </div>
                 </div>
               )}
 
@@ -152,9 +195,21 @@ export default function CalibratePage() {
           <p className="text-sm mb-2">
             {showManualCalibration
               ? 'Tap the points on your fretboard as instructed'
-              : 'Position your guitar so the fretboard is clearly visible'}
+              : showMarkerCalibration
+                ? 'Hold the guitar still with the marker card in view'
+                : 'Position your guitar so the fretboard is clearly visible'}
           </p>
+          <div className="flex justify-center gap-4">
+            <Link href="/calibrate/marker" className="text-sm text-blue-300 hover:underline">
+              Print a marker card for easier calibration
+            </Link>
+            <Link href="/calibrate/lens" className="text-sm text-blue-300 hover:underline">
+              Correct lens distortion
+            </Link>
+          </div>
         </div>
+
+        <TuningSettings className="mt-4 justify-center" />
       </div>
     </main>
   )
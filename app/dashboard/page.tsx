@@ -31,7 +31,7 @@ export default function DashboardPage() {
               <p className="text-sm text-slate-400 mb-4">
                 Jump back into your last session or choose a new focus area.
               </p>
-              <div className="grid gap-3 sm:grid-cols-3">
+              <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
                 <Link
                   href="/practice/chords"
                   className="group rounded-xl border border-emerald-500/40 bg-emerald-500/10 p-4 hover:border-emerald-400 hover:bg-emerald-500/15 transition-colors"
@@ -58,6 +58,45 @@ export default function DashboardPage() {
                   </p>
                 </Link>
 
+                <Link
+                  href="/practice/strumming"
+                  className="group rounded-xl border border-rose-500/40 bg-rose-500/10 p-4 hover:border-rose-400 hover:bg-rose-500/15 transition-colors"
+                >
+                  <div className="mb-1 text-xs font-medium uppercase tracking-wide text-rose-300">
+                    Rhythm
+                  </div>
+                  <div className="text-sm font-semibold">Strumming Patterns</div>
+                  <p className="mt-1 text-xs text-rose-100/80">
+                    Strum in time with a pattern and the metronome.
+                  </p>
+                </Link>
+
+                <Link
+                  href="/practice/songs"
+                  className="group rounded-xl border border-fuchsia-500/40 bg-fuchsia-500/10 p-4 hover:border-fuchsia-400 hover:bg-fuchsia-500/15 transition-colors"
+                >
+                  <div className="mb-1 text-xs font-medium uppercase tracking-wide text-fuchsia-300">
+                    Songs
+                  </div>
+                  <div className="text-sm font-semibold">Song Practice</div>
+                  <p className="mt-1 text-xs text-fuchsia-100/80">
+                    Import a ChordPro chart and play along.
+                  </p>
+                </Link>
+
+                <Link
+                  href="/tuner"
+                  className="group rounded-xl border border-violet-500/40 bg-violet-500/10 p-4 hover:border-violet-400 hover:bg-violet-500/15 transition-colors"
+                >
+                  <div className="mb-1 text-xs font-medium uppercase tracking-wide text-violet-300">
+                    Tuner
+                  </div>
+                  <div className="text-sm font-semibold">Tune Up</div>
+                  <p className="mt-1 text-xs text-violet-100/80">
+                    Tune each string before listening checks.
+                  </p>
+                </Link>
+
                 <Link
                   href="/calibrate"
                   className="group rounded-xl border border-amber-500/40 bg-amber-500/10 p-4 hover:border-amber-400 hover:bg-amber-500/15 transition-colors"
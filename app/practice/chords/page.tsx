@@ -7,22 +7,122 @@ import OverlayCanvas from '@/components/OverlayCanvas'
 import ChordOverlay from '@/features/chord-trainer/ChordOverlay'
 import FeedbackPanel from '@/components/FeedbackPanel'
 import ChordSelector from '@/features/chord-trainer/ChordSelector'
+import ChordCandidates from '@/features/chord-trainer/ChordCandidates'
+import TransitionPanel from '@/features/chord-trainer/TransitionPanel'
+import ProgressionStrip from '@/features/chord-trainer/ProgressionStrip'
+import SongChart from '@/features/songs/SongChart'
+import MetronomeControls from '@/features/metronome/MetronomeControls'
+import { useMetronomeStore } from '@/features/metronome/MetronomeStore'
+import { Metronome } from '@/features/metronome/Metronome'
+import {
+  createChordChanges,
+  chordChangeTarget,
+  advanceChordChanges,
+} from '@/features/metronome/ChordChanges'
 import { usePracticeStore } from '@/features/chord-trainer/PracticeStore'
 import { useCalibrationStore } from '@/features/calibration/CalibrationStore'
 import { FrameProcessor } from '@/lib/frame-processor'
+import { getStreamDeviceId } from '@/lib/camera'
+import { MicrophoneAnalyzer } from '@/features/audio/MicrophoneAnalyzer'
 import { generateFeedback } from '@/features/chord-trainer/ChordMatcher'
-import type { FrameState, FingerAssignment } from '@/lib/types'
+import {
+  createTransitionTracker,
+  currentTransitionTarget,
+  nextTransitionTarget,
+  updateTransition,
+  summarizeTransitions,
+  type TransitionTracker,
+} from '@/features/chord-trainer/TransitionEngine'
+import type {
+  FrameState,
+  FingerAssignment,
+  FingerStrictness,
+  TransitionResult,
+  TimedChangeResult,
+  BarResult,
+  StrumEvent,
+} from '@/lib/types'
+
+interface DrillView {
+  step: number
+  target: string
+  next: string
+  switching: boolean
+  summary: TransitionResult
+}
+
+function describeDrill(tracker: TransitionTracker): DrillView {
+  return {
+    step: tracker.targetIdx,
+    target: currentTransitionTarget(tracker),
+    next: nextTransitionTarget(tracker),
+    switching: tracker.phase === 'switching',
+    summary: summarizeTransitions(tracker),
+  }
+}
+
+/**
+ * Microphone readings for the frame processor, attached without restarting it
+ */
+function audioInput(microphone: MicrophoneAnalyzer) {
+  return {
+    getAudioFrame: () => microphone.latestFrame,
+    getLastOnset: () => microphone.lastOnsetTime,
+  }
+}
 
 export default function ChordsPracticePage() {
+  const router = useRouter()
   const videoRef = useRef<HTMLVideoElement>(null)
   const processorRef = useRef<FrameProcessor | null>(null)
   const [stream, setStream] = useState<MediaStream | null>(null)
   const [videoDimensions, setVideoDimensions] = useState({ width: 640, height: 480 })
   const [frameState, setFrameState] = useState<FrameState | null>(null)
   const [feedbackMessages, setFeedbackMessages] = useState<string[]>([])
+  const transitionRef = useRef<TransitionTracker | null>(null)
+  const [drill, setDrill] = useState<DrillView | null>(null)
+  const metronomeRef = useRef<Metronome | null>(null)
+  const microphoneRef = useRef<MicrophoneAnalyzer | null>(null)
+  const [microphoneError, setMicrophoneError] = useState<string | null>(null)
+  const latestMatchRef = useRef({ chord: null as string | null, score: 0, stabilityMs: 0 })
+  const [currentBeat, setCurrentBeat] = useState<number | null>(null)
+  const [upcomingChange, setUpcomingChange] = useState<{
+    chord: string
+    beats: number
+  } | null>(null)
+  const [currentStep, setCurrentStep] = useState<number | null>(null)
+  const [timedResults, setTimedResults] = useState<TimedChangeResult[]>([])
+  const [barResults, setBarResults] = useState<BarResult[]>([])
+  const [lastStrum, setLastStrum] = useState<StrumEvent | null>(null)
 
-  const { currentChord, setCurrentChord, updateScore, addSessionResult } = usePracticeStore()
-  const { fretboard, isCalibrated } = useCalibrationStore()
+  const {
+    currentChord,
+    isFreePlay,
+    isTransitionMode,
+    progression,
+    song,
+    fingerStrictness,
+    useMicrophone,
+    setCurrentChord,
+    setFreePlay,
+    setTransitionMode,
+    setFingerStrictness,
+    setUseMicrophone,
+    updateScore,
+    addSessionResult,
+    addTransitionResult,
+  } = usePracticeStore()
+  const { fretboard, isCalibrated, handedness, tuning, capo } = useCalibrationStore()
+  const {
+    enabled: metronomeEnabled,
+    bpm,
+    beatsPerBar,
+    beatUnit,
+    accent,
+    rampEnabled,
+    ramp,
+    setBpm,
+  } = useMetronomeStore()
 
   useEffect(() => {
     if (typeof window !== 'undefined' && !isCalibrated) {
@@ -31,6 +131,125 @@ export default function ChordsPracticePage() {
     }
   }, [isCalibrated, router])
 
+  // The store only persists settings; restore the calibration itself after
+  // a reload so scoring can start from it
+  useEffect(() => {
+    const store = useCalibrationStore.getState()
+    if (!store.fretboard.homography) {
+      store.loadCalibration()
+    }
+  }, [])
+
+  // Transition drill: cycle through the chords at your own pace, saved when it ends
+  useEffect(() => {
+    if (!isTransitionMode || !progression) {
+      return
+    }
+
+    const tracker = createTransitionTracker(progression.steps.map((s) => s.chord))
+    transitionRef.current = tracker
+    setDrill(describeDrill(tracker))
+
+    return () => {
+      if (tracker.switches.length > 0) {
+        addTransitionResult(summarizeTransitions(tracker))
+      }
+      transitionRef.current = null
+      setDrill(null)
+    }
+  }, [isTransitionMode, progression, addTransitionResult])
+
+  // Metronome: with a progression, chord changes land on beats and are
+  // judged there, and every bar gets a score
+  useEffect(() => {
+    if (!metronomeEnabled) {
+      return
+    }
+
+    const settings = useMetronomeStore.getState()
+    const metronome = new Metronome({
+      bpm: settings.bpm,
+      beatsPerBar: settings.beatsPerBar,
+      beatUnit: settings.beatUnit,
+      accent: settings.accent,
+      ramp: settings.rampEnabled ? settings.ramp : null,
+    })
+    metronomeRef.current = metronome
+
+    const changes = progression ? createChordChanges(progression) : null
+    if (changes) {
+      setCurrentChord(chordChangeTarget(changes))
+      setTimedResults([])
+      setBarResults([])
+    }
+
+    metronome.onTempoChange(setBpm)
+    metronome.onBeat((beat) => {
+      setCurrentBeat(beat.beat)
+      if (!changes) return
+
+      const step = advanceChordChanges(changes, beat, latestMatchRef.current)
+      if (step.result) {
+        setTimedResults([...changes.results])
+      }
+      if (step.bar) {
+        metronome.recordBar(step.bar.clean)
+        setBarResults([...changes.bars])
+      }
+      setCurrentChord(chordChangeTarget(changes))
+      setCurrentStep(step.stepIndex)
+      setUpcomingChange({ chord: step.upcoming, beats: step.beatsUntilChange })
+    })
+    metronome.start()
+
+    return () => {
+      metronome.dispose()
+      metronomeRef.current = null
+      setCurrentBeat(null)
+      setCurrentStep(null)
+      setUpcomingChange(null)
+    }
+  }, [metronomeEnabled, progression, setCurrentChord, setBpm])
+
+  // Microphone: chord audio is fused with the camera's view of the shape
+  useEffect(() => {
+    if (!useMicrophone) {
+      return
+    }
+
+    const microphone = new MicrophoneAnalyzer()
+    microphoneRef.current = microphone
+    processorRef.current?.setAudioInput(audioInput(microphone))
+    setMicrophoneError(null)
+    microphone.start().catch((error) => {
+      console.error('Failed to start microphone:', error)
+      setMicrophoneError(error instanceof Error ? error.message : 'Microphone unavailable')
+      setUseMicrophone(false)
+    })
+
+    return () => {
+      processorRef.current?.setAudioInput(null)
+      microphone.dispose()
+      microphoneRef.current = null
+    }
+  }, [useMicrophone, setUseMicrophone])
+
+  // Strictness applies from the next frame, keeping the hand tracker running
+  useEffect(() => {
+    processorRef.current?.setConfig({ fingerStrictness })
+  }, [fingerStrictness])
+
+  // Settings changed while playing apply from the next beat
+  useEffect(() => {
+    metronomeRef.current?.setConfig({
+      bpm,
+      beatsPerBar,
+      beatUnit,
+      accent,
+      ramp: rampEnabled ? ramp : null,
+    })
+  }, [bpm, beatsPerBar, beatUnit, accent, rampEnabled, ramp])
+
   useEffect(() => {
     if (!videoRef.current || !stream) return
 
@@ -45,22 +264,49 @@ export default function ChordsPracticePage() {
     video.addEventListener('loadedmetadata', updateDimensions)
     updateDimensions()
 
+    const cameraId = getStreamDeviceId(stream)
+
     // Initialize frame processor
-    const processor = new FrameProcessor()
+    const processor = new FrameProcessor({
+      fingerStrictness: usePracticeStore.getState().fingerStrictness,
+    })
     processorRef.current = processor
 
     // Set callbacks to get current chord and handedness from stores
     processor.setCallbacks({
-      getChordTarget: () => currentChord,
+      // Read from the store so target changes don't restart the processor
+      getChordTarget: () => usePracticeStore.getState().currentChord,
       getHandedness: () => handedness,
+      getTuning: () => tuning.notes,
+      getCapo: () => capo,
+      isFreePlay: () => usePracticeStore.getState().isFreePlay,
+      getCalibration: () => {
+        const { fretboard: saved, frameSize } = useCalibrationStore.getState()
+        return saved.homography
+          ? {
+              homography: saved.homography,
+              confidence: saved.confidence,
+              ...(frameSize ?? {}),
+            }
+          : null
+      },
+      getLensDistortion: () =>
+        cameraId ? (useCalibrationStore.getState().lensProfiles[cameraId] ?? null) : null,
     })
 
+    if (microphoneRef.current) {
+      processor.setAudioInput(audioInput(microphoneRef.current))
+    }
+
     let chordStartTime: number | null = null
     let lastChordTarget: string | null = null
 
     processor.initialize().then(() => {
       processor.start(video, (state) => {
         setFrameState(state)
+        if (state.strum) {
+          setLastStrum(state.strum)
+        }
 
         // Track when chord changes
         if (state.chordTarget && state.chordTarget !== lastChordTarget) {
@@ -69,11 +315,38 @@ export default function ChordsPracticePage() {
           processor.setChordTarget(state.chordTarget)
         }
 
+        latestMatchRef.current = {
+          chord: state.chordTarget,
+          score: state.chordMatch?.score ?? 0,
+          stabilityMs: state.chordMatch?.stabilityMs ?? 0,
+        }
+
         if (state.chordMatch) {
           updateScore(state.chordMatch.score, state.chordMatch.stabilityMs)
 
+          // With the metronome on, the beat decides when to change instead
+          const tracker = transitionRef.current
+          if (tracker && state.chordTarget && !useMetronomeStore.getState().enabled) {
+            const event = updateTransition(
+              tracker,
+              state.chordTarget,
+              state.chordMatch.score,
+              state.chordMatch.stabilityMs
+            )
+            if (event) {
+              if (event.type === 'left') {
+                setCurrentChord(event.next)
+              }
+              setDrill(describeDrill(tracker))
+            }
+          }
+
           if (state.chordTarget) {
-            const messages = generateFeedback(state.chordMatch, state.chordTarget)
+            const messages = generateFeedback(
+              state.chordMatch,
+              state.chordTarget,
+              tuning.notes
+            )
             setFeedbackMessages(messages)
 
             // Check if chord is stable
@@ -108,7 +381,15 @@ export default function ChordsPracticePage() {
         processorRef.current = null
       }
     }
-  }, [stream, currentChord, updateScore, addSessionResult, handedness])
+  }, [
+    stream,
+    updateScore,
+    addSessionResult,
+    setCurrentChord,
+    handedness,
+    tuning,
+    capo,
+  ])
 
   const handleStreamReady = (newStream: MediaStream) => {
     setStream(newStream)
@@ -154,27 +435,126 @@ export default function ChordsPracticePage() {
                   fingerAssignments={fingerAssignments}
                   videoWidth={videoDimensions.width}
                   videoHeight={videoDimensions.height}
+                  tuning={tuning.notes}
+                  capo={capo}
                 />
               )}
+              {frameState?.drift && frameState.drift.state !== 'ok' && (
+                <div className="absolute top-2 left-2 right-2 flex items-center justify-between gap-2 bg-yellow-100 border border-yellow-400 rounded-lg px-3 py-2 text-sm">
+                  <span className="text-yellow-900">
+                    {frameState.drift.state === 'lost'
+                      ? 'Fretboard not found where it was calibrated'
+                      : `Calibration drifted (${frameState.drift.error.toFixed(1)}px)`}
+                  </span>
+                  <button
+                    onClick={() => router.push('/calibrate?recalibrate=1')}
+                    className="px-3 py-1 rounded-lg bg-yellow-500 text-white font-semibold hover:bg-yellow-600"
+                  >
+                    Re-calibrate
+                  </button>
+                </div>
+              )}
             </div>
 
+            {song && (
+              <SongChart
+                song={song}
+                activeStep={metronomeEnabled ? currentStep : (drill?.step ?? null)}
+                className="mt-4"
+              />
+            )}
+
             {/* Chord selector */}
             <div className="mt-4 bg-white rounded-lg p-4">
-              <h2 className="text-lg font-semibold mb-3">Select a Chord</h2>
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-lg font-semibold">Select a Chord</h2>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={fingerStrictness}
+                    onChange={(e) => setFingerStrictness(e.target.value as FingerStrictness)}
+                    className="px-2 py-1 rounded-lg border-2 border-gray-300 text-sm"
+                    aria-label="Finger check"
+                  >
+                    <option value="ignore">Any finger</option>
+                    <option value="warn">Warn on wrong finger</option>
+                    <option value="penalize">Require correct finger</option>
+                  </select>
+                  <button
+                    onClick={() => setUseMicrophone(!useMicrophone)}
+                    className={`px-3 py-1 rounded-lg border-2 text-sm transition-all ${
+                      useMicrophone
+                        ? 'border-blue-600 bg-blue-50 font-bold'
+                        : 'border-gray-300 hover:border-gray-400'
+                    }`}
+                    title={microphoneError ?? 'Listen to the chord as well as watching it'}
+                  >
+                    Mic
+                  </button>
+                  <button
+                    onClick={() => setFreePlay(!isFreePlay)}
+                    className={`px-3 py-1 rounded-lg border-2 text-sm transition-all ${
+                      isFreePlay
+                        ? 'border-blue-600 bg-blue-50 font-bold'
+                        : 'border-gray-300 hover:border-gray-400'
+                    }`}
+                  >
+                    Free Play
+                  </button>
+                </div>
+              </div>
+              {microphoneError && (
+                <p className="mb-3 text-sm text-red-600">{microphoneError}</p>
+              )}
               <ChordSelector
                 selectedChord={currentChord}
-                onSelectChord={setCurrentChord}
+                onSelectChord={(chord) => {
+                  // Picking a single chord ends a running drill
+                  if (isTransitionMode) {
+                    setTransitionMode(null)
+                  }
+                  setCurrentChord(chord)
+                }}
               />
             </div>
           </div>
 
           {/* Feedback panel */}
-          <div className="lg:col-span-1">
-            <FeedbackPanel
-              matchResult={frameState?.chordMatch || null}
-              messages={feedbackMessages}
-              className="sticky top-4"
-            />
+          <div className="lg:col-span-1 space-y-4">
+            {drill && progression && !metronomeEnabled && (
+              <TransitionPanel
+                chords={progression.steps.map((s) => s.chord)}
+                target={drill.target}
+                next={drill.next}
+                switching={drill.switching}
+                switches={drill.summary.switches}
+                cleanSwitchesPerMinute={drill.summary.cleanSwitchesPerMinute}
+                onFinish={() => setTransitionMode(null)}
+              />
+            )}
+            {progression && metronomeEnabled && (
+              <ProgressionStrip
+                progression={progression}
+                currentStep={currentStep}
+                upcoming={upcomingChange}
+                bars={barResults}
+                changes={timedResults}
+                showSteps={!song}
+              />
+            )}
+            <MetronomeControls currentBeat={currentBeat} />
+            {isFreePlay ? (
+              <ChordCandidates
+                candidates={frameState?.recognizedChords || []}
+                className="sticky top-4"
+              />
+            ) : (
+              <FeedbackPanel
+                matchResult={frameState?.chordMatch || null}
+                messages={feedbackMessages}
+                lastStrum={lastStrum}
+                className="sticky top-4"
+              />
+            )}
           </div>
         </div>
       </div>
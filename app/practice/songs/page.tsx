@@ -0,0 +1,103 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import SongChart from '@/features/songs/SongChart'
+import { usePracticeStore } from '@/features/chord-trainer/PracticeStore'
+import { useCalibrationStore } from '@/features/calibration/CalibrationStore'
+import { useMetronomeStore } from '@/features/metronome/MetronomeStore'
+import { parseChordPro } from '@/packages/shared/chordpro'
+import { DEFAULT_BEATS_PER_CHORD } from '@/packages/shared/progressions'
+
+const EXAMPLE = `{title: Example Song}
+{tempo: 80}
+
+[G]Here's a line with [D]chords above it
+[Em]Every chord you [C]play gets scored`
+
+export default function SongsPracticePage() {
+  const router = useRouter()
+  const { setSong } = usePracticeStore()
+  const { tuning } = useCalibrationStore()
+  const { setBpm } = useMetronomeStore()
+  const [text, setText] = useState('')
+  const [beatsPerChord, setBeatsPerChord] = useState(DEFAULT_BEATS_PER_CHORD)
+
+  const song = useMemo(
+    () =>
+      text.trim()
+        ? parseChordPro(text, { beatsPerChord, tuning: tuning.notes })
+        : null,
+    [text, beatsPerChord, tuning]
+  )
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) {
+      setText(await file.text())
+    }
+  }
+
+  const handleStart = () => {
+    if (!song || song.progression.steps.length === 0) return
+    setSong(song)
+    if (song.tempo) {
+      setBpm(song.tempo)
+    }
+    router.push('/practice/chords')
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col items-center p-8 bg-gray-900">
+      <div className="max-w-3xl w-full bg-white rounded-lg shadow-xl p-8 space-y-6">
+        <h1 className="text-3xl font-bold text-center">Song Practice</h1>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h2 className="text-xl font-semibold">ChordPro Song</h2>
+            <input
+              type="file"
+              accept=".cho,.crd,.chopro,.chordpro,.pro,.txt"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              className="text-sm"
+            />
+          </div>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={EXAMPLE}
+            rows={10}
+            className="w-full px-4 py-2 border-2 border-gray-300 rounded-lg font-mono text-sm"
+          />
+        </div>
+
+        <div className="flex items-center gap-3">
+          <label htmlFor="song-beats" className="font-medium">
+            Beats per chord
+          </label>
+          <input
+            id="song-beats"
+            type="number"
+            min={1}
+            max={16}
+            value={beatsPerChord}
+            onChange={(e) => setBeatsPerChord(Math.max(1, Number(e.target.value)))}
+            className="w-20 px-3 py-2 border-2 border-gray-300 rounded-lg"
+          />
+          {song?.tempo && <span className="text-sm text-gray-500">Tempo {song.tempo} BPM</span>}
+        </div>
+
+        {song && <SongChart song={song} activeStep={null} />}
+
+        <div className="flex justify-center">
+          <button
+            onClick={handleStart}
+            disabled={!song || song.progression.steps.length === 0}
+            className="px-8 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Start Practice
+          </button>
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,270 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import CameraPreview from '@/components/CameraPreview'
+import MetronomeControls from '@/features/metronome/MetronomeControls'
+import StrumPatternView from '@/features/strumming/StrumPatternView'
+import { useMetronomeStore } from '@/features/metronome/MetronomeStore'
+import { Metronome } from '@/features/metronome/Metronome'
+import { usePracticeStore } from '@/features/chord-trainer/PracticeStore'
+import { useCalibrationStore } from '@/features/calibration/CalibrationStore'
+import { MicrophoneAnalyzer } from '@/features/audio/MicrophoneAnalyzer'
+import { FrameProcessor } from '@/lib/frame-processor'
+import {
+  createStrumTrainer,
+  addStrum,
+  advanceStrumTrainer,
+  summarizeStrumming,
+  type StrumTrainer,
+} from '@/features/strumming/StrumTrainer'
+import {
+  STRUM_PATTERNS,
+  formatStrumPattern,
+  parseStrumPattern,
+} from '@/packages/shared/strum-patterns'
+import type { StrumBarResult, StrumEvent } from '@/lib/types'
+
+const TOLERANCE_MS = 100
+
+export default function StrummingPracticePage() {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const trainerRef = useRef<StrumTrainer | null>(null)
+  const microphoneRef = useRef<MicrophoneAnalyzer | null>(null)
+  const [stream, setStream] = useState<MediaStream | null>(null)
+  const [patternText, setPatternText] = useState(formatStrumPattern(STRUM_PATTERNS.folk))
+  const [bars, setBars] = useState<StrumBarResult[]>([])
+  const [currentBeat, setCurrentBeat] = useState<number | null>(null)
+  const [lastStrum, setLastStrum] = useState<StrumEvent | null>(null)
+
+  const { useMicrophone, setUseMicrophone } = usePracticeStore()
+  const { handedness } = useCalibrationStore()
+  const { enabled: metronomeEnabled, beatsPerBar, setBpm } = useMetronomeStore()
+
+  const pattern = parseStrumPattern(patternText, beatsPerBar)
+  const patternKey = pattern ? formatStrumPattern(pattern) : null
+  const lastBar = bars.length > 0 ? bars[bars.length - 1] : null
+  const summary = summarizeStrumming(bars)
+
+  // Microphone, so strums on rests (ghost strokes) can be told from real ones
+  useEffect(() => {
+    if (!useMicrophone) {
+      return
+    }
+
+    const microphone = new MicrophoneAnalyzer()
+    microphoneRef.current = microphone
+    microphone.start().catch((error) => {
+      console.error('Failed to start microphone:', error)
+      setUseMicrophone(false)
+    })
+
+    return () => {
+      microphone.dispose()
+      microphoneRef.current = null
+    }
+  }, [useMicrophone, setUseMicrophone])
+
+  // Metronome drives the beat grid; each bar is judged shortly after it ends
+  useEffect(() => {
+    if (!metronomeEnabled || !patternKey) {
+      return
+    }
+
+    const settings = useMetronomeStore.getState()
+    const parsed = parseStrumPattern(patternKey, settings.beatsPerBar)!
+    const metronome = new Metronome({
+      bpm: settings.bpm,
+      beatsPerBar: settings.beatsPerBar,
+      beatUnit: settings.beatUnit,
+      accent: settings.accent,
+      ramp: settings.rampEnabled ? settings.ramp : null,
+    })
+    const trainer = createStrumTrainer(parsed, { toleranceMs: TOLERANCE_MS })
+    trainerRef.current = trainer
+    setBars([])
+
+    metronome.onTempoChange(setBpm)
+    metronome.onBeat((beat) => {
+      setCurrentBeat(beat.beat)
+      const judged = advanceStrumTrainer(
+        trainer,
+        beat,
+        metronome.toWallTime(beat.time),
+        metronome.beatDuration * 1000
+      )
+      for (const bar of judged) {
+        metronome.recordBar(bar.missed === 0 && bar.extra === 0 && bar.accuracy === 1)
+      }
+      if (judged.length > 0) {
+        setBars([...trainer.results])
+      }
+    })
+    metronome.start()
+
+    return () => {
+      metronome.dispose()
+      trainerRef.current = null
+      setCurrentBeat(null)
+    }
+  }, [metronomeEnabled, patternKey, setBpm])
+
+  useEffect(() => {
+    if (!videoRef.current || !stream) return
+
+    const processor = new FrameProcessor()
+    processor.setCallbacks({
+      getChordTarget: () => null,
+      getHandedness: () => handedness,
+    })
+    if (useMicrophone) {
+      processor.setAudioInput({
+        getLastOnset: () => microphoneRef.current?.lastOnsetTime ?? null,
+      })
+    }
+
+    processor.initialize().then(() => {
+      processor.start(videoRef.current!, (state) => {
+        if (state.strum) {
+          setLastStrum(state.strum)
+          if (trainerRef.current) {
+            addStrum(trainerRef.current, state.strum)
+          }
+        }
+      })
+    }).catch((error) => {
+      console.error('Failed to initialize frame processor:', error)
+    })
+
+    return () => {
+      processor.dispose()
+    }
+  }, [stream, handedness, useMicrophone])
+
+  const handleStreamReady = (newStream: MediaStream) => {
+    setStream(newStream)
+    if (videoRef.current) {
+      videoRef.current.srcObject = newStream
+    }
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col bg-gray-900 p-4">
+      <div className="max-w-6xl mx-auto w-full">
+        <h1 className="text-2xl font-bold text-white mb-4">Strumming Practice</h1>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          <div className="lg:col-span-2 space-y-4">
+            <div className="relative bg-black rounded-lg overflow-hidden aspect-video">
+              <CameraPreview
+                onStreamReady={handleStreamReady}
+                className="w-full h-full"
+                mirrored={true}
+              />
+              <video
+                ref={videoRef}
+                autoPlay
+                playsInline
+                muted
+                className="absolute top-0 left-0 w-full h-full object-cover scale-x-[-1] opacity-0 pointer-events-none"
+              />
+              {lastStrum && (
+                <div className="absolute top-3 right-3 rounded bg-black/70 px-3 py-1 text-3xl font-bold text-white">
+                  {lastStrum.direction === 'down' ? '↓' : '↑'}
+                </div>
+              )}
+            </div>
+
+            <div className="bg-black/80 text-white p-4 rounded-lg space-y-3">
+              {pattern ? (
+                <StrumPatternView
+                  pattern={pattern}
+                  lastBar={lastBar}
+                  toleranceMs={TOLERANCE_MS}
+                  currentBeat={currentBeat}
+                />
+              ) : (
+                <p className="text-sm text-red-400">
+                  Use D, U and -, with the same number of slots on each of the {beatsPerBar}{' '}
+                  beats, e.g. D-DU-UDU
+                </p>
+              )}
+              {lastBar && (
+                <p className="text-sm text-gray-300">
+                  Bar {lastBar.bar + 1}: {Math.round(lastBar.accuracy * 100)}% ·{' '}
+                  {Math.round(lastBar.meanErrorMs)}ms off · {lastBar.missed} missed ·{' '}
+                  {lastBar.extra} extra
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="lg:col-span-1 space-y-4">
+            <div className="bg-white rounded-lg p-4 space-y-3">
+              <label htmlFor="strum-pattern" className="block font-semibold">
+                Pattern
+              </label>
+              <input
+                id="strum-pattern"
+                value={patternText}
+                onChange={(e) => setPatternText(e.target.value)}
+                className="w-full px-3 py-2 border-2 border-gray-300 rounded-lg font-mono"
+              />
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(STRUM_PATTERNS).map(([id, preset]) => (
+                  <button
+                    key={id}
+                    onClick={() => setPatternText(formatStrumPattern(preset))}
+                    className="px-2 py-1 rounded border-2 border-gray-300 text-xs hover:border-gray-400"
+                  >
+                    {preset.name}
+                  </button>
+                ))}
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={useMicrophone}
+                  onChange={(e) => setUseMicrophone(e.target.checked)}
+                />
+                Listen with the microphone (tells rests from strums)
+              </label>
+            </div>
+
+            <MetronomeControls currentBeat={currentBeat} />
+
+            {bars.length > 0 && (
+              <div className="bg-black/80 text-white p-4 rounded-lg space-y-2">
+                <h2 className="text-sm font-medium">Session</h2>
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <span>Accuracy</span>
+                  <span className="text-right">{Math.round(summary.accuracy * 100)}%</span>
+                  <span>Timing</span>
+                  <span className="text-right">±{Math.round(summary.meanErrorMs)}ms</span>
+                  <span>Missed</span>
+                  <span className="text-right">{summary.missed}</span>
+                  <span>Extra</span>
+                  <span className="text-right">{summary.extra}</span>
+                </div>
+                <div className="flex gap-1 pt-2">
+                  {bars.slice(-16).map((bar) => (
+                    <div
+                      key={bar.bar}
+                      title={`Bar ${bar.bar + 1}`}
+                      className={`h-4 flex-1 rounded ${
+                        bar.accuracy === 1 && bar.extra === 0
+                          ? 'bg-green-400'
+                          : bar.accuracy >= 0.5
+                            ? 'bg-yellow-400'
+                            : 'bg-red-400'
+                      }`}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  )
+}
@@ -4,17 +4,34 @@ import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import ChordSelector from '@/features/chord-trainer/ChordSelector'
 import { CHORD_NAMES } from '@/packages/shared/chord-templates'
+import {
+  DEFAULT_BEATS_PER_CHORD,
+  createProgression,
+  parseProgression,
+} from '@/packages/shared/progressions'
 import { usePracticeStore } from '@/features/chord-trainer/PracticeStore'
 
 export default function TransitionsPracticePage() {
   const router = useRouter()
-  const { setTransitionMode } = usePracticeStore()
+  const { setTransitionMode, transitionHistory } = usePracticeStore()
+  const recentDrills = transitionHistory.slice(-5).reverse()
   const [chordA, setChordA] = useState<string | null>(null)
   const [chordB, setChordB] = useState<string | null>(null)
+  const [beatsPerChord, setBeatsPerChord] = useState(DEFAULT_BEATS_PER_CHORD)
+  const [progressionText, setProgressionText] = useState('')
+
+  // A typed progression takes priority over the two-chord picker
+  const typedProgression = progressionText.trim()
+    ? parseProgression(progressionText)
+    : null
+  const progressionError = progressionText.trim() !== '' && !typedProgression
 
   const handleStart = () => {
-    if (chordA && chordB) {
-      setTransitionMode([chordA, chordB])
+    const progression =
+      typedProgression ??
+      (chordA && chordB ? createProgression([chordA, chordB], beatsPerChord) : null)
+    if (progression) {
+      setTransitionMode(progression)
       router.push('/practice/chords')
     }
   }
@@ -44,15 +61,73 @@ export default function TransitionsPracticePage() {
           </div>
         </div>
 
+        <div className="mt-6 flex items-center justify-center gap-3">
+          <label htmlFor="beats-per-chord" className="font-medium">
+            Beats per chord
+          </label>
+          <input
+            id="beats-per-chord"
+            type="number"
+            min={1}
+            max={16}
+            value={beatsPerChord}
+            onChange={(e) => setBeatsPerChord(Math.max(1, Number(e.target.value)))}
+            className="w-20 px-3 py-2 border-2 border-gray-300 rounded-lg"
+          />
+        </div>
+
+        <div className="mt-8">
+          <h2 className="text-xl font-semibold mb-2">Or Type a Progression</h2>
+          <input
+            value={progressionText}
+            onChange={(e) => setProgressionText(e.target.value)}
+            placeholder="G D Em C, 4 beats each   or   G:4 D:2 Em:2 C:8"
+            className={`w-full px-4 py-2 border-2 rounded-lg ${
+              progressionError ? 'border-red-400' : 'border-gray-300'
+            }`}
+          />
+          {progressionError && (
+            <p className="mt-1 text-sm text-red-600">
+              Couldn&apos;t read that progression. Use chord names separated by
+              spaces, with optional beats like C:8.
+            </p>
+          )}
+        </div>
+
         <div className="mt-8 flex justify-center">
           <button
             onClick={handleStart}
-            disabled={!chordA || !chordB}
+            disabled={!typedProgression && (!chordA || !chordB)}
             className="px-8 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             Start Practice
           </button>
         </div>
+
+        {recentDrills.length > 0 && (
+          <div className="mt-8">
+            <h2 className="text-xl font-semibold mb-4">Recent Drills</h2>
+            <ul className="space-y-2">
+              {recentDrills.map((drill) => (
+                <li
+                  key={drill.timestamp}
+                  className="flex justify-between rounded-lg border border-gray-200 px-4 py-2 text-sm"
+                >
+                  <span className="font-medium">
+                    {drill.chords.length === 2
+                      ? `${drill.chords[0]} ⇄ ${drill.chords[1]}`
+                      : drill.chords.join(' → ')}
+                  </span>
+                  <span>
+                    avg {(drill.averageSwitchMs / 1000).toFixed(2)}s · best{' '}
+                    {(drill.bestSwitchMs / 1000).toFixed(2)}s ·{' '}
+                    {drill.cleanSwitchesPerMinute.toFixed(1)} clean/min
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
     </main>
   )
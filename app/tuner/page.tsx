@@ -0,0 +1,16 @@
+'use client'
+
+import TunerPanel from '@/features/tuner/TunerPanel'
+import TuningSettings from '@/features/calibration/TuningSettings'
+
+export default function TunerPage() {
+  return (
+    <main className="flex min-h-screen flex-col items-center p-8 bg-gray-900">
+      <div className="max-w-3xl w-full space-y-6">
+        <h1 className="text-3xl font-bold text-center text-white">Tuner</h1>
+        <TuningSettings />
+        <TunerPanel />
+      </div>
+    </main>
+  )
+}
@@ -1,17 +1,19 @@
 'use client'
 
 import { useEffect, useState } from 'react'
-import type { ChordMatchResult } from '@/lib/types'
+import type { ChordMatchResult, StrumEvent } from '@/lib/types'
 
 interface FeedbackPanelProps {
   matchResult: ChordMatchResult | null
   messages: string[]
+  lastStrum?: StrumEvent | null
   className?: string
 }
 
 export default function FeedbackPanel({
   matchResult,
   messages,
+  lastStrum = null,
   className = '',
 }: FeedbackPanelProps) {
   const [displayMessages, setDisplayMessages] = useState<string[]>([])
@@ -49,6 +51,24 @@ export default function FeedbackPanel({
         </span>
       </div>
 
+      {/* Per-source scores, when the microphone is in use */}
+      {matchResult.sources && (
+        <div className="flex items-center justify-between text-xs text-gray-300">
+          <span>
+            Camera{' '}
+            {matchResult.sources.vision !== undefined
+              ? `${Math.round(matchResult.sources.vision * 100)}%`
+              : '–'}
+          </span>
+          <span>
+            Mic{' '}
+            {matchResult.sources.audio !== undefined
+              ? `${Math.round(matchResult.sources.audio * 100)}%`
+              : 'waiting for strum'}
+          </span>
+        </div>
+      )}
+
       {/* Stability timer */}
       {matchResult.stabilityMs > 0 && (
         <div className="flex items-center justify-between">
@@ -57,6 +77,23 @@ export default function FeedbackPanel({
         </div>
       )}
 
+      {/* Chord score when the last strum crossed the strings */}
+      {lastStrum && (
+        <div className="flex items-center justify-between text-sm">
+          <span>
+            Last strum {lastStrum.direction === 'down' ? '↓' : '↑'}
+            {lastStrum.audioConfirmed === false && (
+              <span className="ml-1 text-xs text-gray-400">(not heard)</span>
+            )}
+          </span>
+          <span>
+            {lastStrum.chordScore !== undefined
+              ? `${Math.round(lastStrum.chordScore * 100)}%`
+              : '–'}
+          </span>
+        </div>
+      )}
+
       {/* Progress bar */}
       <div className="w-full bg-gray-700 rounded-full h-2">
         <div
@@ -0,0 +1,90 @@
+// Streaming analysis: raw samples in, chroma/onset frames out
+
+import type { AudioFrame } from '@/lib/types'
+import {
+  hannWindow,
+  magnitudeSpectrum,
+  chromagram,
+  rms,
+  createOnsetDetector,
+  detectOnset,
+  type OnsetDetector,
+} from './dsp'
+
+export interface AudioAnalyzerConfig {
+  sampleRate: number
+  frameSize: number // FFT size; 4096 at 44.1 kHz resolves the low E string
+  hopSize: number
+  silenceLevel: number // Below this RMS the chroma is reported as all zeros
+}
+
+const DEFAULT_CONFIG: AudioAnalyzerConfig = {
+  sampleRate: 44100,
+  frameSize: 4096,
+  hopSize: 1024,
+  silenceLevel: 0.005,
+}
+
+export class AudioAnalyzer {
+  private config: AudioAnalyzerConfig
+  private window: Float32Array
+  private buffer: Float32Array
+  private filled = 0 // Samples in buffer
+  private samplesSeen = 0
+  private onsetDetector: OnsetDetector
+
+  constructor(config: Partial<AudioAnalyzerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config }
+    this.window = hannWindow(this.config.frameSize)
+    this.buffer = new Float32Array(this.config.frameSize)
+    this.onsetDetector = createOnsetDetector()
+  }
+
+  get sampleRate(): number {
+    return this.config.sampleRate
+  }
+
+  /**
+   * Feed samples; returns one frame per completed hop. startTime is the
+   * wall-clock time (ms) of samples[0], used to timestamp frames.
+   */
+  process(samples: Float32Array, startTime: number = 0): AudioFrame[] {
+    const { frameSize, hopSize, sampleRate } = this.config
+    const frames: AudioFrame[] = []
+
+    for (let i = 0; i < samples.length; i++) {
+      this.buffer[this.filled++] = samples[i]
+      this.samplesSeen++
+
+      if (this.filled === frameSize) {
+        const timestamp = startTime + ((i + 1) / sampleRate) * 1000
+        frames.push(this.analyze(timestamp, (this.samplesSeen / sampleRate) * 1000))
+
+        // Keep the overlap for the next frame
+        this.buffer.copyWithin(0, hopSize)
+        this.filled = frameSize - hopSize
+      }
+    }
+
+    return frames
+  }
+
+  reset(): void {
+    this.buffer.fill(0)
+    this.filled = 0
+    this.samplesSeen = 0
+    this.onsetDetector = createOnsetDetector()
+  }
+
+  private analyze(timestamp: number, streamTimeMs: number): AudioFrame {
+    const level = rms(this.buffer)
+    const spectrum = magnitudeSpectrum(this.buffer, this.window)
+    const onset = detectOnset(this.onsetDetector, spectrum, streamTimeMs)
+    const chroma =
+      level < this.config.silenceLevel
+        ? new Array(12).fill(0)
+        : Array.from(chromagram(spectrum, this.config.sampleRate))
+
+    return { timestamp, level, chroma, onset }
+  }
+}
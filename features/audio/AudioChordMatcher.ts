@@ -0,0 +1,143 @@
+// Chord likelihoods from a chromagram, in the same shape as vision matches
+
+import type {
+  ChordTemplate,
+  ChordMatchResult,
+  StringMatchResult,
+  MuteEvidence,
+} from '@/lib/types'
+import { getChordTemplate } from '@/packages/shared/chord-templates'
+import { STANDARD_TUNING } from '@/packages/shared/tunings'
+
+export interface AudioMatchOptions {
+  tuning?: number[]
+  capo?: number
+  presentLevel?: number // Chroma level at which a pitch class counts as heard
+}
+
+const DEFAULT_PRESENT_LEVEL = 0.2
+
+/**
+ * MIDI note each string should sound, or null for muted strings
+ */
+export function expectedStringNotes(
+  template: ChordTemplate,
+  tuning: number[] = STANDARD_TUNING,
+  capo: number = 0
+): { [stringIdx: number]: number | null } {
+  const notes: { [stringIdx: number]: number | null } = {}
+  for (let s = 1; s <= tuning.length; s++) {
+    const constraint = template.strings[s]
+    if (!constraint || constraint.type === 'muted') {
+      notes[s] = null
+    } else {
+      const fret = constraint.type === 'open' ? 0 : constraint.fret
+      notes[s] = tuning[s - 1] + capo + fret
+    }
+  }
+  return notes
+}
+
+/**
+ * Score how well a chromagram matches a chord shape. Each sounding string
+ * passes when its pitch class is heard; the overall score is the cosine
+ * similarity between the chroma and the chord's pitch classes.
+ */
+export function matchChordAudio(
+  chroma: number[],
+  template: ChordTemplate,
+  options: AudioMatchOptions = {}
+): ChordMatchResult {
+  const tuning = options.tuning ?? STANDARD_TUNING
+  const presentLevel = options.presentLevel ?? DEFAULT_PRESENT_LEVEL
+  const notes = expectedStringNotes(template, tuning, options.capo ?? 0)
+  const perString: { [key: number]: StringMatchResult } = {}
+  const chordTones = new Set<number>()
+
+  for (let s = 1; s <= tuning.length; s++) {
+    const note = notes[s]
+    if (note === null) {
+      // A muted string sounds like nothing, so chroma can't confirm it
+      perString[s] = { ok: true, reason: 'muting not checked' }
+      continue
+    }
+
+    const pitchClass = note % 12
+    chordTones.add(pitchClass)
+    perString[s] =
+      chroma[pitchClass] >= presentLevel ? { ok: true } : { ok: false, reason: 'not heard' }
+  }
+
+  let dot = 0
+  let norm = 0
+  for (let pc = 0; pc < 12; pc++) {
+    if (chordTones.has(pc)) {
+      dot += chroma[pc]
+    }
+    norm += chroma[pc] * chroma[pc]
+  }
+  const score =
+    norm > 0 && chordTones.size > 0 ? dot / (Math.sqrt(norm) * Math.sqrt(chordTones.size)) : 0
+
+  return { score, perString, stabilityMs: 0 }
+}
+
+/**
+ * Rank candidate chords by how well they explain the chromagram
+ */
+export function chordLikelihoods(
+  chroma: number[],
+  chordNames: string[],
+  options: AudioMatchOptions = {}
+): Array<{ chord: string; result: ChordMatchResult }> {
+  const tuning = options.tuning ?? STANDARD_TUNING
+  return chordNames
+    .map((chord) => {
+      const template = getChordTemplate(chord, tuning)
+      return template ? { chord, result: matchChordAudio(chroma, template, options) } : null
+    })
+    .filter((entry): entry is { chord: string; result: ChordMatchResult } => entry !== null)
+    .sort((a, b) => b.result.score - a.result.score)
+}
+
+/**
+ * Audio evidence for strings the chord mutes. Only usable when the open
+ * string's pitch class isn't also a chord tone from another string, and
+ * only meaningful for chroma taken while the chord rings (after a strum).
+ */
+export function audioMuteEvidence(
+  chroma: number[],
+  template: ChordTemplate,
+  options: AudioMatchOptions = {}
+): MuteEvidence[] {
+  const tuning = options.tuning ?? STANDARD_TUNING
+  const capo = options.capo ?? 0
+  const presentLevel = options.presentLevel ?? DEFAULT_PRESENT_LEVEL
+  if (chroma.every((level) => level === 0)) {
+    return [] // Silence says nothing about individual strings
+  }
+
+  const notes = expectedStringNotes(template, tuning, capo)
+  const chordTones = new Set(
+    Object.values(notes)
+      .filter((n): n is number => n !== null)
+      .map((n) => n % 12)
+  )
+
+  const evidence: MuteEvidence[] = []
+  for (let s = 1; s <= tuning.length; s++) {
+    if (notes[s] !== null || template.strings[s]?.type !== 'muted') continue
+
+    const openPitchClass = (tuning[s - 1] + capo) % 12
+    if (chordTones.has(openPitchClass)) continue
+
+    const level = chroma[openPitchClass]
+    evidence.push({
+      stringIdx: s,
+      muted: level < presentLevel,
+      source: 'audio',
+      confidence: level < presentLevel ? 1 - level / presentLevel : Math.min(1, level),
+    })
+  }
+  return evidence
+}
@@ -0,0 +1,180 @@
+// Live microphone analysis: AudioWorklet capture feeding AudioAnalyzer
+
+import type { AudioFrame } from '@/lib/types'
+import { requestMicrophoneAccess, stopMicrophoneStream } from '@/lib/microphone'
+import { AudioAnalyzer } from './AudioAnalyzer'
+
+const CHUNK_SIZE = 1024
+
+// The worklet only batches the 128-sample render quanta into larger chunks
+// and posts them to the main thread, where the DSP runs.
+const CAPTURE_WORKLET = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super()
+    this.chunk = new Float32Array(${CHUNK_SIZE})
+    this.filled = 0
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0]
+    if (input) {
+      for (let i = 0; i < input.length; i++) {
+        this.chunk[this.filled++] = input[i]
+        if (this.filled === this.chunk.length) {
+          this.port.postMessage(this.chunk, [this.chunk.buffer])
+          this.chunk = new Float32Array(${CHUNK_SIZE})
+          this.filled = 0
+        }
+      }
+    }
+    return true
+  }
+}
+registerProcessor('capture-processor', CaptureProcessor)
+`
+
+export class MicrophoneAnalyzer {
+  private context: AudioContext | null = null
+  private stream: MediaStream | null = null
+  private source: MediaStreamAudioSourceNode | null = null
+  private node: AudioWorkletNode | null = null
+  private analyzer: AudioAnalyzer | null = null
+  private listeners: Array<(frame: AudioFrame) => void> = []
+  private sampleListeners: Array<(samples: Float32Array, startTime: number) => void> = []
+  private latest: AudioFrame | null = null
+  private lastOnset: number | null = null
+  private generation = 0 // Bumped by stop(), so a pending start() can tell it is stale
+
+  get isRunning(): boolean {
+    return this.context !== null
+  }
+
+  /**
+   * Most recent analysed frame, for polling from the video loop
+   */
+  get latestFrame(): AudioFrame | null {
+    return this.latest
+  }
+
+  /**
+   * Time (ms) of the most recent onset, which a polling caller could
+   * otherwise miss between frames
+   */
+  get lastOnsetTime(): number | null {
+    return this.lastOnset
+  }
+
+  get sampleRate(): number | null {
+    return this.context?.sampleRate ?? null
+  }
+
+  onFrame(listener: (frame: AudioFrame) => void): () => void {
+    this.listeners.push(listener)
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener)
+    }
+  }
+
+  /**
+   * Raw captured samples, for analysis other than chroma (e.g. the tuner)
+   */
+  onSamples(listener: (samples: Float32Array, startTime: number) => void): () => void {
+    this.sampleListeners.push(listener)
+    return () => {
+      this.sampleListeners = this.sampleListeners.filter((l) => l !== listener)
+    }
+  }
+
+  /**
+   * Open the microphone and start analysing. If stop() or dispose() is
+   * called while this is pending, it resolves without starting, releases
+   * whatever it had opened and swallows errors from the abandoned start.
+   */
+  async start(deviceId?: string): Promise<void> {
+    if (this.context) return
+    const generation = ++this.generation
+    const stale = () => generation !== this.generation
+
+    let stream: MediaStream
+    try {
+      stream = await requestMicrophoneAccess(deviceId)
+    } catch (error) {
+      if (stale()) return
+      throw error
+    }
+    if (stale()) {
+      stopMicrophoneStream(stream)
+      return
+    }
+
+    // Owned from here on, so a stop() during the module load closes them
+    const context = new AudioContext()
+    this.stream = stream
+    this.context = context
+    this.analyzer = new AudioAnalyzer({ sampleRate: context.sampleRate })
+
+    const url = URL.createObjectURL(
+      new Blob([CAPTURE_WORKLET], { type: 'application/javascript' })
+    )
+    try {
+      await context.audioWorklet.addModule(url)
+    } catch (error) {
+      // Closing the context mid-load rejects the load
+      if (stale()) return
+      this.stop()
+      throw error
+    } finally {
+      URL.revokeObjectURL(url)
+    }
+    if (stale()) return
+
+    this.source = context.createMediaStreamSource(stream)
+    this.node = new AudioWorkletNode(context, 'capture-processor')
+    this.node.port.onmessage = (event: MessageEvent<Float32Array>) => {
+      this.handleChunk(event.data)
+    }
+    this.source.connect(this.node)
+  }
+
+  stop(): void {
+    this.generation++
+    this.node?.port.close()
+    this.node?.disconnect()
+    this.source?.disconnect()
+    stopMicrophoneStream(this.stream)
+    this.context?.close()
+
+    this.node = null
+    this.source = null
+    this.stream = null
+    this.context = null
+    this.analyzer = null
+    this.latest = null
+    this.lastOnset = null
+  }
+
+  dispose(): void {
+    this.stop()
+    this.listeners = []
+    this.sampleListeners = []
+  }
+
+  private handleChunk(chunk: Float32Array): void {
+    if (!this.analyzer) return
+
+    // Timestamp the chunk by when its first sample was captured
+    const durationMs = (chunk.length / this.analyzer.sampleRate) * 1000
+    const startTime = Date.now() - durationMs
+    this.sampleListeners.forEach((listener) => listener(chunk, startTime))
+
+    const frames = this.analyzer.process(chunk, startTime)
+    for (const frame of frames) {
+      this.latest = frame
+      if (frame.onset) {
+        this.lastOnset = frame.timestamp
+      }
+      this.listeners.forEach((listener) => listener(frame))
+    }
+  }
+}
@@ -0,0 +1,83 @@
+// Streaming pitch detection: raw samples in, pitch readings out
+
+import { rms } from './dsp'
+import { detectPitch, type PitchOptions } from './pitch'
+
+export interface PitchReading {
+  timestamp: number // ms, same clock as the samples' startTime
+  frequency: number | null // null when silent or unpitched
+  clarity: number
+  level: number // RMS, 0-1
+}
+
+export interface PitchTrackerConfig extends PitchOptions {
+  sampleRate: number
+  frameSize: number
+  hopSize: number
+  silenceLevel: number
+}
+
+const DEFAULT_CONFIG: PitchTrackerConfig = {
+  sampleRate: 44100,
+  frameSize: 4096, // Two periods of a 5-string bass's low B at 48 kHz
+  hopSize: 2048,
+  silenceLevel: 0.005,
+}
+
+export class PitchTracker {
+  private config: PitchTrackerConfig
+  private buffer: Float32Array
+  private filled = 0
+
+  constructor(config: Partial<PitchTrackerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config }
+    this.buffer = new Float32Array(this.config.frameSize)
+  }
+
+  setRange(minHz: number, maxHz: number): void {
+    this.config = { ...this.config, minHz, maxHz }
+  }
+
+  /**
+   * Feed samples; returns one reading per completed hop. startTime is the
+   * wall-clock time (ms) of samples[0].
+   */
+  process(samples: Float32Array, startTime: number = 0): PitchReading[] {
+    const { frameSize, hopSize, sampleRate } = this.config
+    const readings: PitchReading[] = []
+
+    for (let i = 0; i < samples.length; i++) {
+      this.buffer[this.filled++] = samples[i]
+
+      if (this.filled === frameSize) {
+        const timestamp = startTime + ((i + 1) / sampleRate) * 1000
+        readings.push(this.analyze(timestamp))
+
+        this.buffer.copyWithin(0, hopSize)
+        this.filled = frameSize - hopSize
+      }
+    }
+
+    return readings
+  }
+
+  reset(): void {
+    this.buffer.fill(0)
+    this.filled = 0
+  }
+
+  private analyze(timestamp: number): PitchReading {
+    const level = rms(this.buffer)
+    if (level < this.config.silenceLevel) {
+      return { timestamp, frequency: null, clarity: 0, level }
+    }
+
+    const pitch = detectPitch(this.buffer, this.config.sampleRate, this.config)
+    return {
+      timestamp,
+      frequency: pitch?.frequency ?? null,
+      clarity: pitch?.clarity ?? 0,
+      level,
+    }
+  }
+}
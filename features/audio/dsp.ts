@@ -0,0 +1,223 @@
+// Audio DSP on plain Float32Array buffers: FFT, chroma and onsets
+
+/**
+ * Hann window of the given size
+ */
+export function hannWindow(size: number): Float32Array {
+  const window = new Float32Array(size)
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (size - 1)))
+  }
+  return window
+}
+
+/**
+ * In-place radix-2 FFT. Length must be a power of two.
+ */
+export function fft(re: Float32Array, im: Float32Array): void {
+  const n = re.length
+  if (n & (n - 1)) {
+    throw new Error(`FFT size must be a power of two, got ${n}`)
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1
+    for (; j & bit; bit >>= 1) {
+      j ^= bit
+    }
+    j ^= bit
+    if (i < j) {
+      ;[re[i], re[j]] = [re[j], re[i]]
+      ;[im[i], im[j]] = [im[j], im[i]]
+    }
+  }
+
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len
+    const wRe = Math.cos(angle)
+    const wIm = Math.sin(angle)
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1
+      let curIm = 0
+      for (let k = 0; k < len / 2; k++) {
+        const a = i + k
+        const b = a + len / 2
+        const tRe = re[b] * curRe - im[b] * curIm
+        const tIm = re[b] * curIm + im[b] * curRe
+        re[b] = re[a] - tRe
+        im[b] = im[a] - tIm
+        re[a] += tRe
+        im[a] += tIm
+        const nextRe = curRe * wRe - curIm * wIm
+        curIm = curRe * wIm + curIm * wRe
+        curRe = nextRe
+      }
+    }
+  }
+}
+
+/**
+ * Magnitude spectrum (bins 0..N/2) of a windowed frame
+ */
+export function magnitudeSpectrum(
+  frame: Float32Array,
+  window: Float32Array = hannWindow(frame.length)
+): Float32Array {
+  const n = frame.length
+  const re = new Float32Array(n)
+  const im = new Float32Array(n)
+  for (let i = 0; i < n; i++) {
+    re[i] = frame[i] * window[i]
+  }
+  fft(re, im)
+
+  const magnitudes = new Float32Array(n / 2 + 1)
+  for (let i = 0; i < magnitudes.length; i++) {
+    magnitudes[i] = Math.sqrt(re[i] * re[i] + im[i] * im[i])
+  }
+  return magnitudes
+}
+
+/**
+ * Root-mean-square level of a buffer
+ */
+export function rms(buffer: Float32Array): number {
+  if (buffer.length === 0) return 0
+  let sum = 0
+  for (let i = 0; i < buffer.length; i++) {
+    sum += buffer[i] * buffer[i]
+  }
+  return Math.sqrt(sum / buffer.length)
+}
+
+/**
+ * Convert a frequency to a (fractional) MIDI note number
+ */
+export function frequencyToMidi(frequency: number): number {
+  return 69 + 12 * Math.log2(frequency / 440)
+}
+
+/**
+ * Convert a MIDI note number to a frequency in Hz
+ */
+export function midiToFrequency(midi: number): number {
+  return 440 * Math.pow(2, (midi - 69) / 12)
+}
+
+export interface ChromaOptions {
+  minHz?: number // Ignore rumble below the lowest bass string
+  maxHz?: number // Ignore pick noise and high harmonics
+}
+
+/**
+ * 12-bin pitch-class profile (C=0) from a magnitude spectrum, scaled so the
+ * strongest pitch class is 1. All zeros for silence.
+ */
+export function chromagram(
+  spectrum: Float32Array,
+  sampleRate: number,
+  options: ChromaOptions = {}
+): Float32Array {
+  const minHz = options.minHz ?? 60
+  const maxHz = options.maxHz ?? 2000
+  const fftSize = (spectrum.length - 1) * 2
+  const binHz = sampleRate / fftSize
+  const chroma = new Float32Array(12)
+
+  const first = Math.max(1, Math.ceil(minHz / binHz))
+  const last = Math.min(spectrum.length - 1, Math.floor(maxHz / binHz))
+  for (let bin = first; bin <= last; bin++) {
+    const pitchClass = ((Math.round(frequencyToMidi(bin * binHz)) % 12) + 12) % 12
+    // Energy, so quiet leakage doesn't swamp real partials
+    chroma[pitchClass] += spectrum[bin] * spectrum[bin]
+  }
+
+  let max = 0
+  for (let i = 0; i < 12; i++) {
+    max = Math.max(max, chroma[i])
+  }
+  if (max > 0) {
+    for (let i = 0; i < 12; i++) {
+      chroma[i] /= max
+    }
+  }
+  return chroma
+}
+
+/**
+ * Half-wave rectified spectral flux between consecutive spectra
+ */
+export function spectralFlux(previous: Float32Array, current: Float32Array): number {
+  let flux = 0
+  const n = Math.min(previous.length, current.length)
+  for (let i = 0; i < n; i++) {
+    const diff = current[i] - previous[i]
+    if (diff > 0) {
+      flux += diff
+    }
+  }
+  return flux
+}
+
+export interface OnsetDetector {
+  previous: Float32Array | null
+  history: number[] // Recent flux values for the adaptive threshold
+  historySize: number
+  sensitivity: number // Flux must exceed mean + sensitivity × std
+  minFlux: number // Absolute floor, so noise in silence isn't an onset
+  minIntervalMs: number
+  lastOnsetMs: number
+}
+
+/**
+ * Create an onset detector with an adaptive spectral-flux threshold
+ */
+export function createOnsetDetector(
+  options: Partial<Pick<OnsetDetector, 'historySize' | 'sensitivity' | 'minFlux' | 'minIntervalMs'>> = {}
+): OnsetDetector {
+  return {
+    previous: null,
+    history: [],
+    historySize: options.historySize ?? 20,
+    sensitivity: options.sensitivity ?? 2,
+    minFlux: options.minFlux ?? 1,
+    minIntervalMs: options.minIntervalMs ?? 80,
+    lastOnsetMs: -Infinity,
+  }
+}
+
+/**
+ * Feed one magnitude spectrum; true when a new note or strum starts
+ */
+export function detectOnset(
+  detector: OnsetDetector,
+  spectrum: Float32Array,
+  timeMs: number
+): boolean {
+  const previous = detector.previous
+  detector.previous = spectrum
+  if (!previous) {
+    return false
+  }
+
+  const flux = spectralFlux(previous, spectrum)
+  const history = detector.history
+  const mean = history.length > 0 ? history.reduce((s, v) => s + v, 0) / history.length : 0
+  const variance =
+    history.length > 0
+      ? history.reduce((s, v) => s + (v - mean) * (v - mean), 0) / history.length
+      : 0
+  const threshold = Math.max(detector.minFlux, mean + detector.sensitivity * Math.sqrt(variance))
+
+  history.push(flux)
+  if (history.length > detector.historySize) {
+    history.shift()
+  }
+
+  if (flux > threshold && timeMs - detector.lastOnsetMs >= detector.minIntervalMs) {
+    detector.lastOnsetMs = timeMs
+    return true
+  }
+  return false
+}
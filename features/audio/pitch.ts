@@ -0,0 +1,73 @@
+// YIN pitch detection on plain sample buffers
+
+export interface PitchEstimate {
+  frequency: number // Hz
+  clarity: number // 0-1, how periodic the buffer is
+}
+
+export interface PitchOptions {
+  minHz?: number // Lowest pitch searched; the buffer must hold two periods of it
+  maxHz?: number
+  threshold?: number // YIN dip threshold; lower is stricter
+}
+
+/**
+ * Estimate the fundamental frequency of a buffer with the YIN algorithm
+ * (de Cheveigné & Kawahara, 2002). Returns null for unpitched or silent input.
+ */
+export function detectPitch(
+  buffer: Float32Array,
+  sampleRate: number,
+  options: PitchOptions = {}
+): PitchEstimate | null {
+  const minHz = options.minHz ?? 60
+  const maxHz = options.maxHz ?? 1500
+  const threshold = options.threshold ?? 0.15
+
+  const maxTau = Math.min(Math.floor(sampleRate / minHz), Math.floor(buffer.length / 2))
+  const minTau = Math.max(2, Math.floor(sampleRate / maxHz))
+  if (maxTau <= minTau + 1) {
+    return null
+  }
+  const width = buffer.length - maxTau
+
+  // Difference function, then cumulative mean normalised difference
+  const cmnd = new Float32Array(maxTau + 1)
+  cmnd[0] = 1
+  let runningSum = 0
+  for (let tau = 1; tau <= maxTau; tau++) {
+    let diff = 0
+    for (let j = 0; j < width; j++) {
+      const delta = buffer[j] - buffer[j + tau]
+      diff += delta * delta
+    }
+    runningSum += diff
+    cmnd[tau] = runningSum > 0 ? (diff * tau) / runningSum : 1
+  }
+
+  // First dip below the threshold, followed down to its local minimum
+  let tau = -1
+  for (let t = minTau; t < maxTau; t++) {
+    if (cmnd[t] < threshold) {
+      while (t + 1 < maxTau && cmnd[t + 1] < cmnd[t]) {
+        t++
+      }
+      tau = t
+      break
+    }
+  }
+  if (tau < 0) {
+    return null
+  }
+
+  // Parabolic interpolation around the minimum for sub-sample accuracy
+  const prev = cmnd[tau - 1]
+  const next = cmnd[tau + 1]
+  const denominator = prev + next - 2 * cmnd[tau]
+  const shift = denominator > 0 ? (prev - next) / (2 * denominator) : 0
+
+  return {
+    frequency: sampleRate / (tau + shift),
+    clarity: Math.max(0, Math.min(1, 1 - cmnd[tau])),
+  }
+}
@@ -0,0 +1,99 @@
+// Minimal WAV (RIFF PCM) reader and writer
+
+export interface WavData {
+  sampleRate: number
+  channels: Float32Array[]
+}
+
+/**
+ * Decode 16-bit PCM or 32-bit float WAV data into per-channel samples
+ */
+export function parseWav(buffer: ArrayBuffer): WavData {
+  const view = new DataView(buffer)
+  const tag = (offset: number) =>
+    String.fromCharCode(
+      view.getUint8(offset),
+      view.getUint8(offset + 1),
+      view.getUint8(offset + 2),
+      view.getUint8(offset + 3)
+    )
+
+  if (tag(0) !== 'RIFF' || tag(8) !== 'WAVE') {
+    throw new Error('Not a WAV file')
+  }
+
+  let format = 0
+  let channelCount = 0
+  let sampleRate = 0
+  let bitsPerSample = 0
+  let offset = 12
+
+  while (offset + 8 <= view.byteLength) {
+    const id = tag(offset)
+    const size = view.getUint32(offset + 4, true)
+    const body = offset + 8
+
+    if (id === 'fmt ') {
+      format = view.getUint16(body, true)
+      channelCount = view.getUint16(body + 2, true)
+      sampleRate = view.getUint32(body + 4, true)
+      bitsPerSample = view.getUint16(body + 14, true)
+    } else if (id === 'data') {
+      const isFloat = format === 3 && bitsPerSample === 32
+      const isPcm16 = format === 1 && bitsPerSample === 16
+      if (!isFloat && !isPcm16) {
+        throw new Error(`Unsupported WAV format ${format} (${bitsPerSample}-bit)`)
+      }
+
+      const bytesPerSample = bitsPerSample / 8
+      const frames = Math.floor(size / (bytesPerSample * channelCount))
+      const channels = Array.from({ length: channelCount }, () => new Float32Array(frames))
+      for (let i = 0; i < frames; i++) {
+        for (let c = 0; c < channelCount; c++) {
+          const pos = body + (i * channelCount + c) * bytesPerSample
+          channels[c][i] = isFloat
+            ? view.getFloat32(pos, true)
+            : view.getInt16(pos, true) / 32768
+        }
+      }
+      return { sampleRate, channels }
+    }
+
+    offset = body + size + (size % 2) // Chunks are word-aligned
+  }
+
+  throw new Error('WAV file has no data chunk')
+}
+
+/**
+ * Encode mono samples as a 16-bit PCM WAV file
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + samples.length * 2)
+  const view = new DataView(buffer)
+  const writeTag = (offset: number, value: string) => {
+    for (let i = 0; i < 4; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i))
+    }
+  }
+
+  writeTag(0, 'RIFF')
+  view.setUint32(4, 36 + samples.length * 2, true)
+  writeTag(8, 'WAVE')
+  writeTag(12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true) // PCM
+  view.setUint16(22, 1, true) // Mono
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * 2, true)
+  view.setUint16(32, 2, true)
+  view.setUint16(34, 16, true)
+  writeTag(36, 'data')
+  view.setUint32(40, samples.length * 2, true)
+
+  for (let i = 0; i < samples.length; i++) {
+    const clamped = Math.max(-1, Math.min(1, samples[i]))
+    view.setInt16(44 + i * 2, Math.round(clamped * 32767), true)
+  }
+  return buffer
+}
@@ -2,16 +2,33 @@
 
 import { create } from 'zustand'
 import { persist, createJSONStorage } from 'zustand/middleware'
-import type { FretboardState, CalibrationProfile } from '@/lib/types'
+import type {
+  FretboardState,
+  CalibrationProfile,
+  FrameSize,
+  LensDistortion,
+  Tuning,
+} from '@/lib/types'
+import { DEFAULT_TUNING, MAX_CAPO_FRET } from '@/packages/shared/tunings'
+import { DEFAULT_INSTRUMENT, getInstrument } from '@/packages/shared/instruments'
 
 interface CalibrationState {
   fretboard: FretboardState
+  frameSize: FrameSize | null // Pixel space of fretboard, null = unknown
   guitarType: 'acoustic' | 'electric'
   handedness: 'right' | 'left'
+  instrumentId: string
+  tuning: Tuning
+  capo: number
   isCalibrated: boolean
-  setFretboard: (fretboard: FretboardState) => void
+  lensProfiles: Record<string, LensDistortion> // By camera deviceId
+  setFretboard: (fretboard: FretboardState, frameSize?: FrameSize) => void
   setGuitarType: (type: 'acoustic' | 'electric') => void
   setHandedness: (handedness: 'right' | 'left') => void
+  setInstrument: (instrumentId: string) => void
+  setTuning: (tuning: Tuning) => void
+  setCapo: (capo: number) => void
+  setLensProfile: (cameraId: string, lens: LensDistortion | null) => void
   saveCalibration: (profile: CalibrationProfile) => void
   loadCalibration: () => CalibrationProfile | null
   reset: () => void
@@ -28,17 +45,48 @@ export const useCalibrationStore = create<CalibrationState>()(
   persist(
     (set, get) => ({
       fretboard: defaultFretboard,
+      frameSize: null,
       guitarType: 'acoustic',
       handedness: 'right',
+      instrumentId: DEFAULT_INSTRUMENT.id,
+      tuning: DEFAULT_TUNING,
+      capo: 0,
       isCalibrated: false,
+      lensProfiles: {},
 
-      setFretboard: (fretboard) =>
-        set({ fretboard, isCalibrated: fretboard.confidence > 0.7 }),
+      setFretboard: (fretboard, frameSize) =>
+        set({
+          fretboard,
+          frameSize: frameSize ?? null,
+          isCalibrated: fretboard.confidence > 0.7,
+        }),
 
       setGuitarType: (guitarType) => set({ guitarType }),
 
       setHandedness: (handedness) => set({ handedness }),
 
+      // Switching instrument resets to its default tuning
+      setInstrument: (instrumentId) => {
+        const instrument = getInstrument(instrumentId)
+        set({ instrumentId: instrument.id, tuning: instrument.tunings[0] })
+      },
+
+      setTuning: (tuning) => set({ tuning }),
+
+      setCapo: (capo) =>
+        set({ capo: Math.max(0, Math.min(MAX_CAPO_FRET, Math.round(capo))) }),
+
+      // null forgets the camera's lens
+      setLensProfile: (cameraId, lens) => {
+        const lensProfiles = { ...get().lensProfiles }
+        if (lens) {
+          lensProfiles[cameraId] = lens
+        } else {
+          delete lensProfiles[cameraId]
+        }
+        set({ lensProfiles })
+      },
+
       saveCalibration: (profile) => {
         const fretboard: FretboardState = {
           homography: profile.homography,
@@ -48,8 +96,12 @@ export const useCalibrationStore = create<CalibrationState>()(
         }
         set({
           fretboard,
+          frameSize: profile.frameSize ?? null,
           guitarType: profile.guitarType,
           handedness: profile.handedness,
+          instrumentId: profile.instrumentId,
+          tuning: profile.tuning,
+          capo: profile.capo,
           isCalibrated: true,
         })
 
@@ -77,10 +129,20 @@ export const useCalibrationStore = create<CalibrationState>()(
               frets: profile.frets,
               confidence: 0.9,
             }
+            // Older profiles predate instruments, tuning, capo and scale length
+            profile.instrumentId = profile.instrumentId ?? DEFAULT_INSTRUMENT.id
+            profile.tuning = profile.tuning ?? DEFAULT_TUNING
+            profile.capo = profile.capo ?? 0
+            profile.scaleLengthMm =
+              profile.scaleLengthMm ?? getInstrument(profile.instrumentId).scaleLengthMm
             set({
               fretboard,
+              frameSize: profile.frameSize ?? null,
               guitarType: profile.guitarType,
               handedness: profile.handedness,
+              instrumentId: profile.instrumentId,
+              tuning: profile.tuning,
+              capo: profile.capo,
               isCalibrated: true,
             })
             return profile
@@ -94,6 +156,7 @@ export const useCalibrationStore = create<CalibrationState>()(
       reset: () =>
         set({
           fretboard: defaultFretboard,
+          frameSize: null,
           isCalibrated: false,
         }),
     }),
@@ -103,7 +166,11 @@ export const useCalibrationStore = create<CalibrationState>()(
       partialize: (state) => ({
         guitarType: state.guitarType,
         handedness: state.handedness,
+        instrumentId: state.instrumentId,
+        tuning: state.tuning,
+        capo: state.capo,
         isCalibrated: state.isCalibrated,
+        lensProfiles: state.lensProfiles,
       }),
     }
   )
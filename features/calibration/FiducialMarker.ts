@@ -0,0 +1,569 @@
+// Printed fiducial marker card: layout, detection, and the fretboard pose it gives
+
+import type { Point2D } from '@/lib/types'
+import {
+  computeHomography,
+  multiplyMatrices,
+  projectPoints,
+} from './homography'
+import type { Matrix3x3 } from './homography'
+import {
+  fretDistance,
+  PLANE_FRET_SPAN,
+} from '@/features/ml/fretboard/FretGeometry'
+
+/** Outer edge of the marker's black border */
+export const MARKER_SIZE_MM = 40
+
+/** White quiet zone between the marker and the edge of the card */
+export const MARKER_MARGIN_MM = 8
+
+/** Cells across the marker: a one-cell black border round 4x4 data bits */
+export const MARKER_GRID = 6
+
+// Data bits, 1 = black. Every rotation differs from the others in at least
+// 10 bits, so the orientation can't be misread.
+const MARKER_BITS = [
+  [1, 0, 1, 1],
+  [1, 1, 0, 1],
+  [1, 1, 0, 0],
+  [0, 0, 0, 0],
+]
+
+export interface MarkerDetectionOptions {
+  thresholdOffset: number // How much darker than its surroundings a pixel must be
+  openRadius: number // Pixels; thinner dark lines (e.g. strings over the card) are removed
+  minSide: number // Pixels; smallest marker looked for
+  maxBitErrors: number
+}
+
+const DEFAULT_OPTIONS: MarkerDetectionOptions = {
+  thresholdOffset: 7,
+  openRadius: 1,
+  minSide: 24,
+  maxBitErrors: 2,
+}
+
+export interface MarkerDetection {
+  corners: Point2D[] // Image corners: top-left, top-right, bottom-right, bottom-left as printed
+  bitErrors: number
+}
+
+// Marker corners in marker units, in the same order as MarkerDetection.corners
+const UNIT_CORNERS: Point2D[] = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+]
+
+/**
+ * The full marker grid, border included, row by row (true = black)
+ */
+export function markerCells(): boolean[][] {
+  return Array.from({ length: MARKER_GRID }, (_, r) =>
+    Array.from({ length: MARKER_GRID }, (_, c) => {
+      const border =
+        r === 0 || c === 0 || r === MARKER_GRID - 1 || c === MARKER_GRID - 1
+      return border || MARKER_BITS[r - 1][c - 1] === 1
+    })
+  )
+}
+
+/**
+ * Find the printed marker in a frame. Dark blobs are picked out with a local
+ * threshold, each is fitted with a quadrilateral, and the cells inside are
+ * read and compared with the marker's bits in all four orientations.
+ */
+export function detectMarker(
+  imageData: ImageData,
+  options: Partial<MarkerDetectionOptions> = {}
+): MarkerDetection | null {
+  const opts = { ...DEFAULT_OPTIONS, ...options }
+  const { width, height } = imageData
+  const gray = toGrayscale(imageData)
+
+  // Window wide enough that the inside of the marker's border stays dark
+  const radius = Math.max(7, Math.floor(Math.min(width, height) / 16))
+  const mask = openMask(
+    darkMask(gray, width, height, radius, opts.thresholdOffset),
+    width,
+    height,
+    opts.openRadius
+  )
+
+  let best: MarkerDetection | null = null
+  forEachComponent(
+    mask,
+    width,
+    height,
+    opts.minSide,
+    (pixels, labels, label) => {
+      const rough = quadCorners(pixels, width, opts.minSide)
+      if (!rough) return
+
+      const corners = refineCorners(rough, pixels, labels, label, width, height)
+      const detection = readMarker(
+        gray,
+        width,
+        height,
+        corners,
+        opts.maxBitErrors
+      )
+      if (detection && (!best || detection.bitErrors < best.bitErrors)) {
+        best = detection
+      }
+    }
+  )
+
+  return best
+}
+
+/**
+ * Fretboard homography (image to plane) from a detected marker. The card is
+ * laid flat on the fretboard under the strings, centred across the neck,
+ * with its top edge against the nut and its left edge towards string 1.
+ */
+export function markerFretboardHomography(
+  corners: Point2D[],
+  scaleLengthMm: number,
+  nutWidthMm: number
+): Matrix3x3 | null {
+  const toMarker = computeHomography(corners, UNIT_CORNERS)
+  if (!toMarker) {
+    return null
+  }
+
+  // Marker units to the plane: x spans the nut, y is nut to fret PLANE_FRET_SPAN
+  const planeHeightMm = fretDistance(PLANE_FRET_SPAN, scaleLengthMm)
+  const markerToPlane: Matrix3x3 = [
+    [MARKER_SIZE_MM / nutWidthMm, 0, 0.5 - MARKER_SIZE_MM / (2 * nutWidthMm)],
+    [0, MARKER_SIZE_MM / planeHeightMm, MARKER_MARGIN_MM / planeHeightMm],
+    [0, 0, 1],
+  ]
+
+  return multiplyMatrices(markerToPlane, toMarker)
+}
+
+function toGrayscale(imageData: ImageData): Float32Array {
+  const { data, width, height } = imageData
+  const gray = new Float32Array(width * height)
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] =
+      0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+  }
+  return gray
+}
+
+/**
+ * Pixels darker than the mean of the window round them, from an integral image
+ */
+function darkMask(
+  gray: Float32Array,
+  width: number,
+  height: number,
+  radius: number,
+  offset: number
+): Uint8Array {
+  const stride = width + 1
+  const integral = new Float64Array(stride * (height + 1))
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0
+    for (let x = 0; x < width; x++) {
+      rowSum += gray[y * width + x]
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum
+    }
+  }
+
+  const mask = new Uint8Array(width * height)
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius)
+    const y1 = Math.min(height, y + radius + 1)
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius)
+      const x1 = Math.min(width, x + radius + 1)
+      const sum =
+        integral[y1 * stride + x1] -
+        integral[y0 * stride + x1] -
+        integral[y1 * stride + x0] +
+        integral[y0 * stride + x0]
+      const mean = sum / ((x1 - x0) * (y1 - y0))
+      mask[y * width + x] = gray[y * width + x] < mean - offset ? 1 : 0
+    }
+  }
+  return mask
+}
+
+/**
+ * Morphological opening with a square of the given radius
+ */
+function openMask(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  radius: number
+): Uint8Array {
+  if (radius <= 0) {
+    return mask
+  }
+  const pass = (input: Uint8Array, dx: number, dy: number, erode: boolean) =>
+    filterMask(input, width, height, radius, dx, dy, erode)
+  const eroded = pass(pass(mask, 1, 0, true), 0, 1, true)
+  return pass(pass(eroded, 1, 0, false), 0, 1, false)
+}
+
+/**
+ * One pass of a separable erosion (all set) or dilation (any set) along
+ * (dx, dy)
+ */
+function filterMask(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  radius: number,
+  dx: number,
+  dy: number,
+  erode: boolean
+): Uint8Array {
+  const out = new Uint8Array(mask.length)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = erode ? 1 : 0
+      for (let k = -radius; k <= radius; k++) {
+        const sx = x + dx * k
+        const sy = y + dy * k
+        const set =
+          sx >= 0 &&
+          sy >= 0 &&
+          sx < width &&
+          sy < height &&
+          mask[sy * width + sx] === 1
+        if (erode && !set) {
+          value = 0
+          break
+        }
+        if (!erode && set) {
+          value = 1
+          break
+        }
+      }
+      out[y * width + x] = value
+    }
+  }
+  return out
+}
+
+/**
+ * Flood-fill the mask into 4-connected components and pass each one of a
+ * plausible marker size, clear of the frame edge, to `visit`
+ */
+function forEachComponent(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  minSide: number,
+  visit: (pixels: Int32Array, labels: Int32Array, label: number) => void
+) {
+  const labels = new Int32Array(width * height)
+  const stack = new Int32Array(width * height)
+  const pixels = new Int32Array(width * height)
+  const minArea = minSide * minSide * 0.3
+  const maxArea = (width * height) / 4
+  let label = 0
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue
+    label++
+
+    let count = 0
+    let top = 0
+    let touchesEdge = false
+    stack[top++] = start
+    labels[start] = label
+    while (top > 0) {
+      const idx = stack[--top]
+      pixels[count++] = idx
+      const x = idx % width
+      const y = (idx - x) / width
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) {
+        touchesEdge = true
+        continue
+      }
+      for (const next of [idx - 1, idx + 1, idx - width, idx + width]) {
+        if (mask[next] && !labels[next]) {
+          labels[next] = label
+          stack[top++] = next
+        }
+      }
+    }
+
+    if (!touchesEdge && count >= minArea && count <= maxArea) {
+      visit(pixels.subarray(0, count), labels, label)
+    }
+  }
+}
+
+/**
+ * Four outermost corners of a blob: the two furthest-apart pixels, then the
+ * pixels furthest either side of the line through them. Returned in
+ * clockwise image order.
+ */
+function quadCorners(
+  pixels: Int32Array,
+  width: number,
+  minSide: number
+): Point2D[] | null {
+  const point = (idx: number) => ({
+    x: idx % width,
+    y: Math.floor(idx / width),
+  })
+
+  let cx = 0
+  let cy = 0
+  for (const idx of pixels) {
+    cx += idx % width
+    cy += Math.floor(idx / width)
+  }
+  const center = { x: cx / pixels.length, y: cy / pixels.length }
+
+  const furthestFrom = (from: Point2D) => {
+    let best = from
+    let bestDist = -1
+    for (const idx of pixels) {
+      const p = point(idx)
+      const dist = (p.x - from.x) ** 2 + (p.y - from.y) ** 2
+      if (dist > bestDist) {
+        best = p
+        bestDist = dist
+      }
+    }
+    return best
+  }
+  const a = furthestFrom(center)
+  const b = furthestFrom(a)
+
+  let c = a
+  let d = a
+  let maxSide = 0
+  let minSideDist = 0
+  for (const idx of pixels) {
+    const p = point(idx)
+    const side = (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x)
+    if (side > maxSide) {
+      maxSide = side
+      c = p
+    } else if (side < minSideDist) {
+      minSideDist = side
+      d = p
+    }
+  }
+
+  const corners = [a, c, b, d]
+  for (let i = 0; i < 4; i++) {
+    const next = corners[(i + 1) % 4]
+    if (
+      Math.hypot(next.x - corners[i].x, next.y - corners[i].y) <
+      minSide / 2
+    ) {
+      return null
+    }
+  }
+
+  return corners.sort(
+    (p, q) =>
+      Math.atan2(p.y - center.y, p.x - center.x) -
+      Math.atan2(q.y - center.y, q.x - center.x)
+  )
+}
+
+/**
+ * Sub-pixel corners: fit a line to the outline pixels along each side and
+ * intersect neighbouring sides
+ */
+function refineCorners(
+  rough: Point2D[],
+  pixels: Int32Array,
+  labels: Int32Array,
+  label: number,
+  width: number,
+  height: number
+): Point2D[] {
+  const sides: Point2D[][] = [[], [], [], []]
+  for (const idx of pixels) {
+    const x = idx % width
+    const y = (idx - x) / width
+    const outline =
+      x === 0 ||
+      y === 0 ||
+      x === width - 1 ||
+      y === height - 1 ||
+      labels[idx - 1] !== label ||
+      labels[idx + 1] !== label ||
+      labels[idx - width] !== label ||
+      labels[idx + width] !== label
+    if (!outline) continue
+
+    // Only the middle of each side; the corners are rounded by thresholding
+    for (let i = 0; i < 4; i++) {
+      const a = rough[i]
+      const b = rough[(i + 1) % 4]
+      const length = Math.hypot(b.x - a.x, b.y - a.y)
+      const t =
+        ((x - a.x) * (b.x - a.x) + (y - a.y) * (b.y - a.y)) / (length * length)
+      const dist =
+        Math.abs((b.x - a.x) * (y - a.y) - (b.y - a.y) * (x - a.x)) / length
+      if (t > 0.1 && t < 0.9 && dist < 2) {
+        sides[i].push({ x, y })
+        break
+      }
+    }
+  }
+
+  const lines = sides.map((points, i) => {
+    const a = rough[i]
+    const b = rough[(i + 1) % 4]
+    return points.length >= 5
+      ? fitLine(points, a, b)
+      : { point: a, direction: { x: b.x - a.x, y: b.y - a.y } }
+  })
+
+  return rough.map(
+    (corner, i) => intersect(lines[(i + 3) % 4], lines[i]) ?? corner
+  )
+}
+
+interface FittedLine {
+  point: Point2D
+  direction: Point2D
+}
+
+/**
+ * Total least-squares line through outline pixels, moved half a pixel
+ * outwards: pixel centres sit that far inside the printed edge on average.
+ * The quad is clockwise, so outwards is to the left of a -> b.
+ */
+function fitLine(points: Point2D[], a: Point2D, b: Point2D): FittedLine {
+  const mean = {
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+  }
+  let sxx = 0
+  let sxy = 0
+  let syy = 0
+  for (const p of points) {
+    sxx += (p.x - mean.x) ** 2
+    sxy += (p.x - mean.x) * (p.y - mean.y)
+    syy += (p.y - mean.y) ** 2
+  }
+  const angle = 0.5 * Math.atan2(2 * sxy, sxx - syy)
+  let direction = { x: Math.cos(angle), y: Math.sin(angle) }
+  if (direction.x * (b.x - a.x) + direction.y * (b.y - a.y) < 0) {
+    direction = { x: -direction.x, y: -direction.y }
+  }
+
+  return {
+    point: { x: mean.x + direction.y * 0.5, y: mean.y - direction.x * 0.5 },
+    direction,
+  }
+}
+
+function intersect(l1: FittedLine, l2: FittedLine): Point2D | null {
+  const det = l1.direction.x * l2.direction.y - l1.direction.y * l2.direction.x
+  if (Math.abs(det) < 1e-9) {
+    return null
+  }
+  const t =
+    ((l2.point.x - l1.point.x) * l2.direction.y -
+      (l2.point.y - l1.point.y) * l2.direction.x) /
+    det
+  return {
+    x: l1.point.x + l1.direction.x * t,
+    y: l1.point.y + l1.direction.y * t,
+  }
+}
+
+/**
+ * Read the cells inside a quad and match them against the marker, trying
+ * each corner as the printed top-left
+ */
+function readMarker(
+  gray: Float32Array,
+  width: number,
+  height: number,
+  corners: Point2D[],
+  maxBitErrors: number
+): MarkerDetection | null {
+  const expected = markerCells()
+  let best: MarkerDetection | null = null
+
+  for (let rotation = 0; rotation < 4; rotation++) {
+    const ordered = [0, 1, 2, 3].map((i) => corners[(i + rotation) % 4])
+    const cells = sampleCells(gray, width, height, ordered)
+    if (!cells) return null
+
+    // Threshold halfway between the border and the lightest cell
+    const values = cells.flat()
+    const border = cells.flatMap((row, r) =>
+      row.filter(
+        (_, c) =>
+          !(r > 0 && c > 0 && r < MARKER_GRID - 1 && c < MARKER_GRID - 1)
+      )
+    )
+    const dark = median(border)
+    const light = Math.max(...values)
+    if (light - dark < 20) return null
+    const threshold = (dark + light) / 2
+
+    let bitErrors = 0
+    for (let r = 0; r < MARKER_GRID; r++) {
+      for (let c = 0; c < MARKER_GRID; c++) {
+        if (cells[r][c] < threshold !== expected[r][c]) bitErrors++
+      }
+    }
+
+    if (bitErrors <= maxBitErrors && (!best || bitErrors < best.bitErrors)) {
+      best = { corners: ordered, bitErrors }
+    }
+  }
+
+  return best
+}
+
+/**
+ * Median brightness of the middle of each cell. The median shrugs off a
+ * string crossing the cell.
+ */
+function sampleCells(
+  gray: Float32Array,
+  width: number,
+  height: number,
+  corners: Point2D[]
+): number[][] | null {
+  const toImage = computeHomography(UNIT_CORNERS, corners)
+  if (!toImage) {
+    return null
+  }
+
+  const offsets = [0.3, 0.5, 0.7]
+  return Array.from({ length: MARKER_GRID }, (_, r) =>
+    Array.from({ length: MARKER_GRID }, (_, c) => {
+      const points = offsets.flatMap((oy) =>
+        offsets.map((ox) => ({
+          x: (c + ox) / MARKER_GRID,
+          y: (r + oy) / MARKER_GRID,
+        }))
+      )
+      const samples = projectPoints(toImage, points).map((p) => {
+        const x = Math.min(width - 1, Math.max(0, Math.round(p.x)))
+        const y = Math.min(height - 1, Math.max(0, Math.round(p.y)))
+        return gray[y * width + x]
+      })
+      return median(samples)
+    })
+  )
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
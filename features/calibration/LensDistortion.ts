@@ -0,0 +1,326 @@
+// Radial lens distortion: the model, line-straightness calibration, and undistortion
+
+import type { Hand, LensDistortion, Point2D } from '@/lib/types'
+import { cannyEdges, houghLines } from '@/features/ml/fretboard/HoughDetector'
+
+export interface LineCollectionOptions {
+  maxLines: number
+  minPoints: number // Edge pixels a traced line needs
+  searchRadius: number // Pixels either side of the last point searched for the next
+  maxGap: number // Missing steps allowed before a trace ends
+}
+
+const DEFAULT_LINE_OPTIONS: LineCollectionOptions = {
+  maxLines: 20,
+  minPoints: 60,
+  searchRadius: 2,
+  maxGap: 4,
+}
+
+// Largest coefficient the estimate may reach
+const MAX_COEFFICIENT = 1
+
+export const NO_DISTORTION: LensDistortion = { k1: 0, k2: 0 }
+
+export interface LensEstimate {
+  lens: LensDistortion
+  straightness: number // Mean residual of the undistorted lines, pixels
+  lineCount: number
+}
+
+/**
+ * Where an ideal (undistorted) point appears in the image. Radius is taken
+ * from the image centre and normalized by the half-diagonal, so one set of
+ * coefficients fits every resolution of the same aspect ratio.
+ */
+export function distortPoint(
+  point: Point2D,
+  lens: LensDistortion,
+  width: number,
+  height: number
+): Point2D {
+  const cx = width / 2
+  const cy = height / 2
+  const r2 = ((point.x - cx) ** 2 + (point.y - cy) ** 2) / (cx * cx + cy * cy)
+  const factor = 1 + lens.k1 * r2 + lens.k2 * r2 * r2
+  return { x: cx + (point.x - cx) * factor, y: cy + (point.y - cy) * factor }
+}
+
+/**
+ * Inverse of distortPoint, by fixed-point iteration
+ */
+export function undistortPoint(
+  point: Point2D,
+  lens: LensDistortion,
+  width: number,
+  height: number
+): Point2D {
+  if (lens.k1 === 0 && lens.k2 === 0) {
+    return point
+  }
+
+  const cx = width / 2
+  const cy = height / 2
+  const norm = cx * cx + cy * cy
+  let x = point.x
+  let y = point.y
+  for (let i = 0; i < 20; i++) {
+    const r2 = ((x - cx) ** 2 + (y - cy) ** 2) / norm
+    const factor = 1 + lens.k1 * r2 + lens.k2 * r2 * r2
+    x = cx + (point.x - cx) / factor
+    y = cy + (point.y - cy) / factor
+  }
+  return { x, y }
+}
+
+export function undistortPoints(
+  points: Point2D[],
+  lens: LensDistortion,
+  width: number,
+  height: number
+): Point2D[] {
+  return points.map((p) => undistortPoint(p, lens, width, height))
+}
+
+/**
+ * Undistort a hand's keypoints, which are normalized to the frame
+ */
+export function undistortHand(
+  hand: Hand,
+  lens: LensDistortion,
+  width: number,
+  height: number
+): Hand {
+  return {
+    ...hand,
+    keypoints: hand.keypoints.map((kp) => {
+      const p = undistortPoint(
+        { x: kp.x * width, y: kp.y * height },
+        lens,
+        width,
+        height
+      )
+      return { ...kp, x: p.x / width, y: p.y / height }
+    }),
+  }
+}
+
+/**
+ * Source pixel for every pixel of the undistorted frame, x then y. Build it
+ * once per lens and frame size and reuse it with remapImage.
+ */
+export function createUndistortMap(
+  lens: LensDistortion,
+  width: number,
+  height: number
+): Float32Array {
+  const map = new Float32Array(width * height * 2)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = distortPoint({ x, y }, lens, width, height)
+      const idx = (y * width + x) * 2
+      map[idx] = source.x
+      map[idx + 1] = source.y
+    }
+  }
+  return map
+}
+
+/**
+ * Resample a frame through an undistort map, bilinearly. Pixels whose
+ * source falls outside the frame are left black.
+ */
+export function remapImage(imageData: ImageData, map: Float32Array): ImageData {
+  const { width, height, data } = imageData
+  const out = new Uint8ClampedArray(data.length)
+  for (let i = 0; i < width * height; i++) {
+    const sx = map[i * 2]
+    const sy = map[i * 2 + 1]
+    const x0 = Math.floor(sx)
+    const y0 = Math.floor(sy)
+    if (x0 < 0 || y0 < 0 || x0 >= width - 1 || y0 >= height - 1) {
+      out[i * 4 + 3] = 255
+      continue
+    }
+
+    const fx = sx - x0
+    const fy = sy - y0
+    const i00 = (y0 * width + x0) * 4
+    const i10 = i00 + 4
+    const i01 = i00 + width * 4
+    const i11 = i01 + 4
+    for (let c = 0; c < 4; c++) {
+      const top = data[i00 + c] * (1 - fx) + data[i10 + c] * fx
+      const bottom = data[i01 + c] * (1 - fx) + data[i11 + c] * fx
+      out[i * 4 + c] = top * (1 - fy) + bottom * fy
+    }
+  }
+  return new ImageData(out, width, height)
+}
+
+/**
+ * Trace the edges of long, nearly straight lines in a frame, for
+ * estimateLensDistortion. Each Hough line seeds a trace that follows its
+ * edge pixels outwards from the frame centre, so lines that distortion has
+ * bent are followed to their ends.
+ */
+export function collectLinePoints(
+  imageData: ImageData,
+  options: Partial<LineCollectionOptions> = {}
+): Point2D[][] {
+  const opts = { ...DEFAULT_LINE_OPTIONS, ...options }
+  const { width, height } = imageData
+  const edges = cannyEdges(imageData)
+  const peaks = houghLines(edges, width, height, {
+    minVotes: opts.minPoints,
+    maxLines: opts.maxLines,
+  })
+
+  const used = new Uint8Array(width * height)
+  const traces: Point2D[][] = []
+  for (const peak of peaks) {
+    const normal = { x: Math.cos(peak.theta), y: Math.sin(peak.theta) }
+    const along = { x: -normal.y, y: normal.x }
+    const origin = { x: peak.rho * normal.x, y: peak.rho * normal.y }
+
+    const edgeAt = (t: number, offset: number) => {
+      const x = Math.round(origin.x + along.x * t + normal.x * offset)
+      const y = Math.round(origin.y + along.y * t + normal.y * offset)
+      if (x < 0 || y < 0 || x >= width || y >= height) return -1
+      const idx = y * width + x
+      return edges[idx] !== 0 && !used[idx] ? idx : -1
+    }
+
+    // Start on the line where it passes closest to the frame centre
+    const center =
+      (width / 2 - origin.x) * along.x + (height / 2 - origin.y) * along.y
+    const reach = Math.hypot(width, height)
+    let seed: number | null = null
+    for (let d = 0; d <= reach && seed === null; d++) {
+      if (edgeAt(center + d, 0) >= 0) seed = center + d
+      else if (edgeAt(center - d, 0) >= 0) seed = center - d
+    }
+    if (seed === null) continue
+
+    const points: Point2D[] = []
+    const pixels: number[] = []
+    for (const step of [1, -1]) {
+      let offset = 0
+      let gap = 0
+      for (
+        let t = step === 1 ? seed : seed - 1;
+        Math.abs(t - center) <= reach;
+        t += step
+      ) {
+        let found = -1
+        for (let d = 0; d <= opts.searchRadius && found < 0; d++) {
+          for (const o of d === 0 ? [offset] : [offset - d, offset + d]) {
+            const idx = edgeAt(t, o)
+            if (idx >= 0) {
+              found = idx
+              offset = o
+              break
+            }
+          }
+        }
+        if (found < 0) {
+          if (++gap > opts.maxGap) break
+          continue
+        }
+        gap = 0
+        pixels.push(found)
+        points.push({ x: found % width, y: Math.floor(found / width) })
+      }
+    }
+
+    if (points.length >= opts.minPoints) {
+      pixels.forEach((idx) => (used[idx] = 1))
+      traces.push(points)
+    }
+  }
+
+  return traces
+}
+
+/**
+ * Radial coefficients that make the given lines straightest. Each line's
+ * curvature is scored as the ratio of its spread across to its spread
+ * along, which doesn't reward shrinking the image; the coefficients are
+ * found by coordinate descent. Returns null with fewer than 3 lines.
+ */
+export function estimateLensDistortion(
+  lines: Point2D[][],
+  width: number,
+  height: number
+): LensEstimate | null {
+  if (lines.length < 3) {
+    return null
+  }
+
+  const cost = (lens: LensDistortion) =>
+    lines.reduce((sum, line) => {
+      const { across, along } = spread(
+        undistortPoints(line, lens, width, height)
+      )
+      return sum + across / along
+    }, 0)
+
+  let best: LensDistortion = { ...NO_DISTORTION }
+  let bestCost = cost(best)
+  let step = 0.1
+  while (step > 1e-4) {
+    let improved = false
+    for (const key of ['k1', 'k2'] as const) {
+      for (const sign of [1, -1]) {
+        const value = best[key] + sign * step
+        if (Math.abs(value) > MAX_COEFFICIENT) continue
+        const candidate = { ...best, [key]: value }
+        const candidateCost = cost(candidate)
+        if (candidateCost < bestCost) {
+          best = candidate
+          bestCost = candidateCost
+          improved = true
+        }
+      }
+    }
+    if (!improved) {
+      step /= 2
+    }
+  }
+
+  const straightness =
+    lines.reduce((sum, line) => {
+      const { across } = spread(undistortPoints(line, best, width, height))
+      return sum + Math.sqrt(across)
+    }, 0) / lines.length
+
+  return { lens: best, straightness, lineCount: lines.length }
+}
+
+/**
+ * Variance of points across and along their best-fit line
+ */
+function spread(points: Point2D[]): { across: number; along: number } {
+  const n = points.length
+  const mx = points.reduce((sum, p) => sum + p.x, 0) / n
+  const my = points.reduce((sum, p) => sum + p.y, 0) / n
+  let sxx = 0
+  let sxy = 0
+  let syy = 0
+  for (const p of points) {
+    sxx += (p.x - mx) ** 2
+    sxy += (p.x - mx) * (p.y - my)
+    syy += (p.y - my) ** 2
+  }
+  sxx /= n
+  sxy /= n
+  syy /= n
+
+  // Eigenvalues of the covariance
+  const mean = (sxx + syy) / 2
+  const diff = Math.sqrt(((sxx - syy) / 2) ** 2 + sxy * sxy)
+  return {
+    across: Math.max(0, mean - diff),
+    along: Math.max(1e-9, mean + diff),
+  }
+}
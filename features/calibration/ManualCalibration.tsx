@@ -1,13 +1,22 @@
 'use client'
 
 import { useState, useRef, useEffect } from 'react'
-import type { Point2D, Line } from '@/lib/types'
-import { computeHomography } from './homography'
+import type { LensDistortion, Point2D } from '@/lib/types'
+import { computeHomography, invertHomography } from './homography'
+import { undistortPoints } from './LensDistortion'
 import { useCalibrationStore } from './CalibrationStore'
+import {
+  manualCalibrationTargets,
+  planeFretLines,
+  planeStringLines,
+  toImageLines,
+} from '@/features/ml/fretboard/FretGeometry'
+import { getInstrument } from '@/packages/shared/instruments'
 
 interface ManualCalibrationProps {
   videoWidth: number
   videoHeight: number
+  lens?: LensDistortion | null // The camera's, if calibrated
   onComplete: () => void
 }
 
@@ -16,6 +25,7 @@ type CalibrationStep = 'nut-left' | 'nut-right' | 'fret-left' | 'fret-right' | '
 export default function ManualCalibration({
   videoWidth,
   videoHeight,
+  lens = null,
   onComplete,
 }: ManualCalibrationProps) {
   const [step, setStep] = useState<CalibrationStep>('nut-left')
@@ -26,7 +36,15 @@ export default function ManualCalibration({
     fretRight?: Point2D
   }>({})
   const canvasRef = useRef<HTMLCanvasElement>(null)
-  const { setFretboard, saveCalibration, guitarType, handedness } = useCalibrationStore()
+  const {
+    setFretboard,
+    saveCalibration,
+    guitarType,
+    handedness,
+    instrumentId,
+    tuning,
+    capo,
+  } = useCalibrationStore()
 
   const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
     const rect = canvasRef.current?.getBoundingClientRect()
@@ -74,51 +92,27 @@ export default function ManualCalibration({
       return
     }
 
-    // Compute homography
-    const sourcePoints: Point2D[] = [
+    // Compute homography, in the undistorted frame the processor works in
+    const tapped: Point2D[] = [
       points.nutLeft,
       points.nutRight,
       points.fretLeft,
       points.fretRight,
     ]
+    const sourcePoints = lens
+      ? undistortPoints(tapped, lens, videoWidth, videoHeight)
+      : tapped
 
-    const targetPoints: Point2D[] = [
-      { x: 0, y: 0 },
-      { x: 1, y: 0 },
-      { x: 0, y: 1 },
-      { x: 1, y: 1 },
-    ]
+    // Nut and reference fret in the plane
+    const targetPoints = manualCalibrationTargets()
 
     const homography = computeHomography(sourcePoints, targetPoints)
+    const inverse = homography ? invertHomography(homography) : null
 
-    if (homography) {
-      // Create string and fret lines
-      const strings = []
-      const frets = []
-
-      // Project 6 string lines
-      for (let i = 0; i < 6; i++) {
-        const x = (points.nutLeft.x + (points.nutRight.x - points.nutLeft.x) * (i + 0.5)) / 6
-        strings.push({
-          start: { x, y: points.nutLeft.y },
-          end: { x, y: points.fretLeft.y },
-        })
-      }
-
-      // Create fret lines
-      frets.push({
-        start: points.nutLeft,
-        end: points.nutRight,
-      })
-
-      const fretSpacing = points.fretLeft.y - points.nutLeft.y
-      for (let i = 1; i <= 5; i++) {
-        const y = points.nutLeft.y + fretSpacing * i
-        frets.push({
-          start: { x: points.nutLeft.x, y },
-          end: { x: points.nutRight.x, y },
-        })
-      }
+    if (homography && inverse) {
+      // One line per instrument string, and frets at their physical spacing
+      const strings = toImageLines(inverse, planeStringLines(tuning.notes.length))
+      const frets = toImageLines(inverse, planeFretLines())
 
       const fretboard = {
         homography,
@@ -127,7 +121,8 @@ export default function ManualCalibration({
         confidence: 0.9,
       }
 
-      setFretboard(fretboard)
+      const frameSize = { width: videoWidth, height: videoHeight }
+      setFretboard(fretboard, frameSize)
 
       // Save calibration profile
       saveCalibration({
@@ -136,6 +131,11 @@ export default function ManualCalibration({
         frets,
         guitarType,
         handedness,
+        instrumentId,
+        tuning,
+        capo,
+        scaleLengthMm: getInstrument(instrumentId).scaleLengthMm,
+        frameSize,
         timestamp: Date.now(),
       })
 
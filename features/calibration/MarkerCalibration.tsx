@@ -0,0 +1,198 @@
+'use client'
+
+import { useState, useRef, useEffect } from 'react'
+import type { LensDistortion, Point2D } from '@/lib/types'
+import { invertHomography } from './homography'
+import { undistortPoints } from './LensDistortion'
+import { useCalibrationStore } from './CalibrationStore'
+import { detectMarker, markerFretboardHomography } from './FiducialMarker'
+import {
+  planeFretLines,
+  planeStringLines,
+  toImageLines,
+} from '@/features/ml/fretboard/FretGeometry'
+import { getInstrument } from '@/packages/shared/instruments'
+import { getDownsampledFrame } from '@/lib/camera'
+
+interface MarkerCalibrationProps {
+  video: HTMLVideoElement | null
+  videoWidth: number
+  videoHeight: number
+  lens?: LensDistortion | null // The camera's, if calibrated
+  onComplete: () => void
+}
+
+// Consecutive frames the marker must hold still in before it is used
+const STEADY_FRAMES = 3
+// Pixels a corner may move between those frames
+const STEADY_TOLERANCE = 2
+
+export default function MarkerCalibration({
+  video,
+  videoWidth,
+  videoHeight,
+  lens = null,
+  onComplete,
+}: MarkerCalibrationProps) {
+  const [corners, setCorners] = useState<Point2D[] | null>(null)
+  const [complete, setComplete] = useState(false)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const steady = useRef({ corners: null as Point2D[] | null, frames: 0 })
+  const {
+    setFretboard,
+    saveCalibration,
+    guitarType,
+    handedness,
+    instrumentId,
+    tuning,
+    capo,
+  } = useCalibrationStore()
+
+  useEffect(() => {
+    if (!video || complete) return
+
+    const calibrateFromMarker = (
+      found: Point2D[],
+      frameSize: { width: number; height: number }
+    ) => {
+      const instrument = getInstrument(instrumentId)
+      const homography = markerFretboardHomography(
+        lens
+          ? undistortPoints(found, lens, frameSize.width, frameSize.height)
+          : found,
+        instrument.scaleLengthMm,
+        instrument.nutWidthMm
+      )
+      const inverse = homography ? invertHomography(homography) : null
+      if (!homography || !inverse) return
+
+      const strings = toImageLines(
+        inverse,
+        planeStringLines(tuning.notes.length)
+      )
+      const frets = toImageLines(inverse, planeFretLines())
+      setFretboard({ homography, strings, frets, confidence: 0.9 }, frameSize)
+      saveCalibration({
+        homography,
+        strings,
+        frets,
+        guitarType,
+        handedness,
+        instrumentId,
+        tuning,
+        capo,
+        scaleLengthMm: instrument.scaleLengthMm,
+        frameSize,
+        timestamp: Date.now(),
+      })
+
+      setComplete(true)
+      setTimeout(() => {
+        onComplete()
+      }, 1500)
+    }
+
+    const detect = () => {
+      if (video.readyState < 2 || !video.videoWidth) return
+
+      // Full resolution: the marker is small and its corners set the whole fretboard
+      const imageData = getDownsampledFrame(
+        video,
+        video.videoWidth,
+        video.videoHeight
+      )
+      if (!imageData) return
+
+      const detection = detectMarker(imageData)
+      const found = detection?.corners ?? null
+      setCorners(found)
+
+      const previous = steady.current.corners
+      const still =
+        found &&
+        previous &&
+        found.every(
+          (p, i) =>
+            Math.hypot(p.x - previous[i].x, p.y - previous[i].y) <
+            STEADY_TOLERANCE
+        )
+      steady.current = {
+        corners: found,
+        frames: found ? (still ? steady.current.frames + 1 : 1) : 0,
+      }
+
+      if (found && steady.current.frames >= STEADY_FRAMES) {
+        calibrateFromMarker(found, {
+          width: imageData.width,
+          height: imageData.height,
+        })
+      }
+    }
+
+    const interval = setInterval(detect, 300)
+    return () => clearInterval(interval)
+  }, [
+    video,
+    complete,
+    setFretboard,
+    saveCalibration,
+    guitarType,
+    handedness,
+    instrumentId,
+    tuning,
+    capo,
+    lens,
+    onComplete,
+  ])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return
+
+    canvas.width = videoWidth
+    canvas.height = videoHeight
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height)
+
+    // Outline the marker while it is in view
+    if (corners) {
+      ctx.strokeStyle = complete
+        ? 'rgba(34, 197, 94, 0.9)'
+        : 'rgba(250, 204, 21, 0.9)'
+      ctx.lineWidth = 3
+      ctx.beginPath()
+      corners.forEach((p, i) =>
+        i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)
+      )
+      ctx.closePath()
+      ctx.stroke()
+    }
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)'
+    ctx.fillRect(0, canvas.height - 60, canvas.width, 60)
+    ctx.fillStyle = 'white'
+    ctx.font = 'bold 20px sans-serif'
+    ctx.textAlign = 'center'
+    ctx.textBaseline = 'middle'
+    ctx.fillText(
+      complete
+        ? 'Calibration complete!'
+        : corners
+          ? 'Marker found - hold still'
+          : 'Lay the marker card on the fretboard against the nut',
+      canvas.width / 2,
+      canvas.height - 30
+    )
+  }, [corners, complete, videoWidth, videoHeight])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="pointer-events-none absolute left-0 top-0"
+      style={{ width: '100%', height: '100%' }}
+    />
+  )
+}
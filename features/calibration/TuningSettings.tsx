@@ -0,0 +1,112 @@
+'use client'
+
+import { useState } from 'react'
+import { useCalibrationStore } from './CalibrationStore'
+import { MAX_CAPO_FRET, formatTuning, parseTuning } from '@/packages/shared/tunings'
+import { INSTRUMENTS, getInstrument } from '@/packages/shared/instruments'
+
+interface TuningSettingsProps {
+  className?: string
+}
+
+export default function TuningSettings({ className = '' }: TuningSettingsProps) {
+  const { instrumentId, tuning, capo, setInstrument, setTuning, setCapo } =
+    useCalibrationStore()
+  const instrument = getInstrument(instrumentId)
+  const [customText, setCustomText] = useState(formatTuning(tuning.notes))
+  const [customError, setCustomError] = useState<string | null>(null)
+
+  const handlePresetChange = (id: string) => {
+    const preset = instrument.tunings.find((t) => t.id === id)
+    if (id === 'custom') {
+      applyCustomTuning(customText)
+    } else if (preset) {
+      setTuning(preset)
+    }
+  }
+
+  const handleInstrumentChange = (id: string) => {
+    setInstrument(id)
+    setCustomText(formatTuning(getInstrument(id).tunings[0].notes))
+    setCustomError(null)
+  }
+
+  const applyCustomTuning = (text: string) => {
+    setCustomText(text)
+    const parsed = parseTuning(text, instrument.tunings[0].notes)
+    if (parsed) {
+      setTuning(parsed)
+      setCustomError(null)
+    } else {
+      setCustomError(
+        `Enter ${instrument.stringCount} notes, low to high (e.g. ${formatTuning(
+          instrument.tunings[0].notes
+        )})`
+      )
+    }
+  }
+
+  return (
+    <div className={`flex flex-wrap items-end gap-4 text-white ${className}`}>
+      <label className="flex flex-col text-sm">
+        <span className="mb-1 text-gray-300">Instrument</span>
+        <select
+          value={instrument.id}
+          onChange={(e) => handleInstrumentChange(e.target.value)}
+          className="rounded bg-gray-800 px-3 py-2"
+        >
+          {Object.values(INSTRUMENTS).map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col text-sm">
+        <span className="mb-1 text-gray-300">Tuning</span>
+        <select
+          value={tuning.id}
+          onChange={(e) => handlePresetChange(e.target.value)}
+          className="rounded bg-gray-800 px-3 py-2"
+        >
+          {instrument.tunings.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name}
+            </option>
+          ))}
+          <option value="custom">Custom…</option>
+        </select>
+      </label>
+
+      {tuning.id === 'custom' && (
+        <label className="flex flex-col text-sm">
+          <span className="mb-1 text-gray-300">Notes (low to high)</span>
+          <input
+            value={customText}
+            onChange={(e) => applyCustomTuning(e.target.value)}
+            className="rounded bg-gray-800 px-3 py-2"
+          />
+          {customError && (
+            <span className="mt-1 text-xs text-red-400">{customError}</span>
+          )}
+        </label>
+      )}
+
+      <label className="flex flex-col text-sm">
+        <span className="mb-1 text-gray-300">Capo</span>
+        <select
+          value={capo}
+          onChange={(e) => setCapo(Number(e.target.value))}
+          className="rounded bg-gray-800 px-3 py-2"
+        >
+          {Array.from({ length: MAX_CAPO_FRET + 1 }, (_, fret) => (
+            <option key={fret} value={fret}>
+              {fret === 0 ? 'None' : `Fret ${fret}`}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  )
+}
@@ -43,150 +43,131 @@ export function computeHomography(
     throw new Error('Homography requires exactly 4 point pairs')
   }
 
-  // Build the A matrix for DLT
-  const A: number[][] = []
-  for (let i = 0; i < 4; i++) {
-    const [x, y] = [srcPoints[i].x, srcPoints[i].y]
-    const [u, v] = [dstPoints[i].x, dstPoints[i].y]
-
-    A.push([-x, -y, -1, 0, 0, 0, u * x, u * y, u])
-    A.push([0, 0, 0, -x, -y, -1, v * x, v * y, v])
-  }
-
-  // Solve using SVD (simplified - in production use a proper SVD library)
-  // For MVP, we'll use a simpler approach with known point order
-  return computeHomographyFromQuadrilateral(srcPoints, dstPoints)
+  return fitHomography(srcPoints, dstPoints)
 }
 
 /**
- * Compute homography from quadrilateral to rectangle
- * Assumes srcPoints form a quadrilateral and dstPoints form a rectangle
+ * Least-squares homography from 4 or more point correspondences.
+ * Points are normalized first (Hartley) so pixel and unit coordinates can be
+ * mixed without the system becoming ill-conditioned.
  */
-function computeHomographyFromQuadrilateral(
+export function fitHomography(
   srcPoints: Point2D[],
   dstPoints: Point2D[]
-): Matrix3x3 {
-  if (srcPoints.length !== 4 || dstPoints.length !== 4) {
-    throw new Error('Quadrilateral homography requires 4 points')
+): Matrix3x3 | null {
+  if (srcPoints.length < 4 || srcPoints.length !== dstPoints.length) {
+    return null
   }
 
-  // Normalize points to improve numerical stability
-  const srcNorm = normalizePoints(srcPoints)
-  const dstNorm = normalizePoints(dstPoints)
-
-  // Build coefficient matrix
-  const A: number[][] = []
-  const b: number[] = []
+  const srcT = normalizationMatrix(srcPoints)
+  const dstT = normalizationMatrix(dstPoints)
+  const src = projectPoints(srcT, srcPoints)
+  const dst = projectPoints(dstT, dstPoints)
+
+  // Normal equations of the DLT system with h33 fixed to 1
+  const AtA: number[][] = Array.from({ length: 8 }, () => new Array(8).fill(0))
+  const Atb: number[] = new Array(8).fill(0)
+  const accumulate = (row: number[], value: number) => {
+    for (let i = 0; i < 8; i++) {
+      Atb[i] += row[i] * value
+      for (let j = 0; j < 8; j++) {
+        AtA[i][j] += row[i] * row[j]
+      }
+    }
+  }
 
-  for (let i = 0; i < 4; i++) {
-    const [x, y] = [srcNorm[i].x, srcNorm[i].y]
-    const [u, v] = [dstNorm[i].x, dstNorm[i].y]
+  for (let i = 0; i < src.length; i++) {
+    const [x, y] = [src[i].x, src[i].y]
+    const [u, v] = [dst[i].x, dst[i].y]
+    accumulate([x, y, 1, 0, 0, 0, -u * x, -u * y], u)
+    accumulate([0, 0, 0, x, y, 1, -v * x, -v * y], v)
+  }
 
-    A.push([x, y, 1, 0, 0, 0, -u * x, -u * y])
-    A.push([0, 0, 0, x, y, 1, -v * x, -v * y])
-    b.push(u, v)
+  const h = solveLinearSystem(AtA, Atb)
+  if (!h) {
+    return null
   }
 
-  // Solve linear system Ax = b using Gaussian elimination (simplified)
-  const h = solveLinearSystem(A, b)
-
-  // Denormalize
-  const srcT = srcNorm[4] // transformation matrix stored in 5th element
-  const dstT = dstNorm[4]
-
-  // Reconstruct homography matrix
-  const H: Matrix3x3 = [
-    [
-      h[0] * dstT.scaleX,
-      h[1] * dstT.scaleX,
-      h[2] * dstT.scaleX + dstT.tx,
-    ],
-    [
-      h[3] * dstT.scaleY,
-      h[4] * dstT.scaleY,
-      h[5] * dstT.scaleY + dstT.ty,
-    ],
+  const normalized: Matrix3x3 = [
+    [h[0], h[1], h[2]],
+    [h[3], h[4], h[5]],
     [h[6], h[7], 1],
   ]
 
-  // Apply inverse normalization
-  const invSrcT = {
-    scaleX: 1 / srcT.scaleX,
-    scaleY: 1 / srcT.scaleY,
-    tx: -srcT.tx / srcT.scaleX,
-    ty: -srcT.ty / srcT.scaleY,
+  const dstInverse = invertHomography(dstT)
+  if (!dstInverse) {
+    return null
   }
 
-  // Compose transformations
-  const finalH: Matrix3x3 = [
-    [
-      H[0][0] * invSrcT.scaleX,
-      H[0][1] * invSrcT.scaleX,
-      H[0][0] * invSrcT.tx + H[0][1] * invSrcT.ty + H[0][2],
-    ],
-    [
-      H[1][0] * invSrcT.scaleY,
-      H[1][1] * invSrcT.scaleY,
-      H[1][0] * invSrcT.tx + H[1][1] * invSrcT.ty + H[1][2],
-    ],
-    [
-      H[2][0] * invSrcT.scaleX,
-      H[2][1] * invSrcT.scaleY,
-      H[2][0] * invSrcT.tx + H[2][1] * invSrcT.ty + H[2][2],
-    ],
-  ]
+  const H = multiplyMatrices(multiplyMatrices(dstInverse, normalized), srcT)
+  if (Math.abs(H[2][2]) < 1e-12) {
+    return null
+  }
 
-  return finalH
+  return H.map((row) => row.map((value) => value / H[2][2])) as Matrix3x3
 }
 
-interface NormalizationResult {
-  scaleX: number
-  scaleY: number
-  tx: number
-  ty: number
+/**
+ * Invert a homography, e.g. to map the rectified plane back into the image
+ */
+export function invertHomography(matrix: Matrix3x3): Matrix3x3 | null {
+  const [a, b, c] = matrix[0]
+  const [d, e, f] = matrix[1]
+  const [g, h, i] = matrix[2]
+
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g)
+  if (Math.abs(det) < 1e-12) {
+    return null
+  }
+
+  return [
+    [(e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det],
+    [(f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det],
+    [(d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det],
+  ]
 }
 
-function normalizePoints(
-  points: Point2D[]
-): Point2D[] & { [4]: NormalizationResult } {
-  if (points.length === 0) {
-    throw new Error('Cannot normalize empty point array')
+/**
+ * Compose two transforms: the result applies `b` first, then `a`
+ */
+export function multiplyMatrices(a: Matrix3x3, b: Matrix3x3): Matrix3x3 {
+  const result: Matrix3x3 = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ]
+  for (let r = 0; r < 3; r++) {
+    for (let c = 0; c < 3; c++) {
+      result[r][c] = a[r][0] * b[0][c] + a[r][1] * b[1][c] + a[r][2] * b[2][c]
+    }
   }
+  return result
+}
 
-  // Calculate centroid
+/**
+ * Similarity transform moving the centroid to the origin with an average
+ * distance of sqrt(2)
+ */
+function normalizationMatrix(points: Point2D[]): Matrix3x3 {
   const cx = points.reduce((sum, p) => sum + p.x, 0) / points.length
   const cy = points.reduce((sum, p) => sum + p.y, 0) / points.length
 
-  // Calculate average distance from centroid
-  const distances = points.map((p) =>
-    Math.sqrt((p.x - cx) ** 2 + (p.y - cy) ** 2)
-  )
   const avgDist =
-    distances.reduce((sum, d) => sum + d, 0) / distances.length
+    points.reduce((sum, p) => sum + Math.sqrt((p.x - cx) ** 2 + (p.y - cy) ** 2), 0) /
+    points.length
 
   // Avoid division by zero
   const scale = avgDist > 1e-10 ? Math.sqrt(2) / avgDist : 1
 
-  // Normalize points
-  const normalized = points.map((p) => ({
-    x: (p.x - cx) * scale,
-    y: (p.y - cy) * scale,
-  }))
-
-  // Store transformation
-  const result = normalized as Point2D[] & { [4]: NormalizationResult }
-  result[4] = {
-    scaleX: scale,
-    scaleY: scale,
-    tx: -cx * scale,
-    ty: -cy * scale,
-  }
-
-  return result
+  return [
+    [scale, 0, -cx * scale],
+    [0, scale, -cy * scale],
+    [0, 0, 1],
+  ]
 }
 
-function solveLinearSystem(A: number[][], b: number[]): number[] {
-  // Simplified Gaussian elimination for 8x8 system
+function solveLinearSystem(A: number[][], b: number[]): number[] | null {
+  // Gaussian elimination with partial pivoting
   const n = A.length
   if (n === 0 || b.length !== n) {
     throw new Error('Invalid system dimensions')
@@ -210,10 +191,9 @@ function solveLinearSystem(A: number[][], b: number[]): number[] {
     }
     ;[augmented[i], augmented[maxRow]] = [augmented[maxRow], augmented[i]]
 
-    // Check for singular matrix
+    // Degenerate correspondences (e.g. three collinear points)
     if (Math.abs(augmented[i][i]) < 1e-10) {
-      // Use identity as fallback
-      return [1, 0, 0, 0, 1, 0, 0, 0]
+      return null
     }
 
     // Eliminate
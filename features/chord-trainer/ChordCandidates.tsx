@@ -0,0 +1,46 @@
+'use client'
+
+import type { ChordCandidate } from '@/lib/types'
+
+interface ChordCandidatesProps {
+  candidates: ChordCandidate[]
+  className?: string
+}
+
+export default function ChordCandidates({
+  candidates,
+  className = '',
+}: ChordCandidatesProps) {
+  return (
+    <div className={`bg-black/80 text-white p-4 rounded-lg space-y-3 ${className}`}>
+      <h2 className="text-sm font-medium">You are holding</h2>
+
+      {candidates.length === 0 && (
+        <p className="text-sm text-gray-400">Place your fingers on the fretboard</p>
+      )}
+
+      {candidates.map((candidate, idx) => {
+        const percentage = Math.round(candidate.confidence * 100)
+        return (
+          <div key={candidate.name}>
+            <div className="flex items-baseline justify-between">
+              <span className={idx === 0 ? 'text-2xl font-bold' : 'text-lg'}>
+                {candidate.name}
+              </span>
+              <span className="text-sm text-gray-300">{percentage}%</span>
+            </div>
+            <div className="text-xs text-gray-400">{candidate.displayName}</div>
+            <div className="mt-1 w-full bg-gray-700 rounded-full h-1.5">
+              <div
+                className={`h-1.5 rounded-full ${
+                  candidate.confidence >= 0.85 ? 'bg-green-400' : 'bg-yellow-400'
+                }`}
+                style={{ width: `${percentage}%` }}
+              />
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,62 @@
+// Combines camera and microphone chord matches into one result
+
+import type { ChordTemplate, ChordMatchResult, StringMatchResult } from '@/lib/types'
+
+export interface FusionOptions {
+  audioWeight?: number // Share of the score taken from audio when both sources are present
+}
+
+const DEFAULT_AUDIO_WEIGHT = 0.4
+
+/**
+ * Fuse vision and audio matches for the same chord. Vision decides where the
+ * fingers are; audio confirms that open and fretted strings actually sound.
+ * Muted strings keep the vision verdict, which already includes audio mute
+ * evidence. If either source is missing the other is used on its own.
+ */
+export function fuseChordMatches(
+  vision: ChordMatchResult | null,
+  audio: ChordMatchResult | null,
+  template: ChordTemplate,
+  options: FusionOptions = {}
+): ChordMatchResult | null {
+  if (!vision && !audio) {
+    return null
+  }
+  if (!audio) {
+    return { ...vision!, sources: { vision: vision!.score } }
+  }
+  if (!vision) {
+    return { ...audio, sources: { audio: audio.score } }
+  }
+
+  const perString: { [key: number]: StringMatchResult } = {}
+  const strings = new Set(
+    [...Object.keys(vision.perString), ...Object.keys(audio.perString)].map(Number)
+  )
+  for (const s of strings) {
+    const seen = vision.perString[s]
+    const heard = audio.perString[s]
+    const constraint = template.strings[s]
+    if (!seen || !heard || !constraint || constraint.type === 'muted') {
+      perString[s] = seen ?? heard
+      continue
+    }
+
+    const result: StringMatchResult = { ...seen, sources: { vision: seen.ok, audio: heard.ok } }
+    if (seen.ok && !heard.ok) {
+      // Looks right but doesn't sound: a muffled open string or a buzzing fret
+      result.ok = false
+      result.reason = constraint.type === 'open' ? 'open string not ringing' : 'buzzing'
+    }
+    perString[s] = result
+  }
+
+  const audioWeight = options.audioWeight ?? DEFAULT_AUDIO_WEIGHT
+  return {
+    score: (1 - audioWeight) * vision.score + audioWeight * audio.score,
+    perString,
+    stabilityMs: vision.stabilityMs,
+    sources: { vision: vision.score, audio: audio.score },
+  }
+}
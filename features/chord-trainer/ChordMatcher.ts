@@ -5,7 +5,8 @@ import type {
   ChordTemplate,
   ChordMatchResult,
 } from '@/lib/types'
-import { scoreChord } from '@/packages/shared/scoring'
+import { scoreChord, type ScoringOptions } from '@/packages/shared/scoring'
+import { NOTE_NAMES } from '@/packages/shared/music-theory'
 
 export interface StabilityTracker {
   score: number
@@ -72,9 +73,10 @@ export function isChordStable(tracker: StabilityTracker): boolean {
 export function matchChord(
   fingers: FingerAssignment[],
   template: ChordTemplate,
-  stabilityTracker?: StabilityTracker
+  stabilityTracker?: StabilityTracker,
+  options: ScoringOptions = {}
 ): ChordMatchResult {
-  const matchResult = scoreChord(fingers, template)
+  const matchResult = scoreChord(fingers, template, options)
 
   if (stabilityTracker) {
     const updatedTracker = updateStability(
@@ -89,12 +91,35 @@ export function matchChord(
   return matchResult
 }
 
+/**
+ * Name a string by its open note, e.g. "the B string" or "the low E string",
+ * falling back to its number when the note is ambiguous or unknown
+ */
+export function describeString(stringIdx: number, tuning?: number[]): string {
+  const note = tuning?.[stringIdx - 1]
+  if (note === undefined) {
+    return `string ${stringIdx}`
+  }
+
+  const name = NOTE_NAMES[note % 12]
+  const same = tuning!.filter((n) => n % 12 === note % 12)
+  if (same.length === 1) {
+    return `the ${name} string`
+  } else if (note === Math.min(...same)) {
+    return `the low ${name} string`
+  } else if (note === Math.max(...same)) {
+    return `the high ${name} string`
+  }
+  return `string ${stringIdx}`
+}
+
 /**
  * Generate feedback messages from chord match result
  */
 export function generateFeedback(
   matchResult: ChordMatchResult | null,
-  chordName: string
+  chordName: string,
+  tuning?: number[]
 ): string[] {
   const messages: string[] = []
 
@@ -116,19 +141,52 @@ export function generateFeedback(
   // Per-string feedback
   const fingerNames = ['Thumb', 'Index', 'Middle', 'Ring', 'Pinky']
   if (matchResult.perString) {
-    for (let s = 1; s <= 6; s++) {
+    const stringIndices = Object.keys(matchResult.perString)
+      .map(Number)
+      .sort((a, b) => a - b)
+    for (const s of stringIndices) {
       const stringResult = matchResult.perString[s]
-      if (!stringResult || stringResult.ok) {
+      if (!stringResult) {
+        continue
+      }
+
+      // Reported even when the string passes (warn strictness)
+      if (stringResult.wrongFinger) {
+        const expected = stringResult.expectedFinger
+        if (expected !== undefined && expected >= 0 && expected < fingerNames.length) {
+          const finger =
+            expected === 0 ? 'thumb' : `${fingerNames[expected].toLowerCase()} finger`
+          messages.push(`Use your ${finger} on string ${s}`)
+        }
+        continue
+      }
+
+      if (stringResult.ok) {
         continue
       }
 
-      if (stringResult.reason?.includes('wrong fret')) {
+      const name = describeString(s, tuning)
+      if (stringResult.reason === 'buzzing') {
+        messages.push(`Shape is right but ${name} is buzzing`)
+      } else if (stringResult.reason === 'open string not ringing') {
+        messages.push(`Let ${name} ring open`)
+      } else if (stringResult.reason === 'not heard') {
+        messages.push(`Can't hear ${name}`)
+      } else if (stringResult.reason === 'muted string ringing') {
+        messages.push(`String ${s} is ringing: mute it`)
+      } else if (stringResult.reason === 'string not muted') {
+        messages.push(`String ${s}: mute with your thumb or a leaning finger`)
+      } else if (stringResult.reason?.includes('barre')) {
+        messages.push(`String ${s}: press the barre flat across the fret`)
+      } else if (stringResult.reason?.includes('wrong fret')) {
         const fingerId = stringResult.fingerId
         if (fingerId !== undefined && fingerId >= 0 && fingerId < fingerNames.length) {
           messages.push(
             `${fingerNames[fingerId]} finger: check fret position`
           )
         }
+      } else if (stringResult.reason === 'finger not pressed') {
+        messages.push(`String ${s}: press the string down`)
       } else if (stringResult.reason?.includes('missing')) {
         messages.push(`String ${s}: place finger`)
       } else if (stringResult.reason?.includes('blocking')) {
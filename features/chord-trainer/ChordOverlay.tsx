@@ -3,6 +3,7 @@
 import { useEffect, useRef } from 'react'
 import type { ChordTemplate, ChordMatchResult, FingerAssignment } from '@/lib/types'
 import { getChordTemplate } from '@/packages/shared/chord-templates'
+import { relativeFret } from '@/packages/shared/tunings'
 
 interface ChordOverlayProps {
   chordName: string | null
@@ -10,6 +11,8 @@ interface ChordOverlayProps {
   fingerAssignments: FingerAssignment[]
   videoWidth: number
   videoHeight: number
+  tuning?: number[]
+  capo?: number
   className?: string
 }
 
@@ -19,6 +22,8 @@ export default function ChordOverlay({
   fingerAssignments,
   videoWidth,
   videoHeight,
+  tuning,
+  capo = 0,
   className = '',
 }: ChordOverlayProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
@@ -35,13 +40,37 @@ export default function ChordOverlay({
 
     ctx.clearRect(0, 0, canvas.width, canvas.height)
 
-    const template = getChordTemplate(chordName)
+    const template = getChordTemplate(chordName, tuning)
     if (!template) return
 
+    const stringCount = tuning?.length ?? 6
+    const stringSpacing = videoWidth / (stringCount + 1)
+    const fretSpacing = videoHeight * 0.15
+
     // Draw target finger positions
     const fingerNames = ['T', '1', '2', '3', '4'] // Thumb, Index, Middle, Ring, Pinky
 
-    for (let stringIdx = 1; stringIdx <= 6; stringIdx++) {
+    // Draw barre as a bar across its strings, beneath the finger markers
+    if (template.barre) {
+      const { fret, fromString, toString } = template.barre
+      const y = videoHeight * 0.2 + (fret + capo) * fretSpacing
+      const barred = Array.from(
+        { length: toString - fromString + 1 },
+        (_, i) => matchResult?.perString[fromString + i]?.ok === true
+      )
+
+      ctx.strokeStyle = barred.every(Boolean)
+        ? 'rgba(34, 197, 94, 0.5)'
+        : 'rgba(59, 130, 246, 0.4)'
+      ctx.lineWidth = 20
+      ctx.lineCap = 'round'
+      ctx.beginPath()
+      ctx.moveTo(stringSpacing * (stringCount + 1 - toString), y)
+      ctx.lineTo(stringSpacing * (stringCount + 1 - fromString), y)
+      ctx.stroke()
+    }
+
+    for (let stringIdx = 1; stringIdx <= stringCount; stringIdx++) {
       const constraint = template.strings[stringIdx]
       if (!constraint || constraint.type !== 'fretted') continue
 
@@ -49,7 +78,7 @@ export default function ChordOverlay({
       const assignment = fingerAssignments.find(
         (f) =>
           f.stringIdx === stringIdx &&
-          Math.abs(f.fretIdx - constraint.fret) <= 0.5
+          Math.abs(relativeFret(f.fretIdx, capo) - constraint.fret) <= 0.5
       )
 
       const stringResult = matchResult?.perString[stringIdx]
@@ -57,7 +86,9 @@ export default function ChordOverlay({
 
       // Determine color based on state
       let color = 'rgba(59, 130, 246, 0.6)' // Blue for target
-      if (isCorrect) {
+      if (stringResult?.wrongFinger) {
+        color = 'rgba(245, 158, 11, 0.8)' // Amber for right fret, wrong finger
+      } else if (isCorrect) {
         color = 'rgba(34, 197, 94, 0.8)' // Green for correct
       } else if (assignment && !isCorrect) {
         color = 'rgba(239, 68, 68, 0.8)' // Red for incorrect
@@ -65,10 +96,8 @@ export default function ChordOverlay({
 
       // Draw circle at target position
       // For MVP, use simplified positioning - in production would use actual fretboard coordinates
-      const stringSpacing = videoWidth / 7
-      const fretSpacing = videoHeight * 0.15
-      const x = stringSpacing * (7 - stringIdx) // Reverse order (6=low E on left)
-      const y = videoHeight * 0.2 + constraint.fret * fretSpacing
+      const x = stringSpacing * (stringCount + 1 - stringIdx) // Reverse order (lowest string on left)
+      const y = videoHeight * 0.2 + (constraint.fret + capo) * fretSpacing
 
       ctx.fillStyle = color
       ctx.beginPath()
@@ -93,7 +122,7 @@ export default function ChordOverlay({
       ctx.textBaseline = 'top'
       ctx.fillText(template.name, 20, 20)
     }
-  }, [chordName, matchResult, fingerAssignments, videoWidth, videoHeight])
+  }, [chordName, matchResult, fingerAssignments, videoWidth, videoHeight, tuning, capo])
 
   return (
     <canvas
@@ -0,0 +1,180 @@
+// Reverse chord recognition: name whatever chord is being held
+
+import type {
+  ChordCandidate,
+  FingerAssignment,
+  FingerSegment,
+} from '@/lib/types'
+import {
+  scoreChord,
+  bestFingerOnString,
+  MIN_SEGMENT_CONFIDENCE,
+} from '@/packages/shared/scoring'
+import { CHORD_NAMES, getChordTemplate } from '@/packages/shared/chord-templates'
+import { STANDARD_TUNING } from '@/packages/shared/tunings'
+import {
+  CHORD_QUALITIES,
+  chordPitchClasses,
+  chordSymbol,
+  formatChordName,
+  NOTE_NAMES,
+  parseChordName,
+  transposeChordName,
+  type ChordQuality,
+} from '@/packages/shared/music-theory'
+
+export interface RecognitionOptions {
+  tuning?: number[]
+  capo?: number
+  mutedStrings?: number[] // Strings known not to ring
+  segments?: FingerSegment[]
+  topN?: number
+}
+
+/**
+ * Find the chords that best explain the fingers currently on the fretboard,
+ * combining template matches with a name derived from the sounding notes
+ */
+export function recognizeChord(
+  fingers: FingerAssignment[],
+  options: RecognitionOptions = {}
+): ChordCandidate[] {
+  const tuning = options.tuning ?? STANDARD_TUNING
+  const capo = options.capo ?? 0
+  const topN = options.topN ?? 3
+
+  const candidates = new Map<string, ChordCandidate>()
+  const consider = (candidate: ChordCandidate) => {
+    const existing = candidates.get(candidate.name)
+    if (!existing || candidate.confidence > existing.confidence) {
+      candidates.set(candidate.name, candidate)
+    }
+  }
+
+  matchTemplates(fingers, tuning, capo, options).forEach(consider)
+  nameFromTheory(
+    soundingNotes(
+      fingers,
+      tuning,
+      capo,
+      options.mutedStrings,
+      options.segments
+    )
+  ).forEach(consider)
+
+  return Array.from(candidates.values())
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, topN)
+}
+
+/**
+ * Score the shape against every chord in the template library
+ */
+function matchTemplates(
+  fingers: FingerAssignment[],
+  tuning: number[],
+  capo: number,
+  options: RecognitionOptions
+): ChordCandidate[] {
+  const results: ChordCandidate[] = []
+
+  for (const shapeName of CHORD_NAMES) {
+    const template = getChordTemplate(shapeName, tuning)
+    if (!template) continue
+
+    const { score } = scoreChord(fingers, template, {
+      segments: options.segments,
+      capo,
+      stringCount: tuning.length,
+    })
+
+    // Shapes are capo-relative; report the chord that actually sounds
+    const name = capo > 0 ? transposeChordName(shapeName, capo) : shapeName
+    const parsed = name ? parseChordName(name) : null
+    if (!name || !parsed) continue
+
+    results.push({
+      name,
+      displayName: formatChordName(NOTE_NAMES[parsed.root], parsed.quality),
+      confidence: score,
+      source: 'template',
+    })
+  }
+
+  return results
+}
+
+/**
+ * MIDI notes that ring, one per string (fretted, open, or none if muted).
+ * A string under a barre sounds at the barre unless a fingertip frets it
+ * higher.
+ */
+export function soundingNotes(
+  fingers: FingerAssignment[],
+  tuning: number[],
+  capo: number,
+  mutedStrings: number[] = [],
+  segments: FingerSegment[] = []
+): number[] {
+  const notes: number[] = []
+  const barres = segments.filter(
+    (seg) => seg && seg.confidence >= MIN_SEGMENT_CONFIDENCE
+  )
+
+  for (let s = 1; s <= tuning.length; s++) {
+    if (mutedStrings.includes(s)) continue
+
+    const finger = bestFingerOnString(fingers, s)
+    let fret = finger && finger.fretIdx > capo ? finger.fretIdx : capo
+    for (const barre of barres) {
+      if (s >= barre.fromString && s <= barre.toString) {
+        fret = Math.max(fret, barre.fretIdx)
+      }
+    }
+    notes.push(tuning[s - 1] + fret)
+  }
+
+  return notes
+}
+
+/**
+ * Derive chord names from a set of sounding notes. Confidence is the overlap
+ * between the chord's tones and the sounding pitch classes, with a bonus when
+ * the lowest note is the root.
+ */
+export function nameFromTheory(notes: number[]): ChordCandidate[] {
+  if (notes.length < 2) {
+    return []
+  }
+
+  const sounding = new Set(notes.map((n) => n % 12))
+  const bass = Math.min(...notes) % 12
+  const results: ChordCandidate[] = []
+
+  for (let root = 0; root < 12; root++) {
+    if (!sounding.has(root)) continue
+
+    for (const quality of Object.keys(CHORD_QUALITIES) as ChordQuality[]) {
+      const definition = CHORD_QUALITIES[quality]
+      const tones = chordPitchClasses(root, quality)
+      const required = tones.filter(
+        (_, i) => !definition.optional.includes(definition.intervals[i])
+      )
+      if (!required.every((tone) => sounding.has(tone))) continue
+
+      const present = tones.filter((tone) => sounding.has(tone)).length
+      const extra = Array.from(sounding).filter((pc) => !tones.includes(pc)).length
+      const overlap = present / (tones.length + extra)
+      const confidence = overlap * (bass === root ? 1 : 0.85)
+
+      results.push({
+        name: chordSymbol(root, quality, bass),
+        displayName: formatChordName(NOTE_NAMES[root], quality),
+        confidence,
+        source: 'theory',
+      })
+    }
+  }
+
+  return results
+}
@@ -1,19 +1,36 @@
 // Zustand store for practice session state
 
 import { create } from 'zustand'
-import type { PracticeSession, SessionResult } from '@/lib/types'
+import type {
+  PracticeSession,
+  SessionResult,
+  TransitionResult,
+  Progression,
+  Song,
+  FingerStrictness,
+} from '@/lib/types'
 
 interface PracticeState {
   currentChord: string | null
   score: number
   stabilityMs: number
   history: SessionResult[]
+  transitionHistory: TransitionResult[]
   isTransitionMode: boolean
-  transitionChords: [string, string] | null
+  progression: Progression | null
+  song: Song | null // Set when the progression came from a song chart
+  isFreePlay: boolean
+  fingerStrictness: FingerStrictness
+  useMicrophone: boolean // Fuse microphone evidence into chord scores
   setCurrentChord: (chord: string | null) => void
   updateScore: (score: number, stabilityMs: number) => void
   addSessionResult: (result: SessionResult) => void
-  setTransitionMode: (chords: [string, string] | null) => void
+  addTransitionResult: (result: TransitionResult) => void
+  setTransitionMode: (progression: Progression | null) => void
+  setSong: (song: Song | null) => void
+  setFreePlay: (enabled: boolean) => void
+  setFingerStrictness: (strictness: FingerStrictness) => void
+  setUseMicrophone: (enabled: boolean) => void
   reset: () => void
 }
 
@@ -22,10 +39,20 @@ export const usePracticeStore = create<PracticeState>((set) => ({
   score: 0,
   stabilityMs: 0,
   history: [],
+  transitionHistory: [],
   isTransitionMode: false,
-  transitionChords: null,
+  progression: null,
+  song: null,
+  isFreePlay: false,
+  fingerStrictness: 'warn',
+  useMicrophone: false,
 
-  setCurrentChord: (chord) => set({ currentChord: chord }),
+  // Picking a target chord leaves free play
+  setCurrentChord: (chord) =>
+    set((state) => ({
+      currentChord: chord,
+      isFreePlay: chord ? false : state.isFreePlay,
+    })),
 
   updateScore: (score, stabilityMs) => set({ score, stabilityMs }),
 
@@ -34,19 +61,49 @@ export const usePracticeStore = create<PracticeState>((set) => ({
       history: [...state.history, result],
     })),
 
-  setTransitionMode: (chords) =>
+  addTransitionResult: (result) =>
+    set((state) => ({
+      transitionHistory: [...state.transitionHistory, result],
+    })),
+
+  setTransitionMode: (progression) =>
+    set({
+      isTransitionMode: progression !== null,
+      progression,
+      song: null,
+      currentChord: progression ? progression.steps[0]?.chord ?? null : null,
+    }),
+
+  setSong: (song) =>
     set({
-      isTransitionMode: chords !== null,
-      transitionChords: chords,
-      currentChord: chords ? chords[0] : null,
+      isTransitionMode: song !== null,
+      progression: song ? song.progression : null,
+      song,
+      currentChord: song ? song.progression.steps[0]?.chord ?? null : null,
+      isFreePlay: false,
     }),
 
+  setFreePlay: (enabled) =>
+    set({
+      isFreePlay: enabled,
+      currentChord: null,
+      isTransitionMode: false,
+      progression: null,
+      song: null,
+    }),
+
+  setFingerStrictness: (fingerStrictness) => set({ fingerStrictness }),
+
+  setUseMicrophone: (useMicrophone) => set({ useMicrophone }),
+
   reset: () =>
     set({
       currentChord: null,
       score: 0,
       stabilityMs: 0,
       isTransitionMode: false,
-      transitionChords: null,
+      progression: null,
+      song: null,
+      isFreePlay: false,
     }),
 }))
@@ -0,0 +1,71 @@
+'use client'
+
+import type { BarResult, Progression, TimedChangeResult } from '@/lib/types'
+
+interface ProgressionStripProps {
+  progression: Progression
+  currentStep: number | null
+  upcoming: { chord: string; beats: number } | null
+  bars: BarResult[]
+  changes: TimedChangeResult[]
+  showSteps?: boolean // Off when a song chart already shows the chords
+  className?: string
+}
+
+export default function ProgressionStrip({
+  progression,
+  currentStep,
+  upcoming,
+  bars,
+  changes,
+  showSteps = true,
+  className = '',
+}: ProgressionStripProps) {
+  const recentBars = bars.slice(-16)
+
+  return (
+    <div className={`bg-black/80 text-white p-4 rounded-lg space-y-3 ${className}`}>
+      {showSteps && (
+        <div className="flex flex-wrap gap-2">
+          {progression.steps.map((step, idx) => (
+            <div
+              key={idx}
+              className={`px-3 py-1 rounded border-2 ${
+                idx === currentStep ? 'border-green-400 bg-green-900/40' : 'border-gray-600'
+              }`}
+            >
+              <span className="text-lg font-bold">{step.chord}</span>
+              <span className="ml-1 text-xs text-gray-400">×{step.beats}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {upcoming && (
+        <div className="text-sm">
+          Next: <span className="font-bold">{upcoming.chord}</span> in {upcoming.beats}{' '}
+          {upcoming.beats === 1 ? 'beat' : 'beats'}
+        </div>
+      )}
+
+      {recentBars.length > 0 && (
+        <div className="flex gap-1" aria-label="Recent bars">
+          {recentBars.map((bar) => (
+            <div
+              key={bar.bar}
+              title={`Bar ${bar.bar + 1}: ${bar.chords.join(' ')} ${Math.round(bar.score * 100)}%`}
+              className={`h-4 w-4 rounded-sm ${
+                bar.clean ? 'bg-green-400' : bar.score >= 0.7 ? 'bg-yellow-400' : 'bg-red-400'
+              }`}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="text-xs text-gray-300">
+        On the beat: {changes.filter((c) => c.stable).length} / {changes.length} changes ·
+        clean bars: {bars.filter((b) => b.clean).length} / {bars.length}
+      </div>
+    </div>
+  )
+}
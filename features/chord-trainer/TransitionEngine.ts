@@ -0,0 +1,150 @@
+// Timed chord-transition drills (A→B→A, or around a progression)
+
+import type { TransitionSwitch, TransitionResult } from '@/lib/types'
+
+export type TransitionPhase = 'forming' | 'holding' | 'switching'
+
+export interface TransitionTracker {
+  chords: string[]
+  targetIdx: number // Chord currently being scored
+  phase: TransitionPhase
+  leftAt: number | null // When the previous shape was let go
+  startedAt: number
+  switches: TransitionSwitch[]
+  holdMs: number // Stability needed before a shape counts as reached
+  leaveThreshold: number // Score below which the held shape has been left
+  cleanScore: number // Score the new shape must reach for a clean switch
+  maxCleanSwitchMs: number
+}
+
+export type TransitionEvent =
+  | { type: 'reached'; chord: string }
+  | { type: 'left'; from: string; next: string }
+  | { type: 'switched'; switch: TransitionSwitch }
+
+export interface TransitionOptions {
+  holdMs?: number
+  leaveThreshold?: number
+  cleanScore?: number
+  maxCleanSwitchMs?: number
+}
+
+/**
+ * Create a tracker for a drill that cycles through the chords in order
+ */
+export function createTransitionTracker(
+  chords: string[],
+  options: TransitionOptions = {},
+  timestamp: number = Date.now()
+): TransitionTracker {
+  return {
+    chords,
+    targetIdx: 0,
+    phase: 'forming',
+    leftAt: null,
+    startedAt: timestamp,
+    switches: [],
+    holdMs: options.holdMs ?? 500,
+    leaveThreshold: options.leaveThreshold ?? 0.5,
+    cleanScore: options.cleanScore ?? 0.9,
+    maxCleanSwitchMs: options.maxCleanSwitchMs ?? 2000,
+  }
+}
+
+/**
+ * Chord the player should be holding (or moving to) right now
+ */
+export function currentTransitionTarget(tracker: TransitionTracker): string {
+  return tracker.chords[tracker.targetIdx]
+}
+
+/**
+ * Chord the player will switch to next
+ */
+export function nextTransitionTarget(tracker: TransitionTracker): string {
+  return tracker.chords[(tracker.targetIdx + 1) % tracker.chords.length]
+}
+
+function previousTransitionTarget(tracker: TransitionTracker): string {
+  const count = tracker.chords.length
+  return tracker.chords[(tracker.targetIdx + count - 1) % count]
+}
+
+/**
+ * Feed one frame's score for the current target and advance the drill.
+ * Scores for any other chord (stale frames) are ignored.
+ */
+export function updateTransition(
+  tracker: TransitionTracker,
+  chord: string,
+  score: number,
+  stabilityMs: number,
+  timestamp: number = Date.now()
+): TransitionEvent | null {
+  if (chord !== currentTransitionTarget(tracker) || !isFinite(score)) {
+    return null
+  }
+
+  if (tracker.phase === 'holding') {
+    if (score >= tracker.leaveThreshold) {
+      return null
+    }
+
+    // Let go of the held shape: start timing the switch to the next chord
+    const from = currentTransitionTarget(tracker)
+    tracker.targetIdx = (tracker.targetIdx + 1) % tracker.chords.length
+    tracker.phase = 'switching'
+    tracker.leftAt = timestamp
+    return { type: 'left', from, next: currentTransitionTarget(tracker) }
+  }
+
+  if (stabilityMs < tracker.holdMs) {
+    return null
+  }
+
+  const to = currentTransitionTarget(tracker)
+  tracker.phase = 'holding'
+
+  if (tracker.leftAt === null) {
+    // First shape of the drill, nothing to time yet
+    return { type: 'reached', chord: to }
+  }
+
+  // The shape was reached when its current stable run began
+  const reachedAt = timestamp - stabilityMs
+  const switchMs = Math.max(0, reachedAt - tracker.leftAt)
+  const entry: TransitionSwitch = {
+    from: previousTransitionTarget(tracker),
+    to,
+    switchMs,
+    clean: score >= tracker.cleanScore && switchMs <= tracker.maxCleanSwitchMs,
+    timestamp,
+  }
+  tracker.switches.push(entry)
+  tracker.leftAt = null
+
+  return { type: 'switched', switch: entry }
+}
+
+/**
+ * Summarize a drill for the session history
+ */
+export function summarizeTransitions(
+  tracker: TransitionTracker,
+  timestamp: number = Date.now()
+): TransitionResult {
+  const durationMs = Math.max(0, timestamp - tracker.startedAt)
+  const times = tracker.switches.map((s) => s.switchMs)
+  const cleanCount = tracker.switches.filter((s) => s.clean).length
+
+  return {
+    chords: tracker.chords,
+    switches: [...tracker.switches],
+    cleanSwitchesPerMinute: durationMs > 0 ? cleanCount / (durationMs / 60000) : 0,
+    averageSwitchMs:
+      times.length > 0 ? times.reduce((sum, t) => sum + t, 0) / times.length : 0,
+    bestSwitchMs: times.length > 0 ? Math.min(...times) : 0,
+    durationMs,
+    timestamp,
+  }
+}
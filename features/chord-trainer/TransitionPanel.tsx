@@ -0,0 +1,71 @@
+'use client'
+
+import type { TransitionSwitch } from '@/lib/types'
+
+interface TransitionPanelProps {
+  chords: string[]
+  target: string
+  next: string
+  switching: boolean
+  switches: TransitionSwitch[]
+  cleanSwitchesPerMinute: number
+  onFinish: () => void
+  className?: string
+}
+
+export default function TransitionPanel({
+  chords,
+  target,
+  next,
+  switching,
+  switches,
+  cleanSwitchesPerMinute,
+  onFinish,
+  className = '',
+}: TransitionPanelProps) {
+  const last = switches[switches.length - 1]
+  const average =
+    switches.length > 0
+      ? switches.reduce((sum, s) => sum + s.switchMs, 0) / switches.length
+      : 0
+
+  return (
+    <div className={`bg-black/80 text-white p-4 rounded-lg space-y-3 ${className}`}>
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-medium">
+          {chords.length === 2 ? `${chords[0]} ⇄ ${chords[1]}` : chords.join(' → ')}
+        </h2>
+        <button
+          onClick={onFinish}
+          className="px-3 py-1 text-sm rounded bg-gray-700 hover:bg-gray-600"
+        >
+          Finish
+        </button>
+      </div>
+
+      <div className="flex items-baseline gap-3">
+        <span className="text-3xl font-bold">{target}</span>
+        <span className="text-sm text-gray-300">
+          {switching ? 'switch now' : `then ${next}`}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <span className="text-gray-300">Switches</span>
+        <span className="text-right">
+          {switches.filter((s) => s.clean).length} clean / {switches.length}
+        </span>
+        <span className="text-gray-300">Last switch</span>
+        <span className="text-right">
+          {last ? `${(last.switchMs / 1000).toFixed(2)}s` : '–'}
+        </span>
+        <span className="text-gray-300">Average</span>
+        <span className="text-right">
+          {switches.length > 0 ? `${(average / 1000).toFixed(2)}s` : '–'}
+        </span>
+        <span className="text-gray-300">Clean / min</span>
+        <span className="text-right">{cleanSwitchesPerMinute.toFixed(1)}</span>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+// Chord changes scheduled on metronome beats
+
+import type {
+  BarResult,
+  Progression,
+  TimedChangeResult,
+} from '@/lib/types'
+import { stepAtBeat } from '@/packages/shared/progressions'
+import type { BeatEvent } from './Metronome'
+
+export interface ChordChangeTracker {
+  progression: Progression
+  beatCount: number // Beats seen since the first chord started
+  results: TimedChangeResult[]
+  bars: BarResult[]
+  currentBar: { bar: number; chords: string[]; scores: number[]; clean: boolean } | null
+  minStableMs: number // Shape must have been held this long at the beat
+}
+
+// What the player sees after a beat, plus anything judged on it
+export interface ChordChangeStep {
+  current: string // Chord that should be sounding now
+  upcoming: string // Chord to move to at the next change
+  beatsUntilChange: number
+  stepIndex: number // Position of the current chord in the progression
+  result?: TimedChangeResult
+  bar?: BarResult // On the first beat of a bar, the bar just played
+}
+
+/**
+ * Create a tracker that loops through a progression on the beat
+ */
+export function createChordChanges(
+  progression: Progression,
+  minStableMs: number = 150
+): ChordChangeTracker {
+  return {
+    progression,
+    beatCount: 0,
+    results: [],
+    bars: [],
+    currentBar: null,
+    minStableMs,
+  }
+}
+
+/**
+ * Chord the processor should score against before the next beat. It flips
+ * to the upcoming chord one beat early, so the shape can be formed and
+ * judged on the downbeat.
+ */
+export function chordChangeTarget(tracker: ChordChangeTracker): string {
+  const { index } = stepAtBeat(tracker.progression, tracker.beatCount)
+  return tracker.progression.steps[index].chord
+}
+
+/**
+ * Advance on a beat: judge a change if a new chord starts here, sample the
+ * beat into its bar, and close out the previous bar on a downbeat
+ */
+export function advanceChordChanges(
+  tracker: ChordChangeTracker,
+  beat: BeatEvent,
+  frame: { chord: string | null; score: number; stabilityMs: number },
+  timestamp: number = Date.now()
+): ChordChangeStep {
+  const { steps } = tracker.progression
+  const { index, beatsLeft } = stepAtBeat(tracker.progression, tracker.beatCount)
+  const current = steps[index].chord
+  const step: ChordChangeStep = {
+    current,
+    upcoming: steps[(index + 1) % steps.length].chord,
+    beatsUntilChange: beatsLeft,
+    stepIndex: index,
+  }
+
+  const onTarget = frame.chord === current
+  const held = onTarget && frame.stabilityMs >= tracker.minStableMs
+
+  // A new chord starts where its step has all its beats left; the very
+  // first chord gets no count-in, so it isn't judged
+  if (beatsLeft === steps[index].beats && tracker.beatCount > 0) {
+    step.result = {
+      chord: current,
+      bar: beat.bar,
+      beat: beat.beat,
+      stable: held,
+      score: onTarget ? frame.score : 0,
+      timestamp,
+    }
+    tracker.results.push(step.result)
+  }
+
+  if (tracker.currentBar && tracker.currentBar.bar !== beat.bar) {
+    const { bar, chords, scores, clean } = tracker.currentBar
+    step.bar = {
+      bar,
+      chords,
+      score: scores.reduce((sum, s) => sum + s, 0) / scores.length,
+      clean,
+    }
+    tracker.bars.push(step.bar)
+    tracker.currentBar = null
+  }
+
+  if (!tracker.currentBar) {
+    tracker.currentBar = { bar: beat.bar, chords: [], scores: [], clean: true }
+  }
+  const bar = tracker.currentBar
+  if (!bar.chords.includes(current)) {
+    bar.chords.push(current)
+  }
+  bar.scores.push(onTarget ? frame.score : 0)
+  bar.clean = bar.clean && held
+
+  tracker.beatCount++
+  return step
+}
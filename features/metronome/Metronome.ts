@@ -0,0 +1,256 @@
+// Web Audio metronome with look-ahead scheduling and tempo ramping
+
+export interface MetronomeConfig {
+  bpm: number
+  beatsPerBar: number // Time signature numerator
+  beatUnit: number // Time signature denominator (4 = quarter note)
+  accent: boolean // Accent the first beat of each bar
+  ramp: TempoRamp | null
+  lookaheadMs: number // How often the scheduler wakes up
+  scheduleAheadSec: number // How far ahead clicks are queued
+}
+
+// Raise the tempo by stepBpm after cleanBars clean bars in a row
+export interface TempoRamp {
+  stepBpm: number
+  cleanBars: number
+  maxBpm: number
+}
+
+export interface BeatEvent {
+  bar: number // 0-based bar count since start
+  beat: number // 0-based beat within the bar
+  time: number // Clock time of the beat (seconds)
+  accent: boolean
+  bpm: number
+}
+
+// Time source in seconds, e.g. AudioContext.currentTime
+export interface MetronomeClock {
+  now(): number
+}
+
+export interface ClickSound {
+  click(time: number, accent: boolean): void
+}
+
+// Gap before the first click, so it isn't scheduled in the past
+const START_DELAY_SEC = 0.05
+
+export const MIN_BPM = 30
+export const MAX_BPM = 300
+
+const DEFAULT_CONFIG: MetronomeConfig = {
+  bpm: 80,
+  beatsPerBar: 4,
+  beatUnit: 4,
+  accent: true,
+  ramp: null,
+  lookaheadMs: 25,
+  scheduleAheadSec: 0.1,
+}
+
+/**
+ * Clock backed by an AudioContext, so clicks and beat events share a timeline
+ */
+export function audioContextClock(context: AudioContext): MetronomeClock {
+  return { now: () => context.currentTime }
+}
+
+/**
+ * Short sine clicks, higher pitched on accented beats
+ */
+export function createClickSound(context: AudioContext): ClickSound {
+  return {
+    click(time, accent) {
+      const osc = context.createOscillator()
+      const gain = context.createGain()
+      osc.frequency.value = accent ? 1500 : 1000
+      gain.gain.setValueAtTime(accent ? 0.8 : 0.5, time)
+      gain.gain.exponentialRampToValueAtTime(0.001, time + 0.05)
+      osc.connect(gain)
+      gain.connect(context.destination)
+      osc.start(time)
+      osc.stop(time + 0.05)
+    },
+  }
+}
+
+export class Metronome {
+  private config: MetronomeConfig
+  private clock: MetronomeClock | null
+  private sound: ClickSound | null
+  private audioContext: AudioContext | null = null
+  private timerId: ReturnType<typeof setInterval> | null = null
+  private isRunning = false
+  private nextBeatTime = 0
+  private nextBar = 0
+  private nextBeat = 0
+  private pending: BeatEvent[] = [] // Clicks queued but not yet reached
+  private cleanStreak = 0
+  private beatListeners: Array<(event: BeatEvent) => void> = []
+  private tempoListeners: Array<(bpm: number) => void> = []
+
+  constructor(
+    config: Partial<MetronomeConfig> = {},
+    clock?: MetronomeClock,
+    sound?: ClickSound
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config }
+    this.config.bpm = clampBpm(this.config.bpm)
+    this.clock = clock ?? null
+    this.sound = sound ?? null
+  }
+
+  get bpm(): number {
+    return this.config.bpm
+  }
+
+  get running(): boolean {
+    return this.isRunning
+  }
+
+  /**
+   * Seconds per beat; the beat unit scales a quarter-note BPM (6/8 ticks eighths)
+   */
+  get beatDuration(): number {
+    return (60 / this.config.bpm) * (4 / this.config.beatUnit)
+  }
+
+  onBeat(listener: (event: BeatEvent) => void): () => void {
+    this.beatListeners.push(listener)
+    return () => {
+      this.beatListeners = this.beatListeners.filter((l) => l !== listener)
+    }
+  }
+
+  onTempoChange(listener: (bpm: number) => void): () => void {
+    this.tempoListeners.push(listener)
+    return () => {
+      this.tempoListeners = this.tempoListeners.filter((l) => l !== listener)
+    }
+  }
+
+  setConfig(config: Partial<MetronomeConfig>): void {
+    const previousBpm = this.config.bpm
+    this.config = { ...this.config, ...config }
+    this.config.bpm = clampBpm(this.config.bpm)
+    if (this.config.bpm !== previousBpm) {
+      this.notifyTempo()
+    }
+  }
+
+  start(): void {
+    if (this.isRunning) return
+
+    if (!this.clock) {
+      this.audioContext = new AudioContext()
+      this.clock = audioContextClock(this.audioContext)
+      this.sound = this.sound ?? createClickSound(this.audioContext)
+    }
+
+    this.isRunning = true
+    this.nextBeatTime = this.clock.now() + START_DELAY_SEC
+    this.nextBar = 0
+    this.nextBeat = 0
+    this.pending = []
+    this.cleanStreak = 0
+
+    this.tick()
+    this.timerId = setInterval(() => this.tick(), this.config.lookaheadMs)
+  }
+
+  stop(): void {
+    this.isRunning = false
+    this.pending = []
+    if (this.timerId !== null) {
+      clearInterval(this.timerId)
+      this.timerId = null
+    }
+  }
+
+  dispose(): void {
+    this.stop()
+    this.beatListeners = []
+    this.tempoListeners = []
+    if (this.audioContext) {
+      this.audioContext.close()
+      this.audioContext = null
+      this.clock = null
+      this.sound = null
+    }
+  }
+
+  /**
+   * Queue clicks inside the look-ahead window, then report beats whose
+   * time has arrived. Called by the timer; exposed for tests.
+   */
+  tick(): void {
+    if (!this.isRunning || !this.clock) return
+
+    const now = this.clock.now()
+
+    while (this.nextBeatTime < now + this.config.scheduleAheadSec) {
+      const event: BeatEvent = {
+        bar: this.nextBar,
+        beat: this.nextBeat,
+        time: this.nextBeatTime,
+        accent: this.config.accent && this.nextBeat === 0,
+        bpm: this.config.bpm,
+      }
+      this.sound?.click(event.time, event.accent)
+      this.pending.push(event)
+
+      this.nextBeatTime += this.beatDuration
+      this.nextBeat++
+      if (this.nextBeat >= this.config.beatsPerBar) {
+        this.nextBeat = 0
+        this.nextBar++
+      }
+    }
+
+    while (this.pending.length > 0 && this.pending[0].time <= now) {
+      const event = this.pending.shift()!
+      this.beatListeners.forEach((listener) => listener(event))
+    }
+  }
+
+  /**
+   * Convert a clock time (seconds) to Date.now() milliseconds, for comparing
+   * beats with camera timestamps
+   */
+  toWallTime(time: number, nowMs: number = Date.now()): number {
+    return this.clock ? nowMs - (this.clock.now() - time) * 1000 : nowMs
+  }
+
+  /**
+   * Report whether the bar just played was clean; drives the tempo ramp
+   */
+  recordBar(clean: boolean): void {
+    const ramp = this.config.ramp
+    if (!ramp) return
+
+    if (!clean) {
+      this.cleanStreak = 0
+      return
+    }
+
+    this.cleanStreak++
+    if (this.cleanStreak >= ramp.cleanBars) {
+      this.cleanStreak = 0
+      const bpm = Math.min(ramp.maxBpm, clampBpm(this.config.bpm + ramp.stepBpm))
+      if (bpm !== this.config.bpm) {
+        this.config.bpm = bpm
+        this.notifyTempo()
+      }
+    }
+  }
+
+  private notifyTempo(): void {
+    this.tempoListeners.forEach((listener) => listener(this.config.bpm))
+  }
+}
+
+function clampBpm(bpm: number): number {
+  return Math.max(MIN_BPM, Math.min(MAX_BPM, Math.round(bpm)))
+}
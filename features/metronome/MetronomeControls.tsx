@@ -0,0 +1,152 @@
+'use client'
+
+import { useMetronomeStore } from './MetronomeStore'
+import { MIN_BPM, MAX_BPM } from './Metronome'
+
+const TIME_SIGNATURES: Array<[number, number]> = [
+  [2, 4],
+  [3, 4],
+  [4, 4],
+  [6, 8],
+]
+
+interface MetronomeControlsProps {
+  currentBeat: number | null // 0-based beat being played, null when stopped
+  className?: string
+}
+
+export default function MetronomeControls({
+  currentBeat,
+  className = '',
+}: MetronomeControlsProps) {
+  const {
+    enabled,
+    bpm,
+    beatsPerBar,
+    beatUnit,
+    accent,
+    rampEnabled,
+    ramp,
+    setEnabled,
+    setBpm,
+    setTimeSignature,
+    setAccent,
+    setRampEnabled,
+    setRamp,
+  } = useMetronomeStore()
+
+  return (
+    <div className={`bg-black/80 text-white p-4 rounded-lg space-y-3 ${className}`}>
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-medium">Metronome</h2>
+        <button
+          onClick={() => setEnabled(!enabled)}
+          className={`px-3 py-1 text-sm rounded ${
+            enabled ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+          }`}
+        >
+          {enabled ? 'Stop' : 'Start'}
+        </button>
+      </div>
+
+      {/* Beat indicator */}
+      <div className="flex gap-2">
+        {Array.from({ length: beatsPerBar }, (_, beat) => (
+          <div
+            key={beat}
+            className={`h-3 flex-1 rounded-full ${
+              currentBeat === beat
+                ? beat === 0 && accent
+                  ? 'bg-yellow-400'
+                  : 'bg-green-400'
+                : 'bg-gray-700'
+            }`}
+          />
+        ))}
+      </div>
+
+      <label className="flex items-center justify-between text-sm gap-3">
+        <span className="text-gray-300">Tempo</span>
+        <input
+          type="range"
+          min={MIN_BPM}
+          max={MAX_BPM}
+          value={bpm}
+          onChange={(e) => setBpm(Number(e.target.value))}
+          className="flex-1"
+        />
+        <span className="w-16 text-right">{bpm} BPM</span>
+      </label>
+
+      <div className="text-sm">
+        <label className="flex flex-col">
+          <span className="mb-1 text-gray-300">Time signature</span>
+          <select
+            value={`${beatsPerBar}/${beatUnit}`}
+            onChange={(e) => {
+              const [beats, unit] = e.target.value.split('/').map(Number)
+              setTimeSignature(beats, unit)
+            }}
+            className="rounded bg-gray-800 px-2 py-1"
+          >
+            {TIME_SIGNATURES.map(([beats, unit]) => (
+              <option key={`${beats}/${unit}`} value={`${beats}/${unit}`}>
+                {beats}/{unit}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={accent} onChange={(e) => setAccent(e.target.checked)} />
+        Accent first beat
+      </label>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={rampEnabled}
+          onChange={(e) => setRampEnabled(e.target.checked)}
+        />
+        Speed up after clean bars
+      </label>
+
+      {rampEnabled && (
+        <div className="grid grid-cols-3 gap-2 text-sm">
+          <label className="flex flex-col">
+            <span className="mb-1 text-gray-300">+BPM</span>
+            <input
+              type="number"
+              min={1}
+              value={ramp.stepBpm}
+              onChange={(e) => setRamp({ stepBpm: Number(e.target.value) })}
+              className="rounded bg-gray-800 px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col">
+            <span className="mb-1 text-gray-300">Every</span>
+            <input
+              type="number"
+              min={1}
+              value={ramp.cleanBars}
+              onChange={(e) => setRamp({ cleanBars: Number(e.target.value) })}
+              className="rounded bg-gray-800 px-2 py-1"
+            />
+          </label>
+          <label className="flex flex-col">
+            <span className="mb-1 text-gray-300">Up to</span>
+            <input
+              type="number"
+              min={MIN_BPM}
+              max={MAX_BPM}
+              value={ramp.maxBpm}
+              onChange={(e) => setRamp({ maxBpm: Number(e.target.value) })}
+              className="rounded bg-gray-800 px-2 py-1"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+// Zustand store for metronome settings
+
+import { create } from 'zustand'
+import { persist, createJSONStorage } from 'zustand/middleware'
+import type { TempoRamp } from './Metronome'
+import { MIN_BPM, MAX_BPM } from './Metronome'
+
+interface MetronomeState {
+  enabled: boolean
+  bpm: number
+  beatsPerBar: number
+  beatUnit: number
+  accent: boolean
+  rampEnabled: boolean
+  ramp: TempoRamp
+  setEnabled: (enabled: boolean) => void
+  setBpm: (bpm: number) => void
+  setTimeSignature: (beatsPerBar: number, beatUnit: number) => void
+  setAccent: (accent: boolean) => void
+  setRampEnabled: (enabled: boolean) => void
+  setRamp: (ramp: Partial<TempoRamp>) => void
+}
+
+export const useMetronomeStore = create<MetronomeState>()(
+  persist(
+    (set) => ({
+      enabled: false,
+      bpm: 60,
+      beatsPerBar: 4,
+      beatUnit: 4,
+      accent: true,
+      rampEnabled: false,
+      ramp: { stepBpm: 5, cleanBars: 4, maxBpm: 160 },
+
+      setEnabled: (enabled) => set({ enabled }),
+
+      setBpm: (bpm) =>
+        set({ bpm: Math.max(MIN_BPM, Math.min(MAX_BPM, Math.round(bpm))) }),
+
+      setTimeSignature: (beatsPerBar, beatUnit) => set({ beatsPerBar, beatUnit }),
+
+      setAccent: (accent) => set({ accent }),
+
+      setRampEnabled: (rampEnabled) => set({ rampEnabled }),
+
+      setRamp: (ramp) => set((state) => ({ ramp: { ...state.ramp, ...ramp } })),
+    }),
+    {
+      name: 'metronome-storage',
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({
+        bpm: state.bpm,
+        beatsPerBar: state.beatsPerBar,
+        beatUnit: state.beatUnit,
+        accent: state.accent,
+        rampEnabled: state.rampEnabled,
+        ramp: state.ramp,
+      }),
+    }
+  )
+)
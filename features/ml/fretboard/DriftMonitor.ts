@@ -0,0 +1,336 @@
+// Detect a saved calibration going stale as the guitar or camera moves
+
+import type { CalibrationDrift, DriftState, Point2D } from '@/lib/types'
+import { invertHomography, multiplyMatrices } from '@/features/calibration/homography'
+import type { Matrix3x3 } from '@/features/calibration/homography'
+import { planeFretLines, planeStringLines, toImageLines } from './FretGeometry'
+
+export interface DriftMonitorOptions {
+  searchRadius: number // Pixels either side of an expected line searched for an edge
+  samplesPerLine: number
+  driftThreshold: number // Median error in pixels that counts as drift
+  minCoverage: number // Below this share of samples near an edge, calibration is lost
+  confirmChecks: number // Consecutive checks that must agree before the state changes
+  maxShift: number // Pixels; largest translation corrected automatically
+  maxRotation: number // Radians; largest rotation corrected automatically
+  maxFitError: number // Pixels; RMS residual a rigid correction must explain the error to
+}
+
+// Widest gap, in pixels, between the two edges of one string or fret
+const MAX_LINE_WIDTH = 4
+
+const DEFAULT_OPTIONS: DriftMonitorOptions = {
+  searchRadius: 12,
+  samplesPerLine: 12,
+  driftThreshold: 3,
+  minCoverage: 0.3,
+  confirmChecks: 3,
+  maxShift: 25,
+  maxRotation: 0.09, // About 5°
+  maxFitError: 2,
+}
+
+/**
+ * Image-space rotation about `center` followed by a shift
+ */
+export interface RigidCorrection {
+  dx: number
+  dy: number
+  angle: number // Radians
+  center: Point2D
+}
+
+export interface DriftMeasurement {
+  error: number
+  coverage: number
+  correction: RigidCorrection | null // Set when a small rigid move explains the error
+}
+
+export interface DriftMonitor {
+  options: DriftMonitorOptions
+  state: DriftState
+  pending: DriftState
+  pendingChecks: number
+}
+
+interface EdgeSample {
+  point: Point2D
+  normal: Point2D
+  offset: number // Signed distance along the normal to the nearest edge
+}
+
+/**
+ * Create a drift monitor
+ */
+export function createDriftMonitor(
+  options: Partial<DriftMonitorOptions> = {}
+): DriftMonitor {
+  return {
+    options: { ...DEFAULT_OPTIONS, ...options },
+    state: 'ok',
+    pending: 'ok',
+    pendingChecks: 0,
+  }
+}
+
+/**
+ * Compare the strings and frets a calibration expects with an edge map of
+ * the live frame (see cannyEdges). Each expected line is sampled and the
+ * nearest edge searched for across it.
+ */
+export function measureDrift(
+  edges: Uint8Array,
+  width: number,
+  height: number,
+  homography: Matrix3x3,
+  stringCount: number,
+  options: Partial<DriftMonitorOptions> = {}
+): DriftMeasurement {
+  const opts = { ...DEFAULT_OPTIONS, ...options }
+  const inverse = invertHomography(homography)
+  if (!inverse) {
+    return { error: Infinity, coverage: 0, correction: null }
+  }
+
+  const lines = toImageLines(inverse, [
+    ...planeStringLines(stringCount),
+    ...planeFretLines(),
+  ])
+
+  let total = 0
+  const samples: EdgeSample[] = []
+  for (const line of lines) {
+    const dx = line.end.x - line.start.x
+    const dy = line.end.y - line.start.y
+    const length = Math.hypot(dx, dy)
+    if (length < 1) continue
+    const normal = { x: -dy / length, y: dx / length }
+
+    for (let i = 0; i < opts.samplesPerLine; i++) {
+      const t = (i + 0.5) / opts.samplesPerLine
+      const point = { x: line.start.x + dx * t, y: line.start.y + dy * t }
+      if (point.x < 0 || point.y < 0 || point.x >= width || point.y >= height) continue
+      total++
+
+      const offset = nearestEdge(edges, width, height, point, normal, opts.searchRadius)
+      if (offset !== null) {
+        samples.push({ point, normal, offset })
+      }
+    }
+  }
+
+  if (samples.length === 0) {
+    return { error: Infinity, coverage: 0, correction: null }
+  }
+
+  const distances = samples.map((s) => Math.abs(s.offset)).sort((a, b) => a - b)
+  return {
+    error: distances[Math.floor(distances.length / 2)],
+    coverage: samples.length / total,
+    correction: fitRigidCorrection(samples, opts),
+  }
+}
+
+/**
+ * Fold one measurement into the monitor. A state only changes after
+ * `confirmChecks` checks agree, so a hand passing over the neck does not
+ * raise drift. Confirmed drift that a small rigid move explains comes back
+ * as a correction to apply, and the state stays 'ok'.
+ */
+export function updateDriftMonitor(
+  monitor: DriftMonitor,
+  measurement: DriftMeasurement
+): { drift: CalibrationDrift; correction: RigidCorrection | null } {
+  const { driftThreshold, minCoverage, confirmChecks } = monitor.options
+  const observed: DriftState =
+    measurement.coverage < minCoverage
+      ? 'lost'
+      : measurement.error > driftThreshold
+        ? 'drifting'
+        : 'ok'
+
+  if (observed === monitor.state) {
+    monitor.pendingChecks = 0
+  } else {
+    monitor.pendingChecks = observed === monitor.pending ? monitor.pendingChecks + 1 : 1
+    monitor.pending = observed
+    if (monitor.pendingChecks >= confirmChecks) {
+      monitor.state = observed
+      monitor.pendingChecks = 0
+    }
+  }
+
+  const correction =
+    monitor.state === 'drifting' && observed === 'drifting'
+      ? measurement.correction
+      : null
+  if (correction) {
+    monitor.state = 'ok'
+  }
+
+  return {
+    drift: {
+      state: monitor.state,
+      error: measurement.error,
+      coverage: measurement.coverage,
+      corrected: correction !== null,
+    },
+    correction,
+  }
+}
+
+/**
+ * Homography for the moved guitar: a point that has moved by `correction`
+ * maps to where the point before the move did
+ */
+export function applyDriftCorrection(
+  homography: Matrix3x3,
+  correction: RigidCorrection
+): Matrix3x3 {
+  const undo = invertHomography(rigidTransform(correction))
+  return undo ? multiplyMatrices(homography, undo) : homography
+}
+
+/**
+ * Matrix moving image points by a rigid correction
+ */
+export function rigidTransform(correction: RigidCorrection): Matrix3x3 {
+  const { dx, dy, angle, center } = correction
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  return [
+    [cos, -sin, center.x + dx - cos * center.x + sin * center.y],
+    [sin, cos, center.y + dy - sin * center.x - cos * center.y],
+    [0, 0, 1],
+  ]
+}
+
+/**
+ * Signed distance along the normal to the closest edge, or null if none
+ * lies within the search radius. A thin string or fret shows as a pair of
+ * edges, one either side, so a partner edge close by is averaged in.
+ */
+function nearestEdge(
+  edges: Uint8Array,
+  width: number,
+  height: number,
+  point: Point2D,
+  normal: Point2D,
+  radius: number
+): number | null {
+  const isEdge = (k: number) => {
+    const x = Math.round(point.x + normal.x * k)
+    const y = Math.round(point.y + normal.y * k)
+    return x >= 0 && y >= 0 && x < width && y < height && edges[y * width + x] > 0
+  }
+
+  let nearest: number | null = null
+  for (let k = 0; k <= radius && nearest === null; k++) {
+    if (isEdge(k)) nearest = k
+    else if (k > 0 && isEdge(-k)) nearest = -k
+  }
+  if (nearest === null) {
+    return null
+  }
+
+  for (let gap = 2; gap <= MAX_LINE_WIDTH; gap++) {
+    if (isEdge(nearest + gap)) return nearest + gap / 2
+    if (isEdge(nearest - gap)) return nearest - gap / 2
+  }
+  return nearest
+}
+
+/**
+ * Least-squares small rotation and shift moving the expected lines onto the
+ * edges. Each sample constrains the motion along its normal only, so both
+ * strings and frets are needed to pin it down. Samples that matched the
+ * wrong edge (e.g. a fret crossing a string) are dropped and the fit redone.
+ */
+function fitRigidCorrection(
+  samples: EdgeSample[],
+  opts: DriftMonitorOptions
+): RigidCorrection | null {
+  const center = {
+    x: samples.reduce((sum, s) => sum + s.point.x, 0) / samples.length,
+    y: samples.reduce((sum, s) => sum + s.point.y, 0) / samples.length,
+  }
+
+  // Displacement at p is (dx, dy) + angle * perp(p - center)
+  const rows = samples.map((s) => {
+    const rx = s.point.x - center.x
+    const ry = s.point.y - center.y
+    return [s.normal.x, s.normal.y, s.normal.x * -ry + s.normal.y * rx]
+  })
+  const residual = (solution: number[], i: number) =>
+    rows[i][0] * solution[0] +
+    rows[i][1] * solution[1] +
+    rows[i][2] * solution[2] -
+    samples[i].offset
+
+  let used = rows.map((_, i) => i)
+  let solution: number[] | null = null
+  for (let round = 0; round < 3; round++) {
+    solution = solveLeastSquares(
+      used.map((i) => rows[i]),
+      used.map((i) => samples[i].offset)
+    )
+    if (!solution) {
+      return null
+    }
+    const fit = solution
+    used = rows.map((_, i) => i).filter((i) => Math.abs(residual(fit, i)) <= opts.maxFitError)
+    if (used.length < samples.length / 2) {
+      return null
+    }
+  }
+
+  const [dx, dy, angle] = solution!
+  const rms = Math.sqrt(
+    used.reduce((sum, i) => sum + residual(solution!, i) ** 2, 0) / used.length
+  )
+
+  if (
+    Math.hypot(dx, dy) > opts.maxShift ||
+    Math.abs(angle) > opts.maxRotation ||
+    rms > opts.maxFitError
+  ) {
+    return null
+  }
+
+  return { dx, dy, angle, center }
+}
+
+function solveLeastSquares(rows: number[][], values: number[]): number[] | null {
+  const AtA = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ]
+  const Atb = [0, 0, 0]
+  rows.forEach((row, i) => {
+    for (let r = 0; r < 3; r++) {
+      Atb[r] += row[r] * values[i]
+      for (let c = 0; c < 3; c++) {
+        AtA[r][c] += row[r] * row[c]
+      }
+    }
+  })
+  return solve3x3(AtA, Atb)
+}
+
+function solve3x3(A: number[][], b: number[]): number[] | null {
+  const det = (m: number[][]) =>
+    m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+    m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+    m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0])
+
+  const d = det(A)
+  if (Math.abs(d) < 1e-9) {
+    return null
+  }
+
+  // Cramer's rule
+  return [0, 1, 2].map(
+    (col) => det(A.map((row, r) => row.map((v, c) => (c === col ? b[r] : v)))) / d
+  )
+}
@@ -0,0 +1,123 @@
+// Physical fretboard geometry and the rectified plane model
+
+import type { Line, Point2D } from '@/lib/types'
+import { projectPoints } from '@/features/calibration/homography'
+import type { Matrix3x3 } from '@/features/calibration/homography'
+
+/** Frets covered by the unit height of the rectified plane, nut at y = 0 */
+export const PLANE_FRET_SPAN = 5
+
+/** Frets past the capo (or nut) a fretting hand reaches */
+export const HAND_SPAN_FRETS = 4
+
+/** Fret tapped, after the nut, during manual calibration */
+export const REFERENCE_FRET = 3
+
+/**
+ * Distance from the nut to a fret. Each fret leaves 2^(-1/12) of the
+ * remaining string length, so spacing shrinks towards the bridge.
+ */
+export function fretDistance(fret: number, scaleLength: number = 1): number {
+  return scaleLength * (1 - Math.pow(2, -fret / 12))
+}
+
+/**
+ * Nut-to-fret distances for the nut and the first `count` frets
+ */
+export function fretPositions(scaleLength: number, count: number): number[] {
+  return Array.from({ length: count + 1 }, (_, fret) => fretDistance(fret, scaleLength))
+}
+
+/**
+ * Frets to model so that every shape played above the capo is in range.
+ * The plane is calibrated on the first PLANE_FRET_SPAN frets and extended
+ * past them through the fret spacing.
+ */
+export function modelFretCount(capo: number = 0): number {
+  return Math.max(PLANE_FRET_SPAN, capo + HAND_SPAN_FRETS)
+}
+
+/**
+ * Plane y of a fret (independent of scale length)
+ */
+export function planeFretY(fret: number): number {
+  return fretDistance(fret) / fretDistance(PLANE_FRET_SPAN)
+}
+
+/**
+ * Fractional fret at a plane y, the inverse of planeFretY. Points at or
+ * past the bridge have no fret and give Infinity.
+ */
+export function planeYToFret(y: number): number {
+  const remaining = 1 - y * fretDistance(PLANE_FRET_SPAN)
+  return remaining > 0 ? -12 * Math.log2(remaining) : Infinity
+}
+
+/**
+ * Plane x of a string (1-based, string 1 at x near 0)
+ */
+export function planeStringX(stringIdx: number, stringCount: number): number {
+  return (stringIdx - 0.5) / stringCount
+}
+
+/**
+ * Transform of the plane that renumbers frets by `shift`, e.g. when the
+ * line taken as the nut turns out to be a later fret. Geometric spacing
+ * makes this affine: fret k lands where fret k + shift was.
+ */
+export function fretShiftMatrix(shift: number): Matrix3x3 {
+  const s = Math.pow(2, -shift / 12)
+  return [
+    [1, 0, 0],
+    [0, s, (1 - s) / fretDistance(PLANE_FRET_SPAN)],
+    [0, 0, 1],
+  ]
+}
+
+/**
+ * String lines in the plane, from the nut to fret `fretCount`
+ */
+export function planeStringLines(
+  stringCount: number,
+  fretCount: number = PLANE_FRET_SPAN
+): Line[] {
+  const end = planeFretY(fretCount)
+  return Array.from({ length: stringCount }, (_, i) => {
+    const x = planeStringX(i + 1, stringCount)
+    return { start: { x, y: 0 }, end: { x, y: end } }
+  })
+}
+
+/**
+ * Fret lines in the plane, nut included
+ */
+export function planeFretLines(count: number = PLANE_FRET_SPAN): Line[] {
+  return Array.from({ length: count + 1 }, (_, fret) => {
+    const y = planeFretY(fret)
+    return { start: { x: 0, y }, end: { x: 1, y } }
+  })
+}
+
+/**
+ * Map plane lines into the image through the inverse homography
+ */
+export function toImageLines(inverse: Matrix3x3, lines: Line[]): Line[] {
+  return lines.map((line) => {
+    const [start, end] = projectPoints(inverse, [line.start, line.end])
+    return { start, end }
+  })
+}
+
+/**
+ * Plane target for the manual calibration taps: nut ends, then the ends
+ * of the reference fret
+ */
+export function manualCalibrationTargets(): Point2D[] {
+  const y = planeFretY(REFERENCE_FRET)
+  return [
+    { x: 0, y: 0 },
+    { x: 1, y: 0 },
+    { x: 0, y },
+    { x: 1, y },
+  ]
+}
@@ -0,0 +1,250 @@
+// Track the fretboard across frames between full detections
+
+import type { FretboardState, Point2D } from '@/lib/types'
+import {
+  computeHomography,
+  invertHomography,
+  projectPoints,
+} from '@/features/calibration/homography'
+import type { Matrix3x3 } from '@/features/calibration/homography'
+import {
+  PLANE_FRET_SPAN,
+  planeFretLines,
+  planeFretY,
+  planeStringLines,
+  toImageLines,
+} from './FretGeometry'
+
+export interface FretboardTrackerOptions {
+  alpha: number // Weight of a new detection's corner positions, 0-1
+  beta: number // Weight of a new detection's corner velocities, 0-1
+  redetectInterval: number // Frames between detections while tracking well
+  minConfidence: number // Below this, detect on every frame
+  decay: number // Confidence kept per frame without a detection
+  damping: number // Velocity kept per frame without a detection
+  maxJump: number // Pixels; a detection further off than this restarts tracking
+}
+
+const DEFAULT_OPTIONS: FretboardTrackerOptions = {
+  alpha: 0.5,
+  beta: 0.1,
+  redetectInterval: 10,
+  minConfidence: 0.6,
+  decay: 0.99,
+  damping: 0.8,
+  maxJump: 40,
+}
+
+// The tracked quantity: image positions of the plane's unit square (nut to
+// the last plane fret, across all strings)
+const PLANE_CORNERS: Point2D[] = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 1, y: 1 },
+]
+
+export interface FretboardTracker {
+  options: FretboardTrackerOptions
+  corners: Point2D[] | null // Smoothed image corners, null = not tracking
+  velocity: Point2D[] // Pixels per ms, per corner
+  confidence: number
+  framesSinceDetection: number
+  lastTs: number
+}
+
+/**
+ * Create a fretboard tracker
+ */
+export function createFretboardTracker(
+  options: Partial<FretboardTrackerOptions> = {}
+): FretboardTracker {
+  return {
+    options: { ...DEFAULT_OPTIONS, ...options },
+    corners: null,
+    velocity: PLANE_CORNERS.map(() => ({ x: 0, y: 0 })),
+    confidence: 0,
+    framesSinceDetection: 0,
+    lastTs: 0,
+  }
+}
+
+/**
+ * Whether this frame should run full fretboard detection
+ */
+export function needsFretboardDetection(tracker: FretboardTracker): boolean {
+  return (
+    !tracker.corners ||
+    tracker.confidence < tracker.options.minConfidence ||
+    tracker.framesSinceDetection >= tracker.options.redetectInterval
+  )
+}
+
+/**
+ * Advance the tracker one frame. `detection` is this frame's full detection,
+ * or null when none was run; the corners are predicted forward either way
+ * and blended with the detection by an alpha-beta filter. A `fallback`
+ * (e.g. a saved calibration) seeds the track and takes over whenever
+ * tracking confidence drops below minConfidence. The returned lines run to
+ * fret `fretCount`, past the tracked plane when a capo moves play up.
+ */
+export function updateFretboardTracker(
+  tracker: FretboardTracker,
+  detection: FretboardState | null,
+  timestamp: number,
+  stringCount: number,
+  fallback: FretboardState | null = null,
+  fretCount: number = PLANE_FRET_SPAN
+): FretboardState {
+  const { alpha, beta, decay, damping, maxJump } = tracker.options
+  const dt = tracker.lastTs > 0 ? Math.max(0, timestamp - tracker.lastTs) : 0
+  tracker.lastTs = timestamp
+
+  if (detection) {
+    tracker.framesSinceDetection = 0
+  } else {
+    tracker.framesSinceDetection++
+  }
+
+  // A weak detection only counts if it beats what is being tracked
+  const usable =
+    detection &&
+    (!tracker.corners ||
+      detection.confidence >= tracker.options.minConfidence ||
+      detection.confidence >= tracker.confidence)
+  const measured = usable ? detectedCorners(detection) : null
+
+  if (tracker.corners) {
+    // Predict
+    const predicted = tracker.corners.map((c, i) => ({
+      x: c.x + tracker.velocity[i].x * dt,
+      y: c.y + tracker.velocity[i].y * dt,
+    }))
+
+    const jump = measured
+      ? Math.max(
+          ...measured.map((m, i) => Math.hypot(m.x - predicted[i].x, m.y - predicted[i].y))
+        )
+      : 0
+
+    if (measured && detection && jump <= maxJump) {
+      // Correct
+      tracker.corners = predicted.map((p, i) => {
+        const rx = measured[i].x - p.x
+        const ry = measured[i].y - p.y
+        if (dt > 0) {
+          tracker.velocity[i] = {
+            x: tracker.velocity[i].x + (beta * rx) / dt,
+            y: tracker.velocity[i].y + (beta * ry) / dt,
+          }
+        }
+        return { x: p.x + alpha * rx, y: p.y + alpha * ry }
+      })
+      tracker.confidence = detection.confidence
+    } else if (measured && detection) {
+      // The guitar moved too far to be the same track: start over from the
+      // detection
+      resetTo(tracker, measured, detection.confidence)
+    } else {
+      tracker.corners = predicted
+      tracker.velocity = tracker.velocity.map((v) => ({
+        x: v.x * damping,
+        y: v.y * damping,
+      }))
+      tracker.confidence *= decay
+    }
+  } else if (measured && detection) {
+    resetTo(tracker, measured, detection.confidence)
+  }
+
+  if (
+    fallback &&
+    (!tracker.corners || tracker.confidence < tracker.options.minConfidence)
+  ) {
+    const corners = detectedCorners(fallback)
+    if (corners) {
+      resetTo(tracker, corners, fallback.confidence)
+    }
+  }
+
+  if (!tracker.corners) {
+    return {
+      homography: null,
+      strings: [],
+      frets: [],
+      confidence: detection?.confidence ?? 0,
+    }
+  }
+
+  return fretboardFromCorners(
+    tracker.corners,
+    tracker.confidence,
+    stringCount,
+    fretCount
+  )
+}
+
+/**
+ * Stop tracking, e.g. when the camera changes
+ */
+export function resetFretboardTracker(tracker: FretboardTracker): void {
+  tracker.corners = null
+  tracker.velocity = PLANE_CORNERS.map(() => ({ x: 0, y: 0 }))
+  tracker.confidence = 0
+  tracker.framesSinceDetection = 0
+  tracker.lastTs = 0
+}
+
+function resetTo(tracker: FretboardTracker, corners: Point2D[], confidence: number) {
+  tracker.corners = corners
+  tracker.velocity = PLANE_CORNERS.map(() => ({ x: 0, y: 0 }))
+  tracker.confidence = confidence
+}
+
+/**
+ * Image corners of a detection's plane, or null if it found no fretboard
+ */
+function detectedCorners(detection: FretboardState): Point2D[] | null {
+  if (!detection.homography) {
+    return null
+  }
+  const inverse = invertHomography(detection.homography as Matrix3x3)
+  return inverse ? projectPoints(inverse, PLANE_CORNERS) : null
+}
+
+function fretboardFromCorners(
+  corners: Point2D[],
+  confidence: number,
+  stringCount: number,
+  fretCount: number
+): FretboardState {
+  const homography = computeHomography(corners, PLANE_CORNERS)
+  const inverse = homography ? invertHomography(homography) : null
+  if (!homography || !inverse) {
+    return { homography: null, strings: [], frets: [], confidence: 0 }
+  }
+
+  // The region the hand plays in reaches the last modelled fret
+  const end = planeFretY(fretCount)
+  const extent = projectPoints(inverse, [
+    { x: 0, y: 0 },
+    { x: 1, y: 0 },
+    { x: 0, y: end },
+    { x: 1, y: end },
+  ])
+  const xs = extent.map((c) => c.x)
+  const ys = extent.map((c) => c.y)
+
+  return {
+    homography,
+    strings: toImageLines(inverse, planeStringLines(stringCount, fretCount)),
+    frets: toImageLines(inverse, planeFretLines(fretCount)),
+    confidence,
+    roi: {
+      x: Math.min(...xs),
+      y: Math.min(...ys),
+      width: Math.max(...xs) - Math.min(...xs),
+      height: Math.max(...ys) - Math.min(...ys),
+    },
+  }
+}
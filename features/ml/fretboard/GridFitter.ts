@@ -0,0 +1,419 @@
+// RANSAC fit of the fretboard grid model to detected string and fret lines
+
+import type { Line, Point2D } from '@/lib/types'
+import {
+  fitHomography,
+  multiplyMatrices,
+  multiplyMatrixPoint,
+} from '@/features/calibration/homography'
+import type { Matrix3x3 } from '@/features/calibration/homography'
+import { fretShiftMatrix, planeFretY, planeYToFret } from './FretGeometry'
+
+export interface GridFitOptions {
+  stringCount?: number
+  maxFret?: number // Highest fret expected in view
+  iterations?: number
+  tolerance?: number // Inlier distance, in string or fret spacings
+  mergeDistance?: number // Pixels; closer parallel lines are one line
+  seed?: number
+}
+
+export interface GridFitResult {
+  homography: Matrix3x3 // Image -> plane
+  inliers: number
+  inlierRatio: number // Inlier intersections / all intersections
+  stringIndices: number[] // Model string (0-based) per string line, -1 = outlier
+  fretIndices: number[] // Model fret per fret line, -1 = outlier
+  stringLines: Line[] // Detected string lines, sorted and merged
+  fretLines: Line[] // Detected fret lines, sorted and merged
+}
+
+interface Intersection {
+  point: Point2D
+  stringLine: number
+  fretLine: number
+}
+
+interface Score {
+  inliers: number
+  stringShift: number
+  fretShift: number
+}
+
+const DEFAULT_OPTIONS = {
+  stringCount: 6,
+  maxFret: 12,
+  iterations: 200,
+  tolerance: 0.2,
+  mergeDistance: 4,
+  seed: 1,
+}
+
+/**
+ * Fit a homography from the image to the fretboard plane, where string i
+ * (0-based) lies at x = (i + 0.5) / stringCount and frets follow physical
+ * spacing (see FretGeometry). Hypotheses come from four string/fret
+ * intersections; the one agreeing with the most intersections wins and is
+ * refitted on its inliers. The first detected fret line is taken as the nut,
+ * since geometric spacing alone cannot tell which fret a line is.
+ */
+export function fitFretboardGrid(
+  stringLines: Line[],
+  fretLines: Line[],
+  options: GridFitOptions = {}
+): GridFitResult | null {
+  const opts = { ...DEFAULT_OPTIONS, ...options }
+  if (stringLines.length < 2 || fretLines.length < 2) {
+    return null
+  }
+
+  // Strings run down the image; order them left to right and frets top to
+  // bottom so line order matches model order
+  const direction = meanDirection(stringLines)
+  const across = (p: Point2D) => p.x * direction.y - p.y * direction.x
+  const along = (p: Point2D) => p.x * direction.x + p.y * direction.y
+  const strings = mergeLines(stringLines, across, opts.mergeDistance)
+  const frets = mergeLines(fretLines, along, opts.mergeDistance)
+  if (strings.length < 2 || frets.length < 2) {
+    return null
+  }
+
+  const intersections: Intersection[] = []
+  strings.forEach((s, si) => {
+    frets.forEach((f, fi) => {
+      const point = intersectLines(s, f)
+      if (point) {
+        intersections.push({ point, stringLine: si, fretLine: fi })
+      }
+    })
+  })
+  if (intersections.length < 4) {
+    return null
+  }
+
+  const at = (si: number, fi: number) =>
+    intersections.find((i) => i.stringLine === si && i.fretLine === fi)?.point
+
+  const random = seededRandom(opts.seed)
+  const pick = (n: number) => Math.floor(random() * n)
+
+  let best: { homography: Matrix3x3; score: Score } | null = null
+  for (let iter = 0; iter < opts.iterations; iter++) {
+    const [s1, s2] = pickPair(strings.length, pick)
+    const [f1, f2] = pickPair(frets.length, pick)
+    const corners = [at(s1, f1), at(s2, f1), at(s1, f2), at(s2, f2)]
+    if (corners.some((c) => !c)) continue
+
+    // Adjacent lines are usually adjacent in the model, but allow one
+    // missed line between the pair
+    const stringGap = s2 - s1 + (random() < 0.25 ? 1 : 0)
+    const fretGap = f2 - f1 + (random() < 0.25 ? 1 : 0)
+    if (stringGap >= opts.stringCount || fretGap > opts.maxFret) continue
+
+    const model = [
+      modelPoint(0, 0, opts),
+      modelPoint(stringGap, 0, opts),
+      modelPoint(0, fretGap, opts),
+      modelPoint(stringGap, fretGap, opts),
+    ]
+    const homography = fitHomography(corners as Point2D[], model)
+    if (!homography) continue
+
+    const score = scoreHypothesis(homography, intersections, opts)
+    if (!best || score.inliers > best.score.inliers) {
+      best = { homography: shiftModel(homography, score, opts), score }
+    }
+  }
+
+  if (!best) {
+    return null
+  }
+
+  // Refit on every inlier, keeping the refit only if it agrees as well
+  const refit = refitInliers(best.homography, intersections, opts)
+  if (refit) {
+    const score = scoreHypothesis(refit, intersections, opts)
+    if (score.inliers >= best.score.inliers) {
+      best = { homography: shiftModel(refit, score, opts), score }
+    }
+  }
+
+  const indices = assignLineIndices(
+    best.homography,
+    intersections,
+    strings.length,
+    frets.length,
+    opts
+  )
+
+  return {
+    homography: best.homography,
+    inliers: best.score.inliers,
+    inlierRatio: best.score.inliers / intersections.length,
+    stringIndices: indices.strings,
+    fretIndices: indices.frets,
+    stringLines: strings,
+    fretLines: frets,
+  }
+}
+
+/**
+ * Plane position of a model string/fret crossing
+ */
+function modelPoint(
+  stringIdx: number,
+  fret: number,
+  opts: typeof DEFAULT_OPTIONS
+): Point2D {
+  return { x: (stringIdx + 0.5) / opts.stringCount, y: planeFretY(fret) }
+}
+
+/**
+ * Fractional model string and fret of a plane point
+ */
+function modelCoordinates(point: Point2D, opts: typeof DEFAULT_OPTIONS) {
+  return {
+    string: point.x * opts.stringCount - 0.5,
+    fret: planeYToFret(point.y),
+  }
+}
+
+/**
+ * Count intersections landing on a model crossing, choosing the string
+ * offset that keeps most of them on the instrument and putting the first
+ * fret line at the nut
+ */
+function scoreHypothesis(
+  homography: Matrix3x3,
+  intersections: Intersection[],
+  opts: typeof DEFAULT_OPTIONS
+): Score {
+  const nodes: Array<{ string: number; fret: number }> = []
+  for (const { point } of intersections) {
+    const coords = modelCoordinates(multiplyMatrixPoint(homography, point), opts)
+    const string = Math.round(coords.string)
+    const fret = Math.round(coords.fret)
+    if (
+      Math.abs(coords.string - string) < opts.tolerance &&
+      Math.abs(coords.fret - fret) < opts.tolerance
+    ) {
+      nodes.push({ string, fret })
+    }
+  }
+  if (nodes.length === 0) {
+    return { inliers: 0, stringShift: 0, fretShift: 0 }
+  }
+
+  const fretShift = -Math.min(...nodes.map((n) => n.fret))
+  const lowest = Math.min(...nodes.map((n) => n.string))
+  const highest = Math.max(...nodes.map((n) => n.string))
+
+  let bestShift = -lowest
+  let bestCount = -1
+  for (let shift = -highest; shift <= opts.stringCount - 1 - lowest; shift++) {
+    const count = nodes.filter(
+      (n) =>
+        n.string + shift >= 0 &&
+        n.string + shift < opts.stringCount &&
+        n.fret + fretShift <= opts.maxFret
+    ).length
+    if (count > bestCount) {
+      bestCount = count
+      bestShift = shift
+    }
+  }
+
+  return { inliers: bestCount, stringShift: bestShift, fretShift }
+}
+
+/**
+ * Move the plane so the chosen string and fret offsets become model indices
+ */
+function shiftModel(
+  homography: Matrix3x3,
+  score: Score,
+  opts: typeof DEFAULT_OPTIONS
+): Matrix3x3 {
+  const translation: Matrix3x3 = [
+    [1, 0, score.stringShift / opts.stringCount],
+    [0, 1, 0],
+    [0, 0, 1],
+  ]
+  return multiplyMatrices(
+    multiplyMatrices(translation, fretShiftMatrix(score.fretShift)),
+    homography
+  )
+}
+
+function refitInliers(
+  homography: Matrix3x3,
+  intersections: Intersection[],
+  opts: typeof DEFAULT_OPTIONS
+): Matrix3x3 | null {
+  const src: Point2D[] = []
+  const dst: Point2D[] = []
+  for (const { point } of intersections) {
+    const node = nearestNode(homography, point, opts)
+    if (node) {
+      src.push(point)
+      dst.push(modelPoint(node.string, node.fret, opts))
+    }
+  }
+  return fitHomography(src, dst)
+}
+
+/**
+ * Model crossing an intersection lands on, or null for an outlier
+ */
+function nearestNode(
+  homography: Matrix3x3,
+  point: Point2D,
+  opts: typeof DEFAULT_OPTIONS
+): { string: number; fret: number } | null {
+  const coords = modelCoordinates(multiplyMatrixPoint(homography, point), opts)
+  const string = Math.round(coords.string)
+  const fret = Math.round(coords.fret)
+  if (
+    Math.abs(coords.string - string) >= opts.tolerance ||
+    Math.abs(coords.fret - fret) >= opts.tolerance ||
+    string < 0 ||
+    string >= opts.stringCount ||
+    fret < 0 ||
+    fret > opts.maxFret
+  ) {
+    return null
+  }
+  return { string, fret }
+}
+
+/**
+ * Model index of each detected line, by majority over its inlier crossings
+ */
+function assignLineIndices(
+  homography: Matrix3x3,
+  intersections: Intersection[],
+  stringLineCount: number,
+  fretLineCount: number,
+  opts: typeof DEFAULT_OPTIONS
+): { strings: number[]; frets: number[] } {
+  const stringVotes = Array.from({ length: stringLineCount }, () => new Map<number, number>())
+  const fretVotes = Array.from({ length: fretLineCount }, () => new Map<number, number>())
+
+  for (const { point, stringLine, fretLine } of intersections) {
+    const node = nearestNode(homography, point, opts)
+    if (!node) continue
+    const sv = stringVotes[stringLine]
+    const fv = fretVotes[fretLine]
+    sv.set(node.string, (sv.get(node.string) ?? 0) + 1)
+    fv.set(node.fret, (fv.get(node.fret) ?? 0) + 1)
+  }
+
+  const majority = (votes: Map<number, number>) => {
+    let index = -1
+    let count = 0
+    votes.forEach((n, i) => {
+      if (n > count) {
+        count = n
+        index = i
+      }
+    })
+    return index
+  }
+
+  return { strings: stringVotes.map(majority), frets: fretVotes.map(majority) }
+}
+
+/**
+ * Average direction of a line family, pointing down the image
+ */
+function meanDirection(lines: Line[]): Point2D {
+  // Doubled angles so opposite segment directions reinforce each other
+  let sx = 0
+  let sy = 0
+  for (const line of lines) {
+    const dx = line.end.x - line.start.x
+    const dy = line.end.y - line.start.y
+    const length = Math.sqrt(dx * dx + dy * dy)
+    const angle = Math.atan2(dy, dx)
+    sx += Math.cos(2 * angle) * length
+    sy += Math.sin(2 * angle) * length
+  }
+
+  const angle = Math.atan2(sy, sx) / 2
+  const direction = { x: Math.cos(angle), y: Math.sin(angle) }
+  return direction.y < 0 ? { x: -direction.x, y: -direction.y } : direction
+}
+
+/**
+ * Sort lines by a position key and merge segments of the same line
+ */
+function mergeLines(
+  lines: Line[],
+  key: (p: Point2D) => number,
+  mergeDistance: number
+): Line[] {
+  const keyed = lines
+    .map((line) => ({
+      line,
+      key: key({
+        x: (line.start.x + line.end.x) / 2,
+        y: (line.start.y + line.end.y) / 2,
+      }),
+      length: Math.hypot(line.end.x - line.start.x, line.end.y - line.start.y),
+    }))
+    .sort((a, b) => a.key - b.key)
+
+  const merged: typeof keyed = []
+  for (const entry of keyed) {
+    const last = merged[merged.length - 1]
+    if (last && entry.key - last.key < mergeDistance) {
+      // Keep the longest segment as the line's representative
+      if (entry.length > last.length) {
+        merged[merged.length - 1] = entry
+      }
+    } else {
+      merged.push(entry)
+    }
+  }
+
+  return merged.map((entry) => entry.line)
+}
+
+/**
+ * Intersection of the infinite lines through two segments
+ */
+function intersectLines(a: Line, b: Line): Point2D | null {
+  const d1x = a.end.x - a.start.x
+  const d1y = a.end.y - a.start.y
+  const d2x = b.end.x - b.start.x
+  const d2y = b.end.y - b.start.y
+
+  const denom = d1x * d2y - d1y * d2x
+  if (Math.abs(denom) < 1e-9) {
+    return null
+  }
+
+  const t = ((b.start.x - a.start.x) * d2y - (b.start.y - a.start.y) * d2x) / denom
+  return { x: a.start.x + t * d1x, y: a.start.y + t * d1y }
+}
+
+function pickPair(n: number, pick: (n: number) => number): [number, number] {
+  const a = pick(n)
+  let b = pick(n - 1)
+  if (b >= a) b++
+  return a < b ? [a, b] : [b, a]
+}
+
+/**
+ * Small deterministic PRNG so fits are repeatable frame to frame
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
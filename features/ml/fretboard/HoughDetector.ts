@@ -1,16 +1,37 @@
-// Hough line transform for fretboard detection
+// Line detection for the fretboard: Canny edges and a rho/theta Hough transform
 
 import type { Point2D, Line } from '@/lib/types'
 
 export interface LineDetectionResult {
   lines: Line[]
-  dominantAngle: number
+  dominantAngle: number // Radians in [-π/2, π/2), direction of the most common lines
   confidence: number
 }
 
+export interface CannyOptions {
+  lowThreshold?: number // Gradient magnitude that may continue an edge
+  highThreshold?: number // Gradient magnitude that starts an edge
+}
+
+export interface HoughOptions {
+  thetaSteps?: number // Angle resolution over 180°
+  minVotes?: number // Edge pixels a line needs
+  maxLines?: number
+  suppressRho?: number // Non-max suppression window, pixels
+  suppressTheta?: number // Non-max suppression window, theta steps
+}
+
+export interface HoughLine {
+  rho: number // Distance from the origin, pixels
+  theta: number // Angle of the line's normal, radians in [0, π)
+  votes: number
+}
+
+// Lines within this angle of a family's direction belong to it
+const FAMILY_TOLERANCE = (15 * Math.PI) / 180
+
 /**
- * Detect lines using Hough transform (simplified for MVP)
- * In production, use OpenCV.js or similar library
+ * Detect straight line segments at any angle
  */
 export function detectLines(
   imageData: ImageData | null,
@@ -25,29 +46,20 @@ export function detectLines(
     }
   }
 
-  const { width, height, data } = imageData
-  const lines: Line[] = []
-
-  // Simplified edge detection (Canny-like)
-  const edges = detectEdges(imageData)
+  const { width, height } = imageData
+  const edges = cannyEdges(imageData)
+  const peaks = houghLines(edges, width, height, { minVotes: minLineLength })
 
-  // Simplified Hough transform
-  // For MVP, we'll use a basic approach
-  // In production, use a proper Hough line transform
-
-  // Detect horizontal lines (frets)
-  const horizontalLines = detectHorizontalLines(edges, width, height)
-  lines.push(...horizontalLines)
-
-  // Detect vertical lines (strings)
-  const verticalLines = detectVerticalLines(edges, width, height)
-  lines.push(...verticalLines)
+  const lines: Line[] = []
+  for (const peak of peaks) {
+    lines.push(...extractSegments(edges, width, height, peak, minLineLength, maxLineGap))
+  }
 
   // Estimate dominant angle (neck axis)
   const dominantAngle = estimateDominantAngle(lines)
 
   // Calculate confidence based on line count and regularity
-  const confidence = calculateConfidence(lines, width, height)
+  const confidence = calculateConfidence(lines, dominantAngle)
 
   return {
     lines,
@@ -57,237 +69,387 @@ export function detectLines(
 }
 
 /**
- * Simple edge detection (Sobel-like)
+ * Canny edge detection: Gaussian blur, Sobel gradients, non-maximum
+ * suppression and hysteresis. Returns 255 for edge pixels, 0 elsewhere.
  */
-function detectEdges(imageData: ImageData): Uint8Array {
-  const { width, height, data } = imageData
-  const edges = new Uint8Array(width * height)
+export function cannyEdges(imageData: ImageData, options: CannyOptions = {}): Uint8Array {
+  const lowThreshold = options.lowThreshold ?? 30
+  const highThreshold = options.highThreshold ?? 80
+  const { width, height } = imageData
 
-  // Convert to grayscale and apply Sobel operator
+  const gray = gaussianBlur(toGrayscale(imageData), width, height)
+
+  // Sobel gradients
+  const magnitude = new Float32Array(width * height)
+  const direction = new Uint8Array(width * height) // 0 = horizontal gradient, 1 = 45°, 2 = vertical, 3 = 135°
   for (let y = 1; y < height - 1; y++) {
     for (let x = 1; x < width - 1; x++) {
       const idx = y * width + x
-      const r = data[idx * 4]
-      const g = data[idx * 4 + 1]
-      const b = data[idx * 4 + 2]
-      const gray = (r + g + b) / 3
-
-      // Sobel X
-      const gx =
-        -1 * getGray(data, x - 1, y - 1, width) +
-        1 * getGray(data, x + 1, y - 1, width) +
-        -2 * getGray(data, x - 1, y, width) +
-        2 * getGray(data, x + 1, y, width) +
-        -1 * getGray(data, x - 1, y + 1, width) +
-        1 * getGray(data, x + 1, y + 1, width)
-
-      // Sobel Y
-      const gy =
-        -1 * getGray(data, x - 1, y - 1, width) +
-        -2 * getGray(data, x, y - 1, width) +
-        -1 * getGray(data, x + 1, y - 1, width) +
-        1 * getGray(data, x - 1, y + 1, width) +
-        2 * getGray(data, x, y + 1, width) +
-        1 * getGray(data, x + 1, y + 1, width)
-
-      const magnitude = Math.sqrt(gx * gx + gy * gy)
-      edges[idx] = magnitude > 50 ? 255 : 0 // Threshold
+      const tl = gray[idx - width - 1]
+      const tc = gray[idx - width]
+      const tr = gray[idx - width + 1]
+      const ml = gray[idx - 1]
+      const mr = gray[idx + 1]
+      const bl = gray[idx + width - 1]
+      const bc = gray[idx + width]
+      const br = gray[idx + width + 1]
+
+      const gx = -tl + tr - 2 * ml + 2 * mr - bl + br
+      const gy = -tl - 2 * tc - tr + bl + 2 * bc + br
+      magnitude[idx] = Math.sqrt(gx * gx + gy * gy)
+
+      // Quantise the gradient direction into four neighbour pairs
+      let angle = (Math.atan2(gy, gx) * 180) / Math.PI
+      if (angle < 0) angle += 180
+      direction[idx] = angle < 22.5 || angle >= 157.5 ? 0 : angle < 67.5 ? 1 : angle < 112.5 ? 2 : 3
     }
   }
 
-  return edges
-}
+  // Non-maximum suppression: keep pixels that peak across the edge
+  const offsets = [1, width + 1, width, width - 1]
+  const thin = new Float32Array(width * height)
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const idx = y * width + x
+      const m = magnitude[idx]
+      if (m < lowThreshold) continue
 
-function getGray(
-  data: Uint8ClampedArray,
-  x: number,
-  y: number,
-  width: number
-): number {
-  const idx = y * width + x
-  if (idx * 4 + 2 >= data.length || idx < 0) {
-    return 0
+      const offset = offsets[direction[idx]]
+      // Strict on one side, so a two-pixel plateau keeps a single pixel
+      if (m > magnitude[idx - offset] && m >= magnitude[idx + offset]) {
+        thin[idx] = m
+      }
+    }
   }
-  const r = data[idx * 4] ?? 0
-  const g = data[idx * 4 + 1] ?? 0
-  const b = data[idx * 4 + 2] ?? 0
-  return (r + g + b) / 3
+
+  // Hysteresis: grow strong edges through connected weak ones
+  const edges = new Uint8Array(width * height)
+  const stack: number[] = []
+  for (let idx = 0; idx < thin.length; idx++) {
+    if (thin[idx] >= highThreshold && edges[idx] === 0) {
+      edges[idx] = 255
+      stack.push(idx)
+      while (stack.length > 0) {
+        const current = stack.pop()!
+        const cx = current % width
+        const cy = (current - cx) / width
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = cx + dx
+            const ny = cy + dy
+            if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue
+            const neighbour = ny * width + nx
+            if (edges[neighbour] === 0 && thin[neighbour] >= lowThreshold) {
+              edges[neighbour] = 255
+              stack.push(neighbour)
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return edges
 }
 
 /**
- * Detect horizontal lines (frets)
+ * Accumulator-based Hough transform over an edge map. Returns the strongest
+ * lines after non-maximum suppression in (rho, theta) space.
  */
-function detectHorizontalLines(
+export function houghLines(
   edges: Uint8Array,
   width: number,
-  height: number
-): Line[] {
-  const lines: Line[] = []
-  const threshold = width * 0.3 // Minimum line length
+  height: number,
+  options: HoughOptions = {}
+): HoughLine[] {
+  const thetaSteps = options.thetaSteps ?? 180
+  const minVotes = options.minVotes ?? 30
+  const maxLines = options.maxLines ?? 40
+  const suppressRho = options.suppressRho ?? 6
+  const suppressTheta = options.suppressTheta ?? 3
+
+  const maxRho = Math.ceil(Math.hypot(width, height))
+  const rhoCount = 2 * maxRho + 1
+  const cos = new Float32Array(thetaSteps)
+  const sin = new Float32Array(thetaSteps)
+  for (let t = 0; t < thetaSteps; t++) {
+    const theta = (t * Math.PI) / thetaSteps
+    cos[t] = Math.cos(theta)
+    sin[t] = Math.sin(theta)
+  }
 
+  const accumulator = new Int32Array(thetaSteps * rhoCount)
   for (let y = 0; y < height; y++) {
-    let lineStart = -1
-    let lineLength = 0
-
     for (let x = 0; x < width; x++) {
-      const idx = y * width + x
-      if (edges[idx] > 128) {
-        if (lineStart === -1) {
-          lineStart = x
+      if (edges[y * width + x] === 0) continue
+      for (let t = 0; t < thetaSteps; t++) {
+        const rho = Math.round(x * cos[t] + y * sin[t])
+        accumulator[t * rhoCount + rho + maxRho]++
+      }
+    }
+  }
+
+  // Local maxima above the vote threshold. Theta wraps at 180°, where
+  // the same line reappears with rho negated.
+  const peaks: HoughLine[] = []
+  for (let t = 0; t < thetaSteps; t++) {
+    for (let r = 0; r < rhoCount; r++) {
+      const votes = accumulator[t * rhoCount + r]
+      if (votes < minVotes) continue
+
+      let isPeak = true
+      for (let dt = -suppressTheta; dt <= suppressTheta && isPeak; dt++) {
+        let nt = t + dt
+        let nr = r
+        if (nt < 0 || nt >= thetaSteps) {
+          nt = (nt + thetaSteps) % thetaSteps
+          nr = rhoCount - 1 - r
         }
-        lineLength++
-      } else {
-        if (lineLength > threshold) {
-          lines.push({
-            start: { x: lineStart, y },
-            end: { x: lineStart + lineLength, y },
-          })
+        for (let dr = -suppressRho; dr <= suppressRho; dr++) {
+          const rr = nr + dr
+          if ((dt === 0 && dr === 0) || rr < 0 || rr >= rhoCount) continue
+          const other = accumulator[nt * rhoCount + rr]
+          // Ties go to the first cell in scan order
+          if (other > votes || (other === votes && (dt < 0 || (dt === 0 && dr < 0)))) {
+            isPeak = false
+            break
+          }
         }
-        lineStart = -1
-        lineLength = 0
       }
-    }
 
-    if (lineLength > threshold) {
-      lines.push({
-        start: { x: lineStart, y },
-        end: { x: lineStart + lineLength, y },
-      })
+      if (isPeak) {
+        peaks.push({ rho: r - maxRho, theta: (t * Math.PI) / thetaSteps, votes })
+      }
     }
   }
 
-  return lines
+  return peaks.sort((a, b) => b.votes - a.votes).slice(0, maxLines)
+}
+
+/**
+ * Direction of a line segment, radians in [-π/2, π/2)
+ */
+export function lineAngle(line: Line): number {
+  return normalizeAngle(Math.atan2(line.end.y - line.start.y, line.end.x - line.start.x))
 }
 
 /**
- * Detect vertical lines (strings)
+ * Split lines into those running along an angle and those crossing it
  */
-function detectVerticalLines(
+export function splitLineFamilies(
+  lines: Line[],
+  angle: number,
+  tolerance: number = FAMILY_TOLERANCE
+): { along: Line[]; across: Line[] } {
+  const along: Line[] = []
+  const across: Line[] = []
+  for (const line of lines) {
+    const diff = Math.abs(normalizeAngle(lineAngle(line) - angle))
+    if (diff <= tolerance) {
+      along.push(line)
+    } else if (Math.abs(diff - Math.PI / 2) <= tolerance) {
+      across.push(line)
+    }
+  }
+  return { along, across }
+}
+
+/**
+ * Walk along a Hough line and return the runs of edge pixels on it,
+ * bridging gaps up to maxLineGap
+ */
+function extractSegments(
   edges: Uint8Array,
   width: number,
-  height: number
+  height: number,
+  peak: HoughLine,
+  minLineLength: number,
+  maxLineGap: number
 ): Line[] {
-  const lines: Line[] = []
-  const threshold = height * 0.3 // Minimum line length
+  const normal = { x: Math.cos(peak.theta), y: Math.sin(peak.theta) }
+  const along = { x: -normal.y, y: normal.x }
+  const origin = { x: peak.rho * normal.x, y: peak.rho * normal.y }
+  const reach = Math.hypot(width, height)
+
+  const isEdge = (p: Point2D) => {
+    // Accept a pixel either side of the ideal line, for rounding
+    for (const d of [0, -1, 1]) {
+      const x = Math.round(p.x + normal.x * d)
+      const y = Math.round(p.y + normal.y * d)
+      if (x >= 0 && y >= 0 && x < width && y < height && edges[y * width + x] !== 0) {
+        return true
+      }
+    }
+    return false
+  }
+
+  const segments: Line[] = []
+  let start: Point2D | null = null
+  let last: Point2D | null = null
+  let gap = 0
+  const finish = () => {
+    if (start && last && Math.hypot(last.x - start.x, last.y - start.y) >= minLineLength) {
+      segments.push({ start, end: last })
+    }
+    start = null
+    last = null
+    gap = 0
+  }
 
-  for (let x = 0; x < width; x++) {
-    let lineStart = -1
-    let lineLength = 0
+  for (let t = -reach; t <= reach; t++) {
+    const p = { x: origin.x + along.x * t, y: origin.y + along.y * t }
+    if (p.x < -1 || p.y < -1 || p.x > width || p.y > height) {
+      if (start) finish()
+      continue
+    }
 
-    for (let y = 0; y < height; y++) {
-      const idx = y * width + x
-      if (edges[idx] > 128) {
-        if (lineStart === -1) {
-          lineStart = y
-        }
-        lineLength++
-      } else {
-        if (lineLength > threshold) {
-          lines.push({
-            start: { x, y: lineStart },
-            end: { x, y: lineStart + lineLength },
-          })
-        }
-        lineStart = -1
-        lineLength = 0
-      }
+    if (isEdge(p)) {
+      if (!start) start = p
+      last = p
+      gap = 0
+    } else if (start && ++gap > maxLineGap) {
+      finish()
     }
+  }
+  finish()
+
+  return segments
+}
+
+function toGrayscale(imageData: ImageData): Float32Array {
+  const { width, height, data } = imageData
+  const gray = new Float32Array(width * height)
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] + data[i * 4 + 1] + data[i * 4 + 2]) / 3
+  }
+  return gray
+}
+
+/**
+ * 5×5 Gaussian blur (σ ≈ 1), as two separable passes with clamped borders
+ */
+function gaussianBlur(input: Float32Array, width: number, height: number): Float32Array {
+  const kernel = [1, 4, 6, 4, 1]
+  const horizontal = new Float32Array(input.length)
+  const output = new Float32Array(input.length)
 
-    if (lineLength > threshold) {
-      lines.push({
-        start: { x, y: lineStart },
-        end: { x, y: lineStart + lineLength },
-      })
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0
+      for (let k = -2; k <= 2; k++) {
+        const xx = Math.min(width - 1, Math.max(0, x + k))
+        sum += input[y * width + xx] * kernel[k + 2]
+      }
+      horizontal[y * width + x] = sum / 16
+    }
+  }
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0
+      for (let k = -2; k <= 2; k++) {
+        const yy = Math.min(height - 1, Math.max(0, y + k))
+        sum += horizontal[yy * width + x] * kernel[k + 2]
+      }
+      output[y * width + x] = sum / 16
     }
   }
 
-  return lines
+  return output
+}
+
+function normalizeAngle(angle: number): number {
+  let a = angle % Math.PI
+  if (a < -Math.PI / 2) a += Math.PI
+  if (a >= Math.PI / 2) a -= Math.PI
+  return a
 }
 
 /**
- * Estimate dominant angle from detected lines
+ * Estimate dominant angle from detected lines, weighted by length
  */
 function estimateDominantAngle(lines: Line[]): number {
   if (lines.length === 0) {
     return 0
   }
 
-  // Calculate angles for each line
-  const angles = lines.map((line) => {
-    const dx = line.end.x - line.start.x
-    const dy = line.end.y - line.start.y
-    return Math.atan2(dy, dx)
-  })
-
-  // Find most common angle (simplified - use histogram in production)
-  const angleCounts = new Map<number, number>()
-  for (const angle of angles) {
-    const rounded = Math.round(angle * 10) / 10
-    angleCounts.set(rounded, (angleCounts.get(rounded) || 0) + 1)
+  // Length-weighted histogram in 2° bins
+  const bins = new Float32Array(90)
+  for (const line of lines) {
+    const length = Math.hypot(line.end.x - line.start.x, line.end.y - line.start.y)
+    const bin = Math.floor(((lineAngle(line) + Math.PI / 2) / Math.PI) * bins.length)
+    bins[Math.min(bins.length - 1, bin)] += length
   }
 
-  let maxCount = 0
-  let dominantAngle = 0
-  for (const [angle, count] of angleCounts.entries()) {
-    if (count > maxCount) {
-      maxCount = count
-      dominantAngle = angle
+  let best = 0
+  for (let i = 1; i < bins.length; i++) {
+    if (bins[i] > bins[best]) {
+      best = i
     }
   }
 
-  return dominantAngle
+  // Refine with the length-weighted mean of lines in the winning bin's family
+  const { along } = splitLineFamilies(lines, ((best + 0.5) / bins.length) * Math.PI - Math.PI / 2, Math.PI / 90)
+  let sumSin = 0
+  let sumCos = 0
+  for (const line of along) {
+    const length = Math.hypot(line.end.x - line.start.x, line.end.y - line.start.y)
+    const angle = lineAngle(line)
+    sumSin += Math.sin(2 * angle) * length
+    sumCos += Math.cos(2 * angle) * length
+  }
+  return normalizeAngle(Math.atan2(sumSin, sumCos) / 2)
 }
 
 /**
  * Calculate confidence score based on detected lines
  */
-function calculateConfidence(
-  lines: Line[],
-  width: number,
-  height: number
-): number {
+function calculateConfidence(lines: Line[], dominantAngle: number): number {
   if (lines.length < 4) {
     return 0
   }
 
-  // Check for both horizontal and vertical lines
-  const horizontalLines = lines.filter(
-    (line) => Math.abs(line.start.y - line.end.y) < 5
-  )
-  const verticalLines = lines.filter(
-    (line) => Math.abs(line.start.x - line.end.x) < 5
-  )
-
-  // Need both types for a fretboard
-  if (horizontalLines.length < 2 || verticalLines.length < 3) {
+  // A fretboard has strings and frets: two families of crossing lines
+  const { along, across } = splitLineFamilies(lines, dominantAngle)
+  if (along.length < 2 || across.length < 2 || along.length + across.length < 5) {
     return 0.3
   }
 
   // Higher confidence with more lines
   const lineScore = Math.min(lines.length / 20, 1.0)
 
-  // Check for regularity (even spacing suggests frets)
-  const regularityScore = checkLineRegularity(horizontalLines)
+  // Check for regularity (even spacing suggests strings or frets)
+  const regularityScore = Math.max(
+    checkLineRegularity(along, dominantAngle),
+    checkLineRegularity(across, dominantAngle + Math.PI / 2)
+  )
 
   return lineScore * 0.6 + regularityScore * 0.4
 }
 
 /**
- * Check if lines are regularly spaced (indicates frets)
+ * Check if parallel lines are regularly spaced
  */
-function checkLineRegularity(lines: Line[]): number {
+function checkLineRegularity(lines: Line[], angle: number): number {
   if (lines.length < 3) {
     return 0
   }
 
-  // Sort by position
-  const sorted = [...lines].sort((a, b) => a.start.y - b.start.y)
+  // Offset of each line's midpoint across the family direction
+  const normal = { x: -Math.sin(angle), y: Math.cos(angle) }
+  const offsets = lines
+    .map((line) => ((line.start.x + line.end.x) / 2) * normal.x + ((line.start.y + line.end.y) / 2) * normal.y)
+    .sort((a, b) => a - b)
 
-  // Calculate spacing
+  // Calculate spacing, merging pieces of the same line
   const spacings: number[] = []
-  for (let i = 1; i < sorted.length; i++) {
-    const spacing = sorted[i].start.y - sorted[i - 1].start.y
-    spacings.push(spacing)
+  for (let i = 1; i < offsets.length; i++) {
+    const spacing = offsets[i] - offsets[i - 1]
+    if (spacing > 2) {
+      spacings.push(spacing)
+    }
+  }
+  if (spacings.length < 2) {
+    return 0
   }
 
   // Check variance (lower variance = more regular)
@@ -0,0 +1,153 @@
+// Detect strings muted by the fretting hand
+
+import type { Hand, Line, MuteEvidence, Point2D } from '@/lib/types'
+import { projectPoints } from '@/features/calibration/homography'
+import type { Matrix3x3 } from '@/features/calibration/homography'
+import { getFingerJoints } from '@/features/ml/hands/HandAssigner'
+import {
+  findNearestString,
+  distanceToLine,
+  toFramePixels,
+} from './StringFretMapper'
+
+const THUMB_TIP = 4
+const THUMB_IP = 3
+
+/**
+ * Average gap between neighbouring strings in the rectified plane
+ */
+function stringSpacing(strings: Line[]): number {
+  let total = 0
+  let count = 0
+  for (let i = 1; i < strings.length; i++) {
+    if (!strings[i] || !strings[i - 1]) continue
+    total += distanceToLine(strings[i].start, strings[i - 1])
+    count++
+  }
+  return count > 0 ? total / count : 0
+}
+
+/**
+ * Confidence that a point touches a string, from its distance in string gaps
+ */
+function contactConfidence(point: Point2D, string: Line, spacing: number): number {
+  return Math.max(0, 1 - distanceToLine(point, string) / spacing)
+}
+
+/**
+ * Thumb wrapped over the neck: its tip reaches the lowest string, and a
+ * long reach also covers the next one (as in a D chord)
+ */
+function detectThumbMutes(
+  hand: Hand,
+  homography: Matrix3x3,
+  strings: Line[],
+  spacing: number,
+  imageWidth: number,
+  imageHeight: number
+): MuteEvidence[] {
+  const tip = hand.keypoints[THUMB_TIP]
+  const ip = hand.keypoints[THUMB_IP]
+  if (!tip || !ip) {
+    return []
+  }
+
+  const [planeTip, planeIp] = projectPoints(
+    homography,
+    toFramePixels([tip, ip], imageWidth, imageHeight)
+  )
+  const lowest = strings.length
+  const evidence: MuteEvidence[] = []
+
+  // The thumb comes over the bass edge, so the joint lies beyond the lowest string
+  const tipString = findNearestString(planeTip, strings)
+  if (tipString < lowest - 1 || findNearestString(planeIp, strings) !== lowest) {
+    return []
+  }
+
+  for (let s = lowest; s >= tipString; s--) {
+    const confidence =
+      s === tipString ? contactConfidence(planeTip, strings[s - 1], spacing) : 1
+    evidence.push({ stringIdx: s, muted: true, source: 'thumb', confidence })
+  }
+  return evidence
+}
+
+/**
+ * Fretting fingers leaning on a neighbouring string: the pad just behind
+ * the tip rests on the string next to the one being fretted
+ */
+function detectFingerMutes(
+  hand: Hand,
+  homography: Matrix3x3,
+  strings: Line[],
+  spacing: number,
+  imageWidth: number,
+  imageHeight: number
+): MuteEvidence[] {
+  const evidence: MuteEvidence[] = []
+
+  for (let fingerId = 1; fingerId <= 4; fingerId++) {
+    const joints = getFingerJoints(hand, fingerId)
+    if (joints.length < 4) continue
+
+    const [planeDip, planeTip] = projectPoints(
+      homography,
+      toFramePixels(joints.slice(2), imageWidth, imageHeight)
+    )
+    const pad = {
+      x: planeTip.x + (planeDip.x - planeTip.x) * 0.3,
+      y: planeTip.y + (planeDip.y - planeTip.y) * 0.3,
+    }
+
+    const tipString = findNearestString(planeTip, strings)
+    const padString = findNearestString(pad, strings)
+    if (Math.abs(padString - tipString) !== 1) continue
+
+    evidence.push({
+      stringIdx: padString,
+      muted: true,
+      source: 'finger',
+      confidence: contactConfidence(pad, strings[padString - 1], spacing),
+    })
+  }
+
+  return evidence
+}
+
+/**
+ * Find strings the fretting hand is muting, from the thumb over the neck
+ * and from fingers leaning on adjacent strings. Keypoints are normalized to
+ * the frame; `strings` are plane strings.
+ */
+export function detectMutedStrings(
+  hand: Hand,
+  homography: Matrix3x3,
+  strings: Line[],
+  imageWidth: number,
+  imageHeight: number
+): MuteEvidence[] {
+  const spacing = stringSpacing(strings)
+  if (!hand.keypoints || strings.length < 2 || spacing <= 0) {
+    return []
+  }
+
+  return [
+    ...detectThumbMutes(
+      hand,
+      homography,
+      strings,
+      spacing,
+      imageWidth,
+      imageHeight
+    ),
+    ...detectFingerMutes(
+      hand,
+      homography,
+      strings,
+      spacing,
+      imageWidth,
+      imageHeight
+    ),
+  ]
+}
@@ -1,16 +1,41 @@
 // Map fingertips to string and fret positions
 
-import type { Point2D, Line, FingerAssignment } from '@/lib/types'
+import type {
+  Point2D,
+  Line,
+  FingerAssignment,
+  FingerSegment,
+} from '@/lib/types'
 import { projectPoints } from '@/features/calibration/homography'
 import type { Matrix3x3 } from '@/features/calibration/homography'
+import { planeFretY, planeStringLines, planeYToFret } from './FretGeometry'
 
 export interface MappingResult {
   assignments: FingerAssignment[]
   confidence: number
 }
 
+export interface MappingOptions {
+  capo?: number // Fret the capo sits on (0 = none)
+}
+
 /**
- * Map fingertips to string and fret positions
+ * Scale keypoints normalized to the frame into its pixels, where the
+ * fretboard homography applies
+ */
+export function toFramePixels(
+  points: Point2D[],
+  imageWidth: number,
+  imageHeight: number
+): Point2D[] {
+  return points.map((p) => ({ x: p.x * imageWidth, y: p.y * imageHeight }))
+}
+
+/**
+ * Map fingertips to string and fret positions. Fingertips are normalized to
+ * the frame and are read in the rectified plane against the physical
+ * fretboard model; `strings` and `frets` give the string count and how many
+ * frets are in view.
  */
 export function mapToStringsAndFrets(
   fingertips: Array<{ fingerId: number; position: Point2D }>,
@@ -18,12 +43,20 @@ export function mapToStringsAndFrets(
   strings: Line[],
   frets: Line[],
   imageWidth: number,
-  imageHeight: number
+  imageHeight: number,
+  options: MappingOptions = {}
 ): MappingResult {
+  const capo = options.capo ?? 0
+  const modelStrings = planeStringLines(strings.length, frets.length - 1)
+
   // Project fingertips to rectified plane
   const planePoints = projectPoints(
-    homographyMatrix as Matrix3x3,
-    fingertips.map((f) => f.position)
+    homography,
+    toFramePixels(
+      fingertips.map((f) => f.position),
+      imageWidth,
+      imageHeight
+    )
   )
 
   const assignments: FingerAssignment[] = []
@@ -33,13 +66,13 @@ export function mapToStringsAndFrets(
     const fingerId = fingertips[i].fingerId
 
     // Find nearest string
-    const stringIdx = findNearestString(planePoint, strings)
+    const stringIdx = findNearestString(planePoint, modelStrings)
 
     // Find nearest fret
-    const fretIdx = findNearestFret(planePoint, frets)
+    const fretIdx = findFretBand(planePoint)
 
     // Calculate confidence based on distance to string/fret
-    const stringLine = strings[stringIdx - 1]
+    const stringLine = modelStrings[stringIdx - 1]
     if (!stringLine || fretIdx < 0 || fretIdx >= frets.length) {
       assignments.push({
         fingerId,
@@ -51,13 +84,14 @@ export function mapToStringsAndFrets(
       continue
     }
 
-    const fretLine = frets[fretIdx]
     const stringDist = distanceToLine(planePoint, stringLine)
-    const fretDist = distanceToFret(planePoint, fretLine)
-    const confidence = Math.max(
-      0,
-      1 - (stringDist / 0.1 + fretDist / 0.1) / 2
-    )
+    const fretDist = distanceToFret(planePoint, fretIdx)
+
+    // Fingers at or behind the capo cannot fret anything
+    const confidence =
+      capo > 0 && fretIdx <= capo
+        ? 0
+        : Math.max(0, 1 - (stringDist / 0.1 + fretDist / 0.1) / 2)
 
     assignments.push({
       fingerId,
@@ -77,10 +111,61 @@ export function mapToStringsAndFrets(
   }
 }
 
+/**
+ * Map a whole finger (knuckle to tip) to the range of strings it lies across.
+ * Used to verify barres, where one finger covers several strings at a fret.
+ * Joints are normalized to the frame, like fingertips.
+ */
+export function mapFingerSegment(
+  fingerId: number,
+  joints: Point2D[],
+  homography: Matrix3x3,
+  strings: Line[],
+  frets: Line[],
+  imageWidth: number,
+  imageHeight: number
+): FingerSegment | null {
+  if (joints.length < 2 || strings.length === 0 || frets.length === 0) {
+    return null
+  }
+
+  const planePoints = projectPoints(
+    homography,
+    toFramePixels(joints, imageWidth, imageHeight)
+  )
+
+  // Sample along the finger so strings between joints are not skipped
+  const samples: Point2D[] = []
+  for (let i = 1; i < planePoints.length; i++) {
+    const a = planePoints[i - 1]
+    const b = planePoints[i]
+    for (let t = 0; t < 1; t += 0.25) {
+      samples.push({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t })
+    }
+  }
+  samples.push(planePoints[planePoints.length - 1])
+
+  const modelStrings = planeStringLines(strings.length, frets.length - 1)
+  const stringIndices = samples.map((p) => findNearestString(p, modelStrings))
+  const tip = planePoints[planePoints.length - 1]
+
+  // A flat barre finger stays in one fret band along its whole length
+  const fretIdx = findFretBand(tip)
+  const inBand = samples.filter((p) => findFretBand(p) === fretIdx)
+
+  return {
+    fingerId,
+    fretIdx,
+    fromString: Math.min(...stringIndices),
+    toString: Math.max(...stringIndices),
+    confidence: inBand.length / samples.length,
+  }
+}
+
 /**
  * Find nearest string index (1-6)
  */
-function findNearestString(point: Point2D, strings: Line[]): number {
+export function findNearestString(point: Point2D, strings: Line[]): number {
   if (strings.length === 0) {
     return 1
   }
@@ -101,29 +186,20 @@ function findNearestString(point: Point2D, strings: Line[]): number {
 }
 
 /**
- * Find nearest fret index (0 = open, 1+ = fretted)
+ * Fret band a plane point lies in (0 = behind the nut, 1+ = fretted), from
+ * the physical fret spacing
  */
-function findNearestFret(point: Point2D, frets: Line[]): number {
-  if (frets.length === 0) {
+function findFretBand(point: Point2D): number {
+  if (point.y <= 0) {
     return 0
   }
-
-  // Find which fret band the point lies in
-  for (let i = 0; i < frets.length; i++) {
-    if (!frets[i]) continue
-    const fretY = frets[i].start.y
-    if (point.y < fretY) {
-      return i // Fret index (0-indexed, but 0 = open)
-    }
-  }
-
-  return frets.length
+  return Math.ceil(planeYToFret(point.y))
 }
 
 /**
  * Calculate distance from point to line
  */
-function distanceToLine(point: Point2D, line: Line): number {
+export function distanceToLine(point: Point2D, line: Line): number {
   const dx = line.end.x - line.start.x
   const dy = line.end.y - line.start.y
   const length = Math.sqrt(dx * dx + dy * dy)
@@ -150,14 +226,10 @@ function distanceToLine(point: Point2D, line: Line): number {
 }
 
 /**
- * Calculate distance from point to fret line
+ * Distance in the plane from a point to the wire of its fret
  */
-function distanceToFret(point: Point2D, fret: Line | undefined): number {
-  if (!fret) {
-    return Infinity
-  }
-  // For horizontal frets, distance is vertical distance
-  return Math.abs(point.y - fret.start.y)
+function distanceToFret(point: Point2D, fretIdx: number): number {
+  return Math.abs(point.y - planeFretY(fretIdx))
 }
 
 /**
@@ -186,13 +258,25 @@ function enforceStringOrder(assignments: FingerAssignment[]): void {
  */
 export function isFingerPressed(
   assignment: FingerAssignment,
-  stabilityHistory: FingerAssignment[]
+  stabilityHistory: FingerAssignment[],
+  maxLift: number = 0.02
 ): boolean {
   // Check stability (low velocity)
   if (stabilityHistory.length < 3) {
     return false
   }
 
+  // Pressed fingertips sit on the fretboard, the deepest point the tip has
+  // reached recently; a tip lifted towards the camera is hovering
+  if (assignment.z !== undefined) {
+    const depths = stabilityHistory
+      .map((a) => a.z)
+      .filter((z): z is number => z !== undefined)
+    if (depths.length > 0 && Math.max(...depths) - assignment.z > maxLift) {
+      return false
+    }
+  }
+
   const recent = stabilityHistory.slice(-3)
   const positions = recent.map((a) => a.position)
 
@@ -206,6 +290,7 @@ export function isFingerPressed(
 
   const avgVelocity = totalVelocity / (positions.length - 1)
 
-  // Low velocity + high confidence = pressed
-  return avgVelocity < 0.01 && assignment.confidence > 0.7
+  // Low velocity on the fretboard = pressed. Mapping confidence falls off
+  // across each fret band, so it only rules out tips that map nowhere.
+  return avgVelocity < 0.01 && assignment.confidence > 0
 }
@@ -1,6 +1,6 @@
 // Assign hands to fretting vs strumming roles
 
-import type { Hand, FretboardState } from '@/lib/types'
+import type { Hand, FretboardState, FrameSize } from '@/lib/types'
 
 export interface HandAssignment {
   fretting: Hand | null
@@ -8,11 +8,13 @@ export interface HandAssignment {
 }
 
 /**
- * Calculate how many keypoints are inside the fretboard ROI
+ * Calculate how many keypoints are inside the fretboard ROI. Keypoints are
+ * normalized to the frame, the ROI is in its pixels.
  */
 function keypointsInROI(
   hand: Hand,
-  roi: FretboardState['roi']
+  roi: FretboardState['roi'],
+  frame: FrameSize
 ): number {
   if (!roi || !hand.keypoints) {
     return 0
@@ -20,11 +22,13 @@ function keypointsInROI(
 
   return hand.keypoints.filter((kp) => {
     if (!kp) return false
+    const x = kp.x * frame.width
+    const y = kp.y * frame.height
     return (
-      kp.x >= roi.x &&
-      kp.x <= roi.x + roi.width &&
-      kp.y >= roi.y &&
-      kp.y <= roi.y + roi.height
+      x >= roi.x &&
+      x <= roi.x + roi.width &&
+      y >= roi.y &&
+      y <= roi.y + roi.height
     )
   }).length
 }
@@ -34,7 +38,8 @@ function keypointsInROI(
  */
 function distanceToROI(
   hand: Hand,
-  roi: FretboardState['roi']
+  roi: FretboardState['roi'],
+  frame: FrameSize
 ): number {
   if (!roi || !hand.keypoints || hand.keypoints.length === 0) {
     return Infinity
@@ -47,17 +52,19 @@ function distanceToROI(
     y: roi.y + roi.height / 2,
   }
 
-  const dx = center.x - roiCenter.x
-  const dy = center.y - roiCenter.y
+  const dx = center.x * frame.width - roiCenter.x
+  const dy = center.y * frame.height - roiCenter.y
   return Math.sqrt(dx * dx + dy * dy)
 }
 
 /**
- * Assign hands to fretting vs strumming roles
+ * Assign hands to fretting vs strumming roles. `frame` is the size of the
+ * frame the fretboard ROI was found in.
  */
 export function assignHands(
   hands: Hand[],
   fretboard: FretboardState,
+  frame: FrameSize,
   handedness: 'right' | 'left' = 'right'
 ): HandAssignment {
   if (hands.length === 0) {
@@ -67,7 +74,7 @@ export function assignHands(
   if (hands.length === 1) {
     // Single hand: determine role based on position
     const hand = hands[0]
-    const inROI = keypointsInROI(hand, fretboard.roi)
+    const inROI = keypointsInROI(hand, fretboard.roi, frame)
 
     if (inROI > 10) {
       // Most keypoints in fretboard ROI = fretting hand
@@ -82,8 +89,8 @@ export function assignHands(
   const hand1 = hands[0]
   const hand2 = hands[1]
 
-  const hand1InROI = keypointsInROI(hand1, fretboard.roi)
-  const hand2InROI = keypointsInROI(hand2, fretboard.roi)
+  const hand1InROI = keypointsInROI(hand1, fretboard.roi, frame)
+  const hand2InROI = keypointsInROI(hand2, fretboard.roi, frame)
 
   // Hand with more keypoints in ROI is fretting hand
   if (hand1InROI > hand2InROI) {
@@ -93,8 +100,8 @@ export function assignHands(
   }
 
   // If similar, use distance to ROI
-  const hand1Dist = distanceToROI(hand1, fretboard.roi)
-  const hand2Dist = distanceToROI(hand2, fretboard.roi)
+  const hand1Dist = distanceToROI(hand1, fretboard.roi, frame)
+  const hand2Dist = distanceToROI(hand2, fretboard.roi, frame)
 
   if (hand1Dist < hand2Dist) {
     return { fretting: hand1, strumming: hand2 }
@@ -116,3 +123,21 @@ export function getFingertips(hand: Hand): Array<{
     position: hand.keypoints[idx] || { x: 0, y: 0, z: 0 },
   }))
 }
+
+/**
+ * Get the joints of one finger from knuckle to tip (MCP, PIP, DIP, TIP).
+ * Finger ids follow getFingertips: index=1, middle=2, ring=3, pinky=4.
+ */
+export function getFingerJoints(
+  hand: Hand,
+  fingerId: number
+): Array<{ x: number; y: number; z?: number }> {
+  if (fingerId < 1 || fingerId > 4) {
+    return []
+  }
+
+  const mcpIdx = fingerId * 4 + 1 // Index MCP=5, middle MCP=9, ...
+  return [mcpIdx, mcpIdx + 1, mcpIdx + 2, mcpIdx + 3]
+    .map((idx) => hand.keypoints[idx])
+    .filter((kp) => !!kp)
+}
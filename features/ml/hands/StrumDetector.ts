@@ -0,0 +1,149 @@
+// Strum detection from strumming-hand motion
+
+import type { Hand, Point2D, StrumEvent, StrumDirection } from '@/lib/types'
+
+const WRIST = 0
+const INDEX_TIP = 8
+
+export interface StrumDetectorOptions {
+  minSpeed: number // Hand speed (frame heights/s) that starts a stroke
+  releaseRatio: number // A stroke ends when speed falls below minSpeed × this
+  minIntervalMs: number // Strums closer together than this are merged
+  smoothing: number // Weight of the newest velocity sample, 0-1
+  axis: Point2D // Image direction of a down-strum (towards the floor by default)
+}
+
+const DEFAULT_OPTIONS: StrumDetectorOptions = {
+  minSpeed: 1.2,
+  releaseRatio: 0.5,
+  minIntervalMs: 90,
+  smoothing: 0.6,
+  axis: { x: 0, y: 1 },
+}
+
+interface Stroke {
+  direction: StrumDirection
+  peakSpeed: number
+  peakTs: number
+}
+
+export interface StrumDetector {
+  options: StrumDetectorOptions
+  lastPosition: number | null // Hand position along the strum axis
+  lastTs: number
+  velocity: number // Smoothed, positive = down
+  stroke: Stroke | null
+  lastStrumTs: number
+}
+
+/**
+ * Create a strum detector
+ */
+export function createStrumDetector(
+  options: Partial<StrumDetectorOptions> = {}
+): StrumDetector {
+  return {
+    options: { ...DEFAULT_OPTIONS, ...options },
+    lastPosition: null,
+    lastTs: 0,
+    velocity: 0,
+    stroke: null,
+    lastStrumTs: -Infinity,
+  }
+}
+
+/**
+ * Feed the strumming hand for one frame (null when it isn't visible).
+ * A strum is reported once its stroke ends, stamped at the stroke's peak
+ * speed, which is when the hand is crossing the strings.
+ */
+export function updateStrumDetector(
+  detector: StrumDetector,
+  hand: Hand | null,
+  timestamp: number
+): StrumEvent | null {
+  const position = hand ? strumPosition(hand, detector.options.axis) : null
+  if (position === null) {
+    // Lost the hand: finish whatever stroke was under way
+    detector.lastPosition = null
+    detector.velocity = 0
+    return finishStroke(detector)
+  }
+
+  if (detector.lastPosition === null || timestamp <= detector.lastTs) {
+    detector.lastPosition = position
+    detector.lastTs = timestamp
+    return null
+  }
+
+  const { minSpeed, releaseRatio, smoothing } = detector.options
+  const raw = ((position - detector.lastPosition) / (timestamp - detector.lastTs)) * 1000
+  detector.velocity = smoothing * raw + (1 - smoothing) * detector.velocity
+  detector.lastPosition = position
+  detector.lastTs = timestamp
+
+  const speed = Math.abs(detector.velocity)
+  const direction: StrumDirection = detector.velocity > 0 ? 'down' : 'up'
+  let event: StrumEvent | null = null
+
+  if (detector.stroke) {
+    if (direction !== detector.stroke.direction || speed < minSpeed * releaseRatio) {
+      event = finishStroke(detector)
+    } else if (speed > detector.stroke.peakSpeed) {
+      detector.stroke.peakSpeed = speed
+      detector.stroke.peakTs = timestamp
+    }
+  }
+
+  if (!detector.stroke && speed >= minSpeed) {
+    detector.stroke = { direction, peakSpeed: speed, peakTs: timestamp }
+  }
+
+  return event
+}
+
+/**
+ * Mark a strum as confirmed (or not) by a nearby sound onset
+ */
+export function confirmStrum(
+  event: StrumEvent,
+  lastOnsetTs: number | null,
+  windowMs: number = 150
+): StrumEvent {
+  return {
+    ...event,
+    audioConfirmed: lastOnsetTs !== null && Math.abs(lastOnsetTs - event.timestamp) <= windowMs,
+  }
+}
+
+function finishStroke(detector: StrumDetector): StrumEvent | null {
+  const stroke = detector.stroke
+  detector.stroke = null
+  if (!stroke || stroke.peakTs - detector.lastStrumTs < detector.options.minIntervalMs) {
+    return null
+  }
+
+  detector.lastStrumTs = stroke.peakTs
+  return {
+    timestamp: stroke.peakTs,
+    direction: stroke.direction,
+    speed: stroke.peakSpeed,
+  }
+}
+
+/**
+ * Midpoint of wrist and index tip projected on the strum axis. The tip
+ * moves most, the wrist is tracked most reliably.
+ */
+function strumPosition(hand: Hand, axis: Point2D): number | null {
+  const wrist = hand.keypoints[WRIST]
+  const tip = hand.keypoints[INDEX_TIP]
+  if (!wrist || !tip) {
+    return null
+  }
+
+  const x = (wrist.x + tip.x) / 2
+  const y = (wrist.y + tip.y) / 2
+  const length = Math.hypot(axis.x, axis.y) || 1
+  return (x * axis.x + y * axis.y) / length
+}
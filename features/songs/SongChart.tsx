@@ -0,0 +1,97 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import type { Song } from '@/lib/types'
+
+interface SongChartProps {
+  song: Song
+  activeStep: number | null // Progression step being played
+  className?: string
+}
+
+export default function SongChart({ song, activeStep, className = '' }: SongChartProps) {
+  const chartRef = useRef<HTMLDivElement>(null)
+  const activeLineRef = useRef<HTMLDivElement>(null)
+
+  const activeLine =
+    activeStep === null
+      ? -1
+      : song.lines.findIndex((line) => line.chords.some((c) => c.stepIndex === activeStep))
+
+  // Keep the line being played in the middle of the chart. Only the chart
+  // scrolls; scrollIntoView would move the page and the camera view with it.
+  useEffect(() => {
+    const chart = chartRef.current
+    const line = activeLineRef.current
+    if (!chart || !line) return
+    chart.scrollTo({
+      top: line.offsetTop - (chart.clientHeight - line.offsetHeight) / 2,
+      behavior: 'smooth',
+    })
+  }, [activeLine])
+
+  return (
+    <div className={`bg-white rounded-lg p-4 ${className}`}>
+      <div className="mb-2 flex items-baseline justify-between">
+        <h2 className="text-lg font-semibold">
+          {song.title}
+          {song.artist && <span className="ml-2 text-sm text-gray-500">{song.artist}</span>}
+        </h2>
+        {song.unknownChords.length > 0 && (
+          <span className="text-xs text-red-600">
+            Skipped unknown chords: {song.unknownChords.join(', ')}
+          </span>
+        )}
+      </div>
+
+      <div ref={chartRef} className="relative h-64 overflow-y-auto font-mono text-sm leading-tight">
+        {song.lines.map((line, lineIdx) => {
+          const isActive = lineIdx === activeLine
+          const showSection = line.section && song.lines[lineIdx - 1]?.section !== line.section
+
+          // Lyric text between chords, each chord sitting above its syllable
+          const segments = line.chords.map((chord, i) => ({
+            chord,
+            text: line.lyrics.slice(chord.position, line.chords[i + 1]?.position ?? line.lyrics.length),
+          }))
+          const lead = line.lyrics.slice(0, line.chords[0]?.position ?? line.lyrics.length)
+
+          return (
+            <div
+              key={lineIdx}
+              ref={isActive ? activeLineRef : undefined}
+              className={`px-2 py-1 rounded ${isActive ? 'bg-blue-50' : ''}`}
+            >
+              {showSection && (
+                <div className="mb-1 text-xs font-semibold uppercase text-gray-500">
+                  {line.section}
+                </div>
+              )}
+              <div className="flex flex-wrap items-end whitespace-pre">
+                {lead && <span>{lead}</span>}
+                {segments.map(({ chord, text }, i) => (
+                  <span key={i} className="inline-flex flex-col">
+                    <span
+                      title={chord.stepIndex < 0 ? 'Unknown chord' : undefined}
+                      className={`font-bold ${
+                        chord.stepIndex < 0
+                          ? 'text-red-500 line-through'
+                          : chord.stepIndex === activeStep
+                            ? 'text-white bg-green-600 rounded px-1'
+                            : 'text-blue-700'
+                      }`}
+                    >
+                      {chord.chord}
+                    </span>
+                    <span>{text || ' '}</span>
+                  </span>
+                ))}
+                {line.lyrics === '' && line.chords.length === 0 && <span> </span>}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
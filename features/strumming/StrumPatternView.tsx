@@ -0,0 +1,83 @@
+'use client'
+
+import type { StrumPattern, StrumBarResult, StrumSlotStatus } from '@/lib/types'
+import { slotsPerBeat } from '@/packages/shared/strum-patterns'
+
+interface StrumPatternViewProps {
+  pattern: StrumPattern
+  lastBar: StrumBarResult | null
+  toleranceMs: number
+  currentBeat: number | null
+  className?: string
+}
+
+const STATUS_STYLES: Record<StrumSlotStatus, string> = {
+  hit: 'border-green-400 bg-green-900/40',
+  'wrong direction': 'border-amber-400 bg-amber-900/40',
+  missed: 'border-red-500 bg-red-900/40',
+  extra: 'border-red-500 bg-red-900/40',
+  rest: 'border-gray-700',
+}
+
+function arrow(direction: 'down' | 'up' | null | undefined): string {
+  return direction === 'down' ? '↓' : direction === 'up' ? '↑' : '·'
+}
+
+export default function StrumPatternView({
+  pattern,
+  lastBar,
+  toleranceMs,
+  currentBeat,
+  className = '',
+}: StrumPatternViewProps) {
+  const perBeat = slotsPerBeat(pattern)
+
+  return (
+    <div className={`flex gap-1 ${className}`}>
+      {pattern.slots.map((expected, i) => {
+        const slot = lastBar?.slots[i]
+        const onBeat = i % perBeat === 0
+        const beat = Math.floor(i / perBeat)
+        // Marker offset within the slot: centre is on time, edges are the tolerance
+        const offset =
+          slot?.errorMs !== undefined
+            ? Math.max(-1, Math.min(1, slot.errorMs / toleranceMs)) * 40
+            : null
+
+        return (
+          <div
+            key={i}
+            className={`relative flex flex-1 flex-col items-center rounded border-2 py-2 ${
+              slot ? STATUS_STYLES[slot.status] : 'border-gray-700'
+            } ${currentBeat === beat && onBeat ? 'ring-2 ring-yellow-400' : ''}`}
+          >
+            <span className="text-xs text-gray-400">
+              {onBeat ? beat + 1 : '&'}
+            </span>
+            <span className="text-2xl font-bold">{arrow(expected)}</span>
+            <span className="h-4 text-xs text-gray-300">
+              {slot?.status === 'wrong direction'
+                ? arrow(slot.actual)
+                : slot?.errorMs !== undefined
+                  ? `${slot.errorMs > 0 ? '+' : ''}${Math.round(slot.errorMs)}ms`
+                  : slot?.status === 'missed'
+                    ? 'miss'
+                    : ''}
+            </span>
+
+            {/* Timing marker: left of centre is early, right is late */}
+            <div className="relative mt-1 h-1 w-full bg-gray-700">
+              <div className="absolute left-1/2 top-0 h-1 w-px bg-gray-400" />
+              {offset !== null && (
+                <div
+                  className="absolute top-1/2 h-2 w-2 -translate-x-1/2 -translate-y-1/2 rounded-full bg-white"
+                  style={{ left: `${50 + offset}%` }}
+                />
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,180 @@
+// Judges strums against a strumming pattern on the metronome's beat grid
+
+import type { StrumPattern, StrumEvent, StrumSlotResult, StrumBarResult } from '@/lib/types'
+import { slotsPerBeat } from '@/packages/shared/strum-patterns'
+
+interface OpenBar {
+  bar: number
+  startMs: number // Wall-clock time of the bar's downbeat
+  slotMs: number
+}
+
+export interface StrumTrainer {
+  pattern: StrumPattern
+  toleranceMs: number // Furthest a strum may land from its slot and still count
+  graceMs: number // Strums are reported after the stroke, so bars are judged this late
+  openBars: OpenBar[]
+  strums: StrumEvent[] // Not yet judged
+  results: StrumBarResult[]
+}
+
+/**
+ * Create a trainer for one pattern
+ */
+export function createStrumTrainer(
+  pattern: StrumPattern,
+  options: { toleranceMs?: number; graceMs?: number } = {}
+): StrumTrainer {
+  return {
+    pattern,
+    toleranceMs: options.toleranceMs ?? 100,
+    graceMs: options.graceMs ?? 250,
+    openBars: [],
+    strums: [],
+    results: [],
+  }
+}
+
+/**
+ * Record a detected strum. Strokes the microphone didn't hear are dropped:
+ * the hand swung but missed the strings, which is how rests are played.
+ */
+export function addStrum(trainer: StrumTrainer, strum: StrumEvent): void {
+  if (strum.audioConfirmed === false) {
+    return
+  }
+  trainer.strums.push(strum)
+}
+
+/**
+ * Advance on a metronome beat. beatMs is the beat's wall-clock time and
+ * beatDurationMs its length. Returns bars that finished and were judged.
+ */
+export function advanceStrumTrainer(
+  trainer: StrumTrainer,
+  beat: { bar: number; beat: number },
+  beatMs: number,
+  beatDurationMs: number
+): StrumBarResult[] {
+  if (beat.beat === 0) {
+    trainer.openBars.push({
+      bar: beat.bar,
+      startMs: beatMs,
+      slotMs: beatDurationMs / slotsPerBeat(trainer.pattern),
+    })
+  }
+  return flushStrumTrainer(trainer, beatMs)
+}
+
+/**
+ * Judge every open bar that ended (plus the grace period) by nowMs
+ */
+export function flushStrumTrainer(trainer: StrumTrainer, nowMs: number): StrumBarResult[] {
+  const judged: StrumBarResult[] = []
+  const slotCount = trainer.pattern.slots.length
+  while (trainer.openBars.length > 0) {
+    const open = trainer.openBars[0]
+    if (open.startMs + slotCount * open.slotMs + trainer.graceMs > nowMs) {
+      break
+    }
+    trainer.openBars.shift()
+    const result = judgeBar(trainer, open)
+    trainer.results.push(result)
+    judged.push(result)
+  }
+  return judged
+}
+
+/**
+ * Summary over every judged bar
+ */
+export function summarizeStrumming(results: StrumBarResult[]): {
+  accuracy: number
+  meanErrorMs: number
+  missed: number
+  extra: number
+} {
+  if (results.length === 0) {
+    return { accuracy: 0, meanErrorMs: 0, missed: 0, extra: 0 }
+  }
+  return {
+    accuracy: results.reduce((sum, r) => sum + r.accuracy, 0) / results.length,
+    meanErrorMs: results.reduce((sum, r) => sum + r.meanErrorMs, 0) / results.length,
+    missed: results.reduce((sum, r) => sum + r.missed, 0),
+    extra: results.reduce((sum, r) => sum + r.extra, 0),
+  }
+}
+
+function judgeBar(trainer: StrumTrainer, open: OpenBar): StrumBarResult {
+  const { slots } = trainer.pattern
+  const windowStart = open.startMs - open.slotMs / 2
+  const windowEnd = windowStart + slots.length * open.slotMs
+
+  // Strums before this bar belong to no bar (e.g. before the first downbeat)
+  const inBar = trainer.strums.filter((s) => s.timestamp >= windowStart && s.timestamp < windowEnd)
+  trainer.strums = trainer.strums.filter((s) => s.timestamp >= windowEnd)
+
+  const bySlot: StrumEvent[][] = slots.map(() => [])
+  for (const strum of inBar) {
+    const slot = Math.round((strum.timestamp - open.startMs) / open.slotMs)
+    bySlot[Math.max(0, Math.min(slots.length - 1, slot))].push(strum)
+  }
+
+  let extra = 0
+  const results: StrumSlotResult[] = slots.map((expected, i) => {
+    const slotTime = open.startMs + i * open.slotMs
+    const candidates = bySlot[i]
+      .map((strum) => ({ strum, errorMs: strum.timestamp - slotTime }))
+      .filter((c) => Math.abs(c.errorMs) <= trainer.toleranceMs)
+      // Right direction first, then closest in time
+      .sort(
+        (a, b) =>
+          Number(b.strum.direction === expected) - Number(a.strum.direction === expected) ||
+          Math.abs(a.errorMs) - Math.abs(b.errorMs)
+      )
+    const outside = bySlot[i].length - candidates.length
+    const best = candidates[0]
+
+    if (expected === null) {
+      // Without a microphone a ghost stroke can't be told from a strum, so
+      // only heard strums on a rest count as extra
+      const heard = candidates.filter((c) => c.strum.audioConfirmed === true)
+      extra += heard.length + outside
+      if (!best) {
+        return { expected, status: 'rest' }
+      }
+      return {
+        expected,
+        actual: best.strum.direction,
+        errorMs: best.errorMs,
+        status: heard.length > 0 ? 'extra' : 'rest',
+      }
+    }
+
+    extra += Math.max(0, candidates.length - 1) + outside
+    if (!best) {
+      return { expected, status: 'missed' }
+    }
+    return {
+      expected,
+      actual: best.strum.direction,
+      errorMs: best.errorMs,
+      status: best.strum.direction === expected ? 'hit' : 'wrong direction',
+    }
+  })
+
+  const expectedCount = slots.filter((slot) => slot !== null).length
+  const played = results.filter((r) => r.status === 'hit' || r.status === 'wrong direction')
+  return {
+    bar: open.bar,
+    slots: results,
+    missed: results.filter((r) => r.status === 'missed').length,
+    extra,
+    meanErrorMs:
+      played.length > 0
+        ? played.reduce((sum, r) => sum + Math.abs(r.errorMs!), 0) / played.length
+        : 0,
+    accuracy:
+      expectedCount > 0 ? results.filter((r) => r.status === 'hit').length / expectedCount : 0,
+  }
+}
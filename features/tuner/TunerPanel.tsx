@@ -0,0 +1,225 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { useCalibrationStore } from '@/features/calibration/CalibrationStore'
+import { MicrophoneAnalyzer } from '@/features/audio/MicrophoneAnalyzer'
+import { PitchTracker } from '@/features/audio/PitchTracker'
+import {
+  IN_TUNE_CENTS,
+  detectString,
+  readString,
+  nearestNote,
+  tuningRange,
+  formatNote,
+  type StringReading,
+} from './tuner'
+
+const SMOOTHING_READINGS = 5 // Median over this many readings steadies the needle
+const HOLD_MS = 1000 // Keep showing the last reading this long after the note fades
+
+interface TunerPanelProps {
+  className?: string
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+function centsColor(cents: number): string {
+  if (Math.abs(cents) <= IN_TUNE_CENTS) return 'text-green-400'
+  if (Math.abs(cents) <= 20) return 'text-yellow-400'
+  return 'text-red-400'
+}
+
+export default function TunerPanel({ className = '' }: TunerPanelProps) {
+  const { tuning } = useCalibrationStore()
+  const [listening, setListening] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedString, setSelectedString] = useState<number | 'auto'>('auto')
+  const [frequency, setFrequency] = useState<number | null>(null)
+  const [perString, setPerString] = useState<{ [stringIdx: number]: number }>({})
+  const selectedRef = useRef(selectedString)
+  selectedRef.current = selectedString
+  // The microphone keeps running across tuning changes; the tracker follows
+  const tuningRef = useRef(tuning)
+  tuningRef.current = tuning
+  const trackerRef = useRef<PitchTracker | null>(null)
+
+  // Readings from another tuning don't apply
+  useEffect(() => {
+    setPerString({})
+    const { minHz, maxHz } = tuningRange(tuning.notes)
+    trackerRef.current?.setRange(minHz, maxHz)
+  }, [tuning])
+
+  useEffect(() => {
+    if (!listening) {
+      return
+    }
+
+    const microphone = new MicrophoneAnalyzer()
+    const recent: number[] = []
+    let lastHeard = 0
+    let disposed = false
+
+    const unsubscribe = microphone.onSamples((samples, startTime) => {
+      const notes = tuningRef.current.notes
+      let tracker = trackerRef.current
+      if (!tracker) {
+        tracker = new PitchTracker({
+          sampleRate: microphone.sampleRate ?? 44100,
+          ...tuningRange(notes),
+        })
+        trackerRef.current = tracker
+      }
+
+      for (const reading of tracker.process(samples, startTime)) {
+        if (reading.frequency === null) {
+          if (reading.timestamp - lastHeard > HOLD_MS) {
+            recent.length = 0
+            setFrequency(null)
+          }
+          continue
+        }
+
+        lastHeard = reading.timestamp
+        recent.push(reading.frequency)
+        if (recent.length > SMOOTHING_READINGS) {
+          recent.shift()
+        }
+        const smoothed = median(recent)
+        setFrequency(smoothed)
+
+        const selected = selectedRef.current
+        const stringReading =
+          selected === 'auto'
+            ? detectString(smoothed, notes)
+            : readString(smoothed, notes, selected)
+        setPerString((prev) => ({ ...prev, [stringReading.stringIdx]: stringReading.cents }))
+      }
+    })
+
+    setError(null)
+    microphone.start().catch((err) => {
+      // A start abandoned by cleanup must not stop the tuner that replaced it
+      if (disposed) return
+      console.error('Failed to start tuner:', err)
+      setError(err instanceof Error ? err.message : 'Microphone unavailable')
+      setListening(false)
+    })
+
+    return () => {
+      disposed = true
+      unsubscribe()
+      microphone.dispose()
+      trackerRef.current = null
+      setFrequency(null)
+    }
+  }, [listening])
+
+  const current: StringReading | null =
+    frequency === null
+      ? null
+      : selectedString === 'auto'
+        ? detectString(frequency, tuning.notes)
+        : readString(frequency, tuning.notes, selectedString)
+  const chromatic = frequency === null ? null : nearestNote(frequency)
+  // Needle position, clamped to ±50 cents
+  const needle = current ? Math.max(-50, Math.min(50, current.cents)) : 0
+
+  // Strings listed low to high, as they're usually tuned
+  const strings = tuning.notes.map((_, i) => tuning.notes.length - i)
+
+  return (
+    <div className={`bg-black/80 text-white p-6 rounded-lg space-y-6 ${className}`}>
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">{tuning.name}</h2>
+        <button
+          onClick={() => setListening(!listening)}
+          className={`px-4 py-2 rounded font-medium ${
+            listening ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+          }`}
+        >
+          {listening ? 'Stop' : 'Start Tuner'}
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {/* Target note and cents needle */}
+      <div className="text-center">
+        <div className={`text-6xl font-bold ${current ? centsColor(current.cents) : 'text-gray-500'}`}>
+          {current ? formatNote(current.midi) : '–'}
+        </div>
+        <div className="mt-1 text-sm text-gray-300">
+          {current
+            ? `${current.cents > 0 ? '+' : ''}${current.cents.toFixed(0)} cents · ${frequency!.toFixed(1)} Hz`
+            : listening
+              ? 'Play a single string'
+              : 'Start the tuner and play a string'}
+        </div>
+        {chromatic && current && chromatic.midi !== current.midi && (
+          <div className="mt-1 text-xs text-gray-400">
+            Hearing {formatNote(chromatic.midi)}
+          </div>
+        )}
+
+        <div className="relative mx-auto mt-4 h-3 max-w-md rounded-full bg-gray-700">
+          <div className="absolute left-1/2 top-0 h-3 w-0.5 -translate-x-1/2 bg-gray-400" />
+          {current && (
+            <div
+              className={`absolute top-1/2 h-5 w-1.5 -translate-x-1/2 -translate-y-1/2 rounded ${
+                Math.abs(current.cents) <= IN_TUNE_CENTS ? 'bg-green-400' : 'bg-yellow-400'
+              }`}
+              style={{ left: `${50 + needle}%` }}
+            />
+          )}
+        </div>
+        <div className="mx-auto mt-1 flex max-w-md justify-between text-xs text-gray-500">
+          <span>♭ 50</span>
+          <span>0</span>
+          <span>50 ♯</span>
+        </div>
+      </div>
+
+      {/* Per-string readings; pick a string or let the tuner work it out */}
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => setSelectedString('auto')}
+          className={`px-3 py-2 rounded text-sm ${
+            selectedString === 'auto' ? 'bg-blue-600' : 'bg-gray-800 hover:bg-gray-700'
+          }`}
+        >
+          Auto
+        </button>
+        {strings.map((stringIdx) => {
+          const cents = perString[stringIdx]
+          const active = current?.stringIdx === stringIdx
+          return (
+            <button
+              key={stringIdx}
+              onClick={() => setSelectedString(stringIdx)}
+              className={`flex min-w-[3.5rem] flex-col items-center px-3 py-2 rounded text-sm ${
+                selectedString === stringIdx
+                  ? 'bg-blue-600'
+                  : active
+                    ? 'bg-gray-600'
+                    : 'bg-gray-800 hover:bg-gray-700'
+              }`}
+            >
+              <span className="font-semibold">{formatNote(tuning.notes[stringIdx - 1])}</span>
+              <span className={`text-xs ${cents === undefined ? 'text-gray-500' : centsColor(cents)}`}>
+                {cents === undefined
+                  ? '–'
+                  : Math.abs(cents) <= IN_TUNE_CENTS
+                    ? '✓'
+                    : `${cents > 0 ? '+' : ''}${cents.toFixed(0)}`}
+              </span>
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
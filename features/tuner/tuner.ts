@@ -0,0 +1,74 @@
+// Tuner readings: how far a detected pitch is from a note or a string
+
+import { frequencyToMidi, midiToFrequency } from '@/features/audio/dsp'
+import { NOTE_NAMES } from '@/packages/shared/music-theory'
+
+export const IN_TUNE_CENTS = 5
+
+export interface NoteReading {
+  midi: number // Target note
+  cents: number // Offset from the target; positive is sharp
+}
+
+export interface StringReading extends NoteReading {
+  stringIdx: number // 1 = highest string
+}
+
+/**
+ * Cents from a MIDI note to a frequency
+ */
+export function centsFrom(frequency: number, midi: number): number {
+  return 1200 * Math.log2(frequency / midiToFrequency(midi))
+}
+
+/**
+ * Nearest chromatic note to a frequency
+ */
+export function nearestNote(frequency: number): NoteReading {
+  const midi = Math.round(frequencyToMidi(frequency))
+  return { midi, cents: centsFrom(frequency, midi) }
+}
+
+/**
+ * Reading against one string of the tuning
+ */
+export function readString(
+  frequency: number,
+  tuning: number[],
+  stringIdx: number
+): StringReading {
+  const midi = tuning[stringIdx - 1]
+  return { stringIdx, midi, cents: centsFrom(frequency, midi) }
+}
+
+/**
+ * Guess which string is being tuned: the one whose open note is closest
+ */
+export function detectString(frequency: number, tuning: number[]): StringReading {
+  let best = readString(frequency, tuning, 1)
+  for (let s = 2; s <= tuning.length; s++) {
+    const reading = readString(frequency, tuning, s)
+    if (Math.abs(reading.cents) < Math.abs(best.cents)) {
+      best = reading
+    }
+  }
+  return best
+}
+
+/**
+ * Pitch range worth searching for a tuning, with a fifth of slack either side
+ * for strings that are far out
+ */
+export function tuningRange(tuning: number[]): { minHz: number; maxHz: number } {
+  return {
+    minHz: midiToFrequency(Math.min(...tuning) - 7),
+    maxHz: midiToFrequency(Math.max(...tuning) + 7),
+  }
+}
+
+/**
+ * Note name with octave, e.g. "E2"
+ */
+export function formatNote(midi: number): string {
+  return `${NOTE_NAMES[((midi % 12) + 12) % 12]}${Math.floor(midi / 12) - 1}`
+}
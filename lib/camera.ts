@@ -70,6 +70,14 @@ export async function requestCameraAccess(
   }
 }
 
+/**
+ * Device ID of the camera behind a stream, as listed by getCameraDevices
+ */
+export function getStreamDeviceId(stream: MediaStream | null): string | null {
+  const track = stream?.getVideoTracks()[0]
+  return track?.getSettings().deviceId ?? null
+}
+
 /**
  * Stop camera stream
  */
@@ -5,52 +5,183 @@ import type {
   Hand,
   FretboardState,
   FingerAssignment,
-  ChordMatchResult,
+  FingerSegment,
+  FingerStrictness,
+  MuteEvidence,
+  AudioFrame,
+  StrumEvent,
+  CalibrationDrift,
+  LensDistortion,
 } from '@/lib/types'
 import { HandTracker } from '@/features/ml/hands/HandTracker'
-import { assignHands, getFingertips } from '@/features/ml/hands/HandAssigner'
+import {
+  assignHands,
+  getFingertips,
+  getFingerJoints,
+} from '@/features/ml/hands/HandAssigner'
 import { estimateFretboard } from '@/features/ml/fretboard/FretboardLocalizer'
-import { mapToStringsAndFrets } from '@/features/ml/fretboard/StringFretMapper'
-import { matchChord, generateFeedback, createStabilityTracker } from '@/features/chord-trainer/ChordMatcher'
+import {
+  modelFretCount,
+  planeStringLines,
+} from '@/features/ml/fretboard/FretGeometry'
+import {
+  createFretboardTracker,
+  needsFretboardDetection,
+  updateFretboardTracker,
+  resetFretboardTracker,
+  type FretboardTracker,
+} from '@/features/ml/fretboard/FretboardTracker'
+import {
+  applyDriftCorrection,
+  createDriftMonitor,
+  measureDrift,
+  updateDriftMonitor,
+} from '@/features/ml/fretboard/DriftMonitor'
+import { cannyEdges } from '@/features/ml/fretboard/HoughDetector'
+import {
+  createUndistortMap,
+  remapImage,
+  undistortHand,
+} from '@/features/calibration/LensDistortion'
+import {
+  mapToStringsAndFrets,
+  mapFingerSegment,
+  isFingerPressed,
+} from '@/features/ml/fretboard/StringFretMapper'
+import { detectMutedStrings } from '@/features/ml/fretboard/MutingDetector'
+import {
+  createStrumDetector,
+  updateStrumDetector,
+  confirmStrum,
+} from '@/features/ml/hands/StrumDetector'
+import {
+  matchChord,
+  createStabilityTracker,
+  updateStability,
+} from '@/features/chord-trainer/ChordMatcher'
+import { fuseChordMatches } from '@/features/chord-trainer/ChordFusion'
+import { matchChordAudio, audioMuteEvidence } from '@/features/audio/AudioChordMatcher'
+import { recognizeChord } from '@/features/chord-trainer/ChordRecognizer'
 import { getChordTemplate } from '@/packages/shared/chord-templates'
 import { getDownsampledFrame, imageDataToImageBitmap } from './camera'
+import { identityHomography, multiplyMatrices } from '@/features/calibration/homography'
 import type { Matrix3x3 } from '@/features/calibration/homography'
 
 export interface FrameProcessorConfig {
   processingWidth: number
   processingHeight: number
-  fretboardUpdateInterval: number // frames
+  fretboardUpdateInterval: number // frames between detections while tracking
+  recognitionTopN: number // candidates reported in free-play mode
+  fingerStrictness: FingerStrictness
+  pressHistoryFrames: number // per-finger history used to tell pressing from hovering
+  maxAudioAgeMs: number // older microphone frames count as no audio
+  strumOnsetWindowMs: number // how close a sound onset must be to confirm a strum
+  driftCheckInterval: number // frames between checks of the saved calibration
+}
+
+// A saved calibration: its homography maps pixels of a frame of the given
+// size (the processing size if unset) to the fretboard plane
+export interface CalibrationSource {
+  homography: number[][]
+  confidence: number
+  width?: number
+  height?: number
 }
 
 const DEFAULT_CONFIG: FrameProcessorConfig = {
   processingWidth: 640,
   processingHeight: 360,
   fretboardUpdateInterval: 10,
+  recognitionTopN: 3,
+  fingerStrictness: 'warn',
+  pressHistoryFrames: 10,
+  maxAudioAgeMs: 250,
+  strumOnsetWindowMs: 150,
+  driftCheckInterval: 15,
 }
 
+// Recent chord scores kept for sampling at strum time; strums are reported
+// a few frames after the hand crosses the strings
+const SCORE_HISTORY_FRAMES = 15
+const MAX_STRUM_SCORE_GAP_MS = 250
+
 export class FrameProcessor {
   private handTracker: HandTracker
   private config: FrameProcessorConfig
-  private frameCount = 0
+  private fretboardTracker: FretboardTracker
   private stabilityTracker = createStabilityTracker(0.85, 2000)
+  private fingerHistory = new Map<number, FingerAssignment[]>()
+  private strumDetector = createStrumDetector()
+  private scoreHistory: Array<{ timestamp: number; score: number }> = []
+  private lastStrumTs = 0
   private videoElement: HTMLVideoElement | null = null
   private callback: ((state: FrameState) => void) | null = null
   private isRunning = false
   private animationFrameId: number | null = null
   private getChordTarget: (() => string | null) | null = null
   private getHandedness: (() => 'right' | 'left') | null = null
+  private getTuning: (() => number[]) | null = null
+  private getCapo: (() => number) | null = null
+  private isFreePlay: (() => boolean) | null = null
+  private getAudioFrame: (() => AudioFrame | null) | null = null
+  private getLastOnset: (() => number | null) | null = null
+  private getCalibration: (() => CalibrationSource | null) | null = null
+  private getLensDistortion: (() => LensDistortion | null) | null = null
+  private undistortMap: { lens: LensDistortion; map: Float32Array } | null = null
+  private driftMonitor = createDriftMonitor()
+  private drift: CalibrationDrift | undefined
+  private framesSinceDriftCheck = 0
+  private calibrationCorrection: Matrix3x3 | null = null // Applied after the saved homography
+  private correctedCalibration: number[][] | null = null // The homography it applies to
 
   constructor(config: Partial<FrameProcessorConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config }
     this.handTracker = new HandTracker()
+    this.fretboardTracker = createFretboardTracker({
+      redetectInterval: this.config.fretboardUpdateInterval,
+    })
   }
 
   setCallbacks(options: {
     getChordTarget?: () => string | null
     getHandedness?: () => 'right' | 'left'
+    getTuning?: () => number[]
+    getCapo?: () => number
+    isFreePlay?: () => boolean
+    getCalibration?: () => CalibrationSource | null
+    getLensDistortion?: () => LensDistortion | null
   }): void {
     this.getChordTarget = options.getChordTarget || null
     this.getHandedness = options.getHandedness || (() => 'right')
+    this.getTuning = options.getTuning || null
+    this.getCapo = options.getCapo || null
+    this.isFreePlay = options.isFreePlay || null
+    this.getCalibration = options.getCalibration || null
+    this.getLensDistortion = options.getLensDistortion || null
+  }
+
+  /**
+   * Change matching settings while running, without rebuilding the hand
+   * tracker or losing tracking state
+   */
+  setConfig(
+    config: Partial<Pick<FrameProcessorConfig, 'fingerStrictness' | 'recognitionTopN'>>
+  ): void {
+    this.config = { ...this.config, ...config }
+  }
+
+  /**
+   * Attach the microphone's readings, or detach them with null; without
+   * them chord scores and strums come from the camera alone
+   */
+  setAudioInput(
+    input: {
+      getAudioFrame?: () => AudioFrame | null
+      getLastOnset?: () => number | null
+    } | null
+  ): void {
+    this.getAudioFrame = input?.getAudioFrame || null
+    this.getLastOnset = input?.getLastOnset || null
   }
 
   async initialize(): Promise<void> {
@@ -98,6 +229,11 @@ export class FrameProcessor {
       const imageBitmap = await imageDataToImageBitmap(imageData)
       const timestamp = Date.now()
 
+      // Lines and the fretboard plane are found in the undistorted frame;
+      // hand keypoints are undistorted to match
+      const lens = this.getLensDistortion ? this.getLensDistortion() : null
+      const frame = lens ? this.undistortFrame(imageData, lens) : imageData
+
       // Initialize state
       const state: FrameState = {
         fretboard: {
@@ -112,40 +248,64 @@ export class FrameProcessor {
         },
         chordTarget: null,
         chordMatch: null,
-        lastStrumTs: 0,
+        lastStrumTs: this.lastStrumTs,
         metrics: {
           chordScore: 0,
           stableMs: 0,
         },
       }
 
-      // Update fretboard detection (every N frames)
-      // Try auto-detection periodically or when confidence is low
-      const shouldUpdateFretboard =
-        this.frameCount % this.config.fretboardUpdateInterval === 0 ||
-        !state.fretboard.homography ||
-        state.fretboard.confidence < 0.6
-
-      if (shouldUpdateFretboard) {
-        const fretboardResult = estimateFretboard(imageData)
-        // Only update if we got a better result or don't have one yet
-        if (
-          !state.fretboard.homography ||
-          fretboardResult.confidence > state.fretboard.confidence
-        ) {
-          state.fretboard = fretboardResult
+      const tuning = this.getTuning ? this.getTuning() : null
+      const stringCount = tuning ? tuning.length : 6
+      const capo = this.getCapo ? this.getCapo() : 0
+
+      // Track the fretboard between frames; full detection only runs every
+      // few frames or when tracking confidence drops. The saved calibration
+      // seeds the track, detection refines it, and it takes over again when
+      // detection is too weak to follow the guitar.
+      let calibration = this.calibrationFretboard()
+      if (calibration) {
+        state.drift = this.checkDrift(frame, calibration, stringCount)
+        if (state.drift?.corrected) {
+          // Track from the corrected calibration rather than the stale one
+          resetFretboardTracker(this.fretboardTracker)
+          calibration = this.calibrationFretboard()
         }
       }
 
+      const detection = needsFretboardDetection(this.fretboardTracker)
+        ? estimateFretboard(frame, undefined, stringCount)
+        : null
+      state.fretboard = updateFretboardTracker(
+        this.fretboardTracker,
+        detection,
+        timestamp,
+        stringCount,
+        calibration,
+        modelFretCount(capo)
+      )
+
       // Detect hands
-      const hands = await this.handTracker.detect(imageBitmap, timestamp)
+      const detectedHands = await this.handTracker.detect(imageBitmap, timestamp)
+      const hands = lens
+        ? detectedHands.map((hand) =>
+            undistortHand(hand, lens, imageData.width, imageData.height)
+          )
+        : detectedHands
       if (hands.length > 0) {
         const handedness = this.getHandedness ? this.getHandedness() : 'right'
-        state.hands = assignHands(hands, state.fretboard, handedness)
+        state.hands = assignHands(
+          hands,
+          state.fretboard,
+          { width: imageData.width, height: imageData.height },
+          handedness
+        )
       }
 
       // Map fingertips to strings/frets if fretboard is ready
       let fingerAssignments: FingerAssignment[] = []
+      const fingerSegments: FingerSegment[] = []
+      let muteEvidence: MuteEvidence[] | undefined
       if (
         state.fretboard.homography &&
         state.hands.fretting &&
@@ -159,35 +319,128 @@ export class FrameProcessor {
               fingerId: f.fingerId,
               position: { x: f.position.x, y: f.position.y },
             })),
-            state.fretboard.homography,
+            state.fretboard.homography as Matrix3x3,
             state.fretboard.strings,
             state.fretboard.frets,
-            this.config.processingWidth,
-            this.config.processingHeight
+            imageData.width,
+            imageData.height,
+            { capo }
           )
-          fingerAssignments = mappingResult.assignments
+          fingerAssignments = mappingResult.assignments.map((a, i) => ({
+            ...a,
+            z: fingertips[i].position.z,
+          }))
+          this.updatePressedState(fingerAssignments)
         }
+
+        // Index finger segment, for barre chords
+        const indexSegment = mapFingerSegment(
+          1,
+          getFingerJoints(state.hands.fretting, 1),
+          state.fretboard.homography as Matrix3x3,
+          state.fretboard.strings,
+          state.fretboard.frets,
+          imageData.width,
+          imageData.height
+        )
+        const indexPressed =
+          fingerAssignments.find((a) => a.fingerId === 1)?.pressed !== false
+        if (indexSegment && indexPressed) {
+          fingerSegments.push(indexSegment)
+        }
+
+        // Mutes are read in the plane, against the model strings
+        muteEvidence = detectMutedStrings(
+          state.hands.fretting,
+          state.fretboard.homography as Matrix3x3,
+          planeStringLines(
+            state.fretboard.strings.length,
+            state.fretboard.frets.length - 1
+          ),
+          imageData.width,
+          imageData.height
+        )
+      }
+
+      if (!state.hands.fretting) {
+        this.fingerHistory.clear()
       }
 
-      // Match chord if target is set
       const chordTarget = this.getChordTarget ? this.getChordTarget() : null
-      if (chordTarget && fingerAssignments.length > 0) {
-        const template = getChordTemplate(chordTarget)
-        if (template) {
-          state.chordTarget = chordTarget
-          const matchResult = matchChord(
-            fingerAssignments,
-            template,
-            this.stabilityTracker
-          )
-          state.chordMatch = matchResult
-          state.metrics.chordScore = matchResult.score
-          state.metrics.stableMs = matchResult.stabilityMs
+      const template = chordTarget
+        ? tuning
+          ? getChordTemplate(chordTarget, tuning)
+          : getChordTemplate(chordTarget)
+        : null
+      const audioFrame = this.getRingingAudio(timestamp)
+      const audioOptions = { tuning: tuning ?? undefined, capo }
+
+      // Microphone evidence counts even when the camera cannot see the hand
+      if (audioFrame && template) {
+        const audioMutes = audioMuteEvidence(audioFrame.chroma, template, audioOptions)
+        if (audioMutes.length > 0) {
+          muteEvidence = [...(muteEvidence ?? []), ...audioMutes]
         }
       }
 
+      // Match chord if target is set, from whichever sources are available
+      if (chordTarget && template && (fingerAssignments.length > 0 || audioFrame)) {
+        state.chordTarget = chordTarget
+        const vision =
+          fingerAssignments.length > 0
+            ? matchChord(fingerAssignments, template, undefined, {
+                segments: fingerSegments,
+                capo,
+                stringCount,
+                fingerStrictness: this.config.fingerStrictness,
+                mutes: muteEvidence,
+              })
+            : null
+        const audio = audioFrame
+          ? matchChordAudio(audioFrame.chroma, template, audioOptions)
+          : null
+        // Without a microphone there's nothing to fuse
+        const matchResult = this.getAudioFrame
+          ? fuseChordMatches(vision, audio, template)!
+          : vision!
+
+        updateStability(this.stabilityTracker, matchResult.score, timestamp)
+        matchResult.stabilityMs = this.stabilityTracker.stableMs
+        state.chordMatch = matchResult
+        state.metrics.chordScore = matchResult.score
+        state.metrics.stableMs = matchResult.stabilityMs
+      }
+
+      // Strums, with the chord score from the frame nearest the stroke
+      if (state.chordMatch) {
+        this.scoreHistory.push({ timestamp, score: state.chordMatch.score })
+        if (this.scoreHistory.length > SCORE_HISTORY_FRAMES) {
+          this.scoreHistory.shift()
+        }
+      }
+      const strum = updateStrumDetector(this.strumDetector, state.hands.strumming, timestamp)
+      if (strum) {
+        state.strum = this.describeStrum(strum)
+        state.lastStrumTs = this.lastStrumTs = strum.timestamp
+      }
+
+      // Free play: name whatever is being held instead of scoring a target
+      if (this.isFreePlay?.() && fingerAssignments.length > 0) {
+        state.recognizedChords = recognizeChord(fingerAssignments, {
+          tuning: tuning ?? undefined,
+          capo,
+          segments: fingerSegments,
+          mutedStrings: muteEvidence
+            ?.filter((m) => m.muted)
+            .map((m) => m.stringIdx),
+          topN: this.config.recognitionTopN,
+        })
+      }
+
       // Store finger assignments in state for access by UI
       state.fingerAssignments = fingerAssignments
+      state.fingerSegments = fingerSegments
+      state.muteEvidence = muteEvidence
 
       // Call callback with updated state
       this.callback(state)
@@ -195,10 +448,154 @@ export class FrameProcessor {
       console.error('Frame processing error:', error)
     }
 
-    this.frameCount++
     this.scheduleNextFrame()
   }
 
+  /**
+   * The saved calibration, rescaled to the processing frame and with any
+   * drift correction applied
+   */
+  private calibrationFretboard(): FretboardState | null {
+    const calibration = this.getCalibration ? this.getCalibration() : null
+    if (!calibration) {
+      return null
+    }
+
+    // A new calibration starts without corrections
+    if (calibration.homography !== this.correctedCalibration) {
+      this.correctedCalibration = calibration.homography
+      this.calibrationCorrection = null
+      this.driftMonitor = createDriftMonitor()
+      this.drift = undefined
+    }
+
+    const { processingWidth, processingHeight } = this.config
+    const toCalibrationFrame: Matrix3x3 = [
+      [(calibration.width ?? processingWidth) / processingWidth, 0, 0],
+      [0, (calibration.height ?? processingHeight) / processingHeight, 0],
+      [0, 0, 1],
+    ]
+
+    const homography = multiplyMatrices(
+      calibration.homography as Matrix3x3,
+      toCalibrationFrame
+    )
+
+    return {
+      homography: this.calibrationCorrection
+        ? multiplyMatrices(homography, this.calibrationCorrection)
+        : homography,
+      strings: [],
+      frets: [],
+      confidence: calibration.confidence,
+    }
+  }
+
+  /**
+   * Undistort a frame, reusing the pixel map while the lens is unchanged
+   */
+  private undistortFrame(imageData: ImageData, lens: LensDistortion): ImageData {
+    if (!this.undistortMap || this.undistortMap.lens !== lens) {
+      this.undistortMap = {
+        lens,
+        map: createUndistortMap(lens, imageData.width, imageData.height),
+      }
+    }
+    return remapImage(imageData, this.undistortMap.map)
+  }
+
+  /**
+   * Every few frames, compare the calibration with the live edges. Small
+   * rigid moves of the guitar or camera are corrected; anything else is
+   * reported so the user can re-calibrate.
+   */
+  private checkDrift(
+    imageData: ImageData,
+    calibration: FretboardState,
+    stringCount: number
+  ): CalibrationDrift | undefined {
+    this.framesSinceDriftCheck++
+    if (this.drift && this.framesSinceDriftCheck < this.config.driftCheckInterval) {
+      return this.drift
+    }
+    this.framesSinceDriftCheck = 0
+
+    const measurement = measureDrift(
+      cannyEdges(imageData),
+      imageData.width,
+      imageData.height,
+      calibration.homography as Matrix3x3,
+      stringCount
+    )
+    const { drift, correction } = updateDriftMonitor(this.driftMonitor, measurement)
+    if (correction) {
+      this.calibrationCorrection = applyDriftCorrection(
+        this.calibrationCorrection ?? identityHomography(),
+        correction
+      )
+    }
+
+    // The correction is applied once; later frames only report the state
+    this.drift = { ...drift, corrected: false }
+    return drift
+  }
+
+  /**
+   * Record each finger's latest sample and mark it pressed or hovering
+   * from its recent velocity and depth
+   */
+  private updatePressedState(assignments: FingerAssignment[]): void {
+    for (const assignment of assignments) {
+      const history = this.fingerHistory.get(assignment.fingerId) ?? []
+      history.push(assignment)
+      if (history.length > this.config.pressHistoryFrames) {
+        history.shift()
+      }
+      this.fingerHistory.set(assignment.fingerId, history)
+
+      assignment.pressed = isFingerPressed(assignment, history)
+    }
+  }
+
+  /**
+   * Attach audio confirmation and the chord score at the time of a strum
+   */
+  private describeStrum(strum: StrumEvent): StrumEvent {
+    const event = this.getLastOnset
+      ? confirmStrum(strum, this.getLastOnset(), this.config.strumOnsetWindowMs)
+      : { ...strum }
+
+    let nearest: { timestamp: number; score: number } | null = null
+    for (const entry of this.scoreHistory) {
+      if (
+        !nearest ||
+        Math.abs(entry.timestamp - strum.timestamp) < Math.abs(nearest.timestamp - strum.timestamp)
+      ) {
+        nearest = entry
+      }
+    }
+    if (nearest && Math.abs(nearest.timestamp - strum.timestamp) <= MAX_STRUM_SCORE_GAP_MS) {
+      event.chordScore = nearest.score
+    }
+    return event
+  }
+
+  /**
+   * Latest microphone frame if it is recent and not silent; a chord only
+   * shows up in the chroma while it rings after a strum
+   */
+  private getRingingAudio(timestamp: number): AudioFrame | null {
+    const frame = this.getAudioFrame ? this.getAudioFrame() : null
+    if (
+      !frame ||
+      timestamp - frame.timestamp > this.config.maxAudioAgeMs ||
+      frame.chroma.every((level) => level === 0)
+    ) {
+      return null
+    }
+    return frame
+  }
+
   private scheduleNextFrame(): void {
     if (!this.isRunning) return
 
@@ -227,8 +624,16 @@ export class FrameProcessor {
   }
 
   reset(): void {
-    this.frameCount = 0
+    resetFretboardTracker(this.fretboardTracker)
+    this.driftMonitor = createDriftMonitor()
+    this.drift = undefined
+    this.framesSinceDriftCheck = 0
+    this.calibrationCorrection = null
     this.stabilityTracker = createStabilityTracker(0.85, 2000)
+    this.fingerHistory.clear()
+    this.strumDetector = createStrumDetector()
+    this.scoreHistory = []
+    this.lastStrumTs = 0
     this.handTracker.reset()
   }
 
@@ -0,0 +1,44 @@
+// Microphone access wrapper for getUserMedia
+
+/**
+ * Request microphone access with processing that would distort pitch
+ * (echo cancellation, noise suppression, auto gain) turned off
+ */
+export async function requestMicrophoneAccess(deviceId?: string): Promise<MediaStream> {
+  try {
+    const audioConstraints: MediaTrackConstraints = {
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false,
+    }
+    if (deviceId) {
+      audioConstraints.deviceId = { exact: deviceId }
+    }
+
+    return await navigator.mediaDevices.getUserMedia({
+      audio: audioConstraints,
+      video: false,
+    })
+  } catch (error) {
+    console.error('Error accessing microphone:', error)
+    if (error instanceof Error) {
+      if (error.name === 'NotAllowedError') {
+        throw new Error('Microphone permission denied')
+      } else if (error.name === 'NotFoundError') {
+        throw new Error('No microphone found')
+      } else if (error.name === 'NotReadableError') {
+        throw new Error('Microphone is already in use')
+      }
+    }
+    throw error
+  }
+}
+
+/**
+ * Stop microphone stream
+ */
+export function stopMicrophoneStream(stream: MediaStream | null): void {
+  if (stream) {
+    stream.getTracks().forEach((track) => track.stop())
+  }
+}
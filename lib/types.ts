@@ -49,6 +49,26 @@ export interface FingerAssignment {
   fretIdx: number // 0 = open, 1+ = fretted
   confidence: number
   position: Point2D
+  z?: number // Tip depth from HandKeypoint.z (relative to the wrist, smaller = nearer the camera)
+  pressed?: boolean // From per-finger history; undefined when not tracked
+}
+
+// Strings covered by a whole finger (tip to knuckle), used for barres
+export interface FingerSegment {
+  fingerId: number
+  fretIdx: number
+  fromString: number
+  toString: number
+  confidence: number
+}
+
+// Evidence about whether a string that should be muted is silent.
+// Vision only ever reports muted: true; audio can also report a ringing string.
+export interface MuteEvidence {
+  stringIdx: number
+  muted: boolean
+  source: 'thumb' | 'finger' | 'audio'
+  confidence: number
 }
 
 // Chord matching types
@@ -57,35 +77,116 @@ export type StringConstraint =
   | { type: 'open' } // 0
   | { type: 'fretted'; fret: number; finger: number } // k with finger number
 
+// One finger (usually the index) laid flat across a range of strings
+export interface BarreConstraint {
+  finger: number
+  fret: number
+  fromString: number // highest string covered (e.g. 1)
+  toString: number // lowest string covered (e.g. 6)
+}
+
 export interface ChordTemplate {
   name: string
   strings: {
     [key: number]: StringConstraint // 1-6
   }
+  barre?: BarreConstraint
 }
 
+// How strictly finger numbers in a template are enforced
+export type FingerStrictness = 'ignore' | 'warn' | 'penalize'
+
 export interface StringMatchResult {
   ok: boolean
   reason?: string
   fingerId?: number
+  expectedFinger?: number
+  wrongFinger?: boolean // Correct fret, but not the template's finger
+  sources?: SourceScores<boolean> // Per-source verdicts, set when audio and vision are fused
+}
+
+// Sub-results per evidence source; a missing key means that source dropped out
+export interface SourceScores<T> {
+  vision?: T
+  audio?: T
 }
 
 export interface ChordMatchResult {
   score: number // 0-1
   perString: { [key: number]: StringMatchResult }
   stabilityMs: number
+  sources?: SourceScores<number> // Per-source scores, set when audio and vision are fused
+}
+
+// Free-play recognition: a chord name guessed from the held shape
+export interface ChordCandidate {
+  name: string // Chord symbol, e.g. "Am7"
+  displayName: string // e.g. "A Minor 7"
+  confidence: number // 0-1
+  source: 'template' | 'theory'
+}
+
+// Strumming-hand strokes across the strings
+export type StrumDirection = 'down' | 'up'
+
+export interface StrumEvent {
+  timestamp: number // ms, when the hand crossed the strings (peak speed)
+  direction: StrumDirection
+  speed: number // Peak hand speed, frame heights per second
+  audioConfirmed?: boolean // Whether a sound onset matched; unset without a microphone
+  chordScore?: number // Chord match at the moment of the strum
+}
+
+// Microphone analysis of one hop of audio
+export interface AudioFrame {
+  timestamp: number // ms, same clock as Date.now()
+  level: number // RMS, 0-1
+  chroma: number[] // 12 pitch classes (C=0), strongest = 1
+  onset: boolean // A note or strum started in this hop
 }
 
 // Calibration types
+export interface Tuning {
+  id: string // Preset id, or 'custom'
+  name: string
+  notes: number[] // MIDI note per string, index 0 = string 1 (highest)
+}
+
+export interface InstrumentProfile {
+  id: string
+  name: string
+  stringCount: number
+  tunings: Tuning[] // First entry is the default
+  scaleLengthMm: number // Nut to saddle
+  nutWidthMm: number
+}
+
 export interface CalibrationProfile {
   homography: number[][]
   strings: Line[]
   frets: Line[]
   guitarType: 'acoustic' | 'electric'
   handedness: 'right' | 'left'
+  instrumentId: string
+  tuning: Tuning
+  capo: number // 0 = no capo
+  scaleLengthMm: number // Nut to saddle, for the physical fret model
+  frameSize?: FrameSize // Frame the calibration was taken in; older profiles lack it
   timestamp: number
 }
 
+export interface FrameSize {
+  width: number
+  height: number
+}
+
+// Radial lens distortion of one camera. Radius is normalized by the
+// half-diagonal of the frame.
+export interface LensDistortion {
+  k1: number
+  k2: number
+}
+
 // Practice session types
 export interface PracticeSession {
   chordTarget: string
@@ -102,7 +203,114 @@ export interface SessionResult {
   timestamp: number
 }
 
+// A chord progression, each chord held for a number of beats
+export interface ProgressionStep {
+  chord: string
+  beats: number
+}
+
+export interface Progression {
+  name?: string
+  steps: ProgressionStep[]
+}
+
+// A song imported from ChordPro: lyrics with chords placed over them
+export interface SongChord {
+  chord: string
+  position: number // Character offset in the lyric line
+  stepIndex: number // Step in the song's progression, -1 if unknown
+}
+
+export interface SongLine {
+  lyrics: string
+  chords: SongChord[]
+  section?: string // e.g. "Chorus"
+}
+
+export interface Song {
+  title: string
+  artist?: string
+  tempo?: number
+  lines: SongLine[]
+  progression: Progression
+  unknownChords: string[] // Chords no template could be built for
+}
+
+// One timed switch in a transition drill
+export interface TransitionSwitch {
+  from: string
+  to: string
+  switchMs: number // From leaving the old shape to the new one being stable
+  clean: boolean
+  timestamp: number
+}
+
+export interface TransitionResult {
+  chords: string[]
+  switches: TransitionSwitch[]
+  cleanSwitchesPerMinute: number
+  averageSwitchMs: number
+  bestSwitchMs: number
+  durationMs: number
+  timestamp: number
+}
+
+// A chord change played to the metronome, judged at its downbeat
+export interface TimedChangeResult {
+  chord: string
+  bar: number
+  beat: number
+  stable: boolean // Target shape was held steady when the beat landed
+  score: number
+  timestamp: number
+}
+
+// One bar of a progression played to the metronome
+export interface BarResult {
+  bar: number
+  chords: string[] // Chords due in this bar
+  score: number // Mean score sampled on each beat (0 when off target)
+  clean: boolean // Right shape held steady on every beat
+}
+
+// Strumming pattern, e.g. "D-DU-UDU": one slot per subdivision of the bar
+export interface StrumPattern {
+  name?: string
+  slots: Array<StrumDirection | null> // null = rest (hand keeps moving but misses the strings)
+  beatsPerBar: number
+}
+
+export type StrumSlotStatus = 'hit' | 'wrong direction' | 'missed' | 'rest' | 'extra'
+
+export interface StrumSlotResult {
+  expected: StrumDirection | null
+  actual?: StrumDirection
+  errorMs?: number // Strum time minus slot time; negative = early
+  status: StrumSlotStatus
+}
+
+// One bar of a strumming pattern played to the metronome
+export interface StrumBarResult {
+  bar: number
+  slots: StrumSlotResult[]
+  missed: number
+  extra: number // Strums on rests, duplicates, or too far from any slot
+  meanErrorMs: number // Mean absolute timing error of strums that landed
+  accuracy: number // Correct strums / expected strums
+}
+
 // Frame processing state
+// 'drifting': the guitar or camera moved since calibrating; 'lost': the
+// expected lines no longer match anything in the frame
+export type DriftState = 'ok' | 'drifting' | 'lost'
+
+export interface CalibrationDrift {
+  state: DriftState
+  error: number // Median pixel distance from expected lines to live edges
+  coverage: number // Share of expected line samples with an edge nearby
+  corrected: boolean // A small shift or rotation was corrected automatically
+}
+
 export interface FrameState {
   fretboard: FretboardState
   hands: {
@@ -111,8 +319,13 @@ export interface FrameState {
   }
   chordTarget: string | null
   chordMatch: ChordMatchResult | null
+  recognizedChords?: ChordCandidate[]
   fingerAssignments?: FingerAssignment[]
+  fingerSegments?: FingerSegment[]
+  muteEvidence?: MuteEvidence[]
+  strum?: StrumEvent // Set on the frame a strum is detected
   lastStrumTs: number
+  drift?: CalibrationDrift // Latest check of the saved calibration
   metrics: {
     chordScore: number
     stableMs: number
@@ -1,6 +1,8 @@
-// Chord template definitions for starter open chord set
+// Chord template definitions for starter open and barre chord set
 
 import type { ChordTemplate } from '@/lib/types'
+import { generateVoicingsForName } from './chord-voicings'
+import { STANDARD_TUNING, isSameTuning } from './tunings'
 
 export const CHORD_TEMPLATES: Record<string, ChordTemplate> = {
   C: {
@@ -91,10 +93,116 @@ export const CHORD_TEMPLATES: Record<string, ChordTemplate> = {
       1: { type: 'fretted', fret: 1, finger: 1 }, // Index finger
     },
   },
+  F: {
+    name: 'F Major',
+    strings: {
+      6: { type: 'fretted', fret: 1, finger: 1 }, // Barre
+      5: { type: 'fretted', fret: 3, finger: 3 }, // Ring finger
+      4: { type: 'fretted', fret: 3, finger: 4 }, // Pinky
+      3: { type: 'fretted', fret: 2, finger: 2 }, // Middle finger
+      2: { type: 'fretted', fret: 1, finger: 1 }, // Barre
+      1: { type: 'fretted', fret: 1, finger: 1 }, // Barre
+    },
+    barre: { finger: 1, fret: 1, fromString: 1, toString: 6 },
+  },
+  Fm: {
+    name: 'F Minor',
+    strings: {
+      6: { type: 'fretted', fret: 1, finger: 1 }, // Barre
+      5: { type: 'fretted', fret: 3, finger: 3 }, // Ring finger
+      4: { type: 'fretted', fret: 3, finger: 4 }, // Pinky
+      3: { type: 'fretted', fret: 1, finger: 1 }, // Barre
+      2: { type: 'fretted', fret: 1, finger: 1 }, // Barre
+      1: { type: 'fretted', fret: 1, finger: 1 }, // Barre
+    },
+    barre: { finger: 1, fret: 1, fromString: 1, toString: 6 },
+  },
+  'F#m': {
+    name: 'F♯ Minor',
+    strings: {
+      6: { type: 'fretted', fret: 2, finger: 1 }, // Barre
+      5: { type: 'fretted', fret: 4, finger: 3 }, // Ring finger
+      4: { type: 'fretted', fret: 4, finger: 4 }, // Pinky
+      3: { type: 'fretted', fret: 2, finger: 1 }, // Barre
+      2: { type: 'fretted', fret: 2, finger: 1 }, // Barre
+      1: { type: 'fretted', fret: 2, finger: 1 }, // Barre
+    },
+    barre: { finger: 1, fret: 2, fromString: 1, toString: 6 },
+  },
+  Bb: {
+    name: 'B♭ Major',
+    strings: {
+      6: { type: 'muted' }, // X
+      5: { type: 'fretted', fret: 1, finger: 1 }, // Barre
+      4: { type: 'fretted', fret: 3, finger: 2 }, // Middle finger
+      3: { type: 'fretted', fret: 3, finger: 3 }, // Ring finger
+      2: { type: 'fretted', fret: 3, finger: 4 }, // Pinky
+      1: { type: 'fretted', fret: 1, finger: 1 }, // Barre
+    },
+    barre: { finger: 1, fret: 1, fromString: 1, toString: 5 },
+  },
+  B: {
+    name: 'B Major',
+    strings: {
+      6: { type: 'muted' }, // X
+      5: { type: 'fretted', fret: 2, finger: 1 }, // Barre
+      4: { type: 'fretted', fret: 4, finger: 2 }, // Middle finger
+      3: { type: 'fretted', fret: 4, finger: 3 }, // Ring finger
+      2: { type: 'fretted', fret: 4, finger: 4 }, // Pinky
+      1: { type: 'fretted', fret: 2, finger: 1 }, // Barre
+    },
+    barre: { finger: 1, fret: 2, fromString: 1, toString: 5 },
+  },
+  Bm: {
+    name: 'B Minor',
+    strings: {
+      6: { type: 'muted' }, // X
+      5: { type: 'fretted', fret: 2, finger: 1 }, // Barre
+      4: { type: 'fretted', fret: 4, finger: 3 }, // Ring finger
+      3: { type: 'fretted', fret: 4, finger: 4 }, // Pinky
+      2: { type: 'fretted', fret: 3, finger: 2 }, // Middle finger
+      1: { type: 'fretted', fret: 2, finger: 1 }, // Barre
+    },
+    barre: { finger: 1, fret: 2, fromString: 1, toString: 5 },
+  },
+  Cm: {
+    name: 'C Minor',
+    strings: {
+      6: { type: 'muted' }, // X
+      5: { type: 'fretted', fret: 3, finger: 1 }, // Barre
+      4: { type: 'fretted', fret: 5, finger: 3 }, // Ring finger
+      3: { type: 'fretted', fret: 5, finger: 4 }, // Pinky
+      2: { type: 'fretted', fret: 4, finger: 2 }, // Middle finger
+      1: { type: 'fretted', fret: 3, finger: 1 }, // Barre
+    },
+    barre: { finger: 1, fret: 3, fromString: 1, toString: 5 },
+  },
 }
 
 export const CHORD_NAMES = Object.keys(CHORD_TEMPLATES)
 
-export function getChordTemplate(name: string): ChordTemplate | null {
-  return CHORD_TEMPLATES[name] || null
+// Generated voicings, keyed by chord name and tuning
+const generatedTemplates = new Map<string, ChordTemplate | null>()
+
+/**
+ * Look up a chord template, generating the easiest voicing from theory
+ * for names not in the hand-written set (e.g. "F#m7"). The hand-written
+ * shapes assume standard tuning, so other tunings always use the generator.
+ */
+export function getChordTemplate(
+  name: string,
+  tuning: number[] = STANDARD_TUNING
+): ChordTemplate | null {
+  const isStandard = isSameTuning(tuning, STANDARD_TUNING)
+  if (isStandard && CHORD_TEMPLATES[name]) {
+    return CHORD_TEMPLATES[name]
+  }
+
+  const key = isStandard ? name : `${name}@${tuning.join(',')}`
+  if (!generatedTemplates.has(key)) {
+    const [easiest] = generateVoicingsForName(name, { tuning, limit: 1 })
+    generatedTemplates.set(key, easiest ? easiest.template : null)
+  }
+
+  return generatedTemplates.get(key) ?? null
 }
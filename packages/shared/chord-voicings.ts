@@ -0,0 +1,357 @@
+// Theory-driven chord voicing generator
+
+import type {
+  ChordTemplate,
+  StringConstraint,
+  BarreConstraint,
+} from '@/lib/types'
+import {
+  CHORD_QUALITIES,
+  chordPitchClasses,
+  formatChordName,
+  parseChordName,
+  type ChordQuality,
+} from './music-theory'
+import { STANDARD_TUNING } from './tunings'
+
+export interface VoicingOptions {
+  tuning?: number[] // MIDI notes, index 0 = string 1
+  minFret?: number // Lowest fret a finger may press
+  maxFret?: number // Highest fret a finger may press
+  maxSpan?: number // Frets between lowest and highest fretted note
+  allowThumb?: boolean // Thumb over the neck on the lowest string
+  bass?: number // Required bass pitch class (slash chords), defaults to root on linear tunings
+  name?: string // Display name, defaults to e.g. "F♯ Minor 7"
+  limit?: number
+}
+
+export interface ChordVoicing {
+  template: ChordTemplate
+  frets: number[] // Per string, index 0 = string 1; -1 = muted
+  difficulty: number // Lower is easier
+}
+
+interface Fingering {
+  fingers: { [stringIdx: number]: number }
+  barre?: BarreConstraint
+  usesThumb: boolean
+}
+
+const DEFAULT_OPTIONS = {
+  tuning: STANDARD_TUNING,
+  minFret: 0,
+  maxFret: 12,
+  maxSpan: 3,
+  allowThumb: false,
+  limit: 10,
+}
+
+/**
+ * Generate playable voicings for a chord, easiest first
+ */
+export function generateVoicings(
+  root: number,
+  quality: ChordQuality,
+  rootName: string,
+  options: VoicingOptions = {}
+): ChordVoicing[] {
+  const opts = { ...DEFAULT_OPTIONS, ...options }
+  const tuning = opts.tuning
+  const chordTones = chordPitchClasses(root, quality)
+  const requiredTones = CHORD_QUALITIES[quality].intervals
+    .filter((i) => !CHORD_QUALITIES[quality].optional.includes(i))
+    .map((i) => (root + i) % 12)
+  // Inversions are the norm on re-entrant tunings, so only a slash chord
+  // fixes their bass
+  const bass = opts.bass ?? (isReentrant(tuning) ? null : root)
+
+  // Candidate frets per string: muted, open, or any chord tone in the window.
+  // A slash bass outside the chord (G/F) is a candidate too; evaluateVoicing
+  // keeps it to the lowest sounding string.
+  const playable =
+    bass !== null && !chordTones.includes(bass) ? [...chordTones, bass] : chordTones
+  const lowestFret = Math.max(1, opts.minFret)
+  const candidates = tuning.map((openNote) => {
+    const frets = [-1]
+    if (playable.includes(openNote % 12)) {
+      frets.push(0)
+    }
+    for (let fret = lowestFret; fret <= opts.maxFret; fret++) {
+      if (playable.includes((openNote + fret) % 12)) {
+        frets.push(fret)
+      }
+    }
+    return frets
+  })
+
+  const voicings: ChordVoicing[] = []
+  const current: number[] = new Array(tuning.length).fill(-1)
+
+  const visit = (idx: number, minFretted: number, maxFretted: number) => {
+    if (idx === tuning.length) {
+      const voicing = evaluateVoicing(
+        current,
+        tuning,
+        chordTones,
+        requiredTones,
+        bass,
+        opts
+      )
+      if (voicing) {
+        voicings.push(voicing)
+      }
+      return
+    }
+
+    for (const fret of candidates[idx]) {
+      let lo = minFretted
+      let hi = maxFretted
+      if (fret > 0) {
+        lo = Math.min(lo, fret)
+        hi = Math.max(hi, fret)
+        if (hi - lo > opts.maxSpan) {
+          continue
+        }
+      }
+      current[idx] = fret
+      visit(idx + 1, lo, hi)
+    }
+    current[idx] = -1
+  }
+  visit(0, Infinity, -Infinity)
+
+  const name = opts.name ?? formatChordName(rootName, quality)
+  return voicings
+    .sort((a, b) => a.difficulty - b.difficulty)
+    .slice(0, opts.limit)
+    .map((v) => ({ ...v, template: { ...v.template, name } }))
+}
+
+/**
+ * Generate voicings from a chord symbol such as "F#m7" or "G/B"
+ */
+export function generateVoicingsForName(
+  chordName: string,
+  options: VoicingOptions = {}
+): ChordVoicing[] {
+  const parsed = parseChordName(chordName)
+  if (!parsed) {
+    return []
+  }
+
+  return generateVoicings(parsed.root, parsed.quality, parsed.rootName, {
+    bass: parsed.bass,
+    ...options,
+  })
+}
+
+/**
+ * Whether a tuning is re-entrant, with a string pitched above the one on
+ * its treble side (as the high g on a ukulele)
+ */
+export function isReentrant(tuning: number[]): boolean {
+  return tuning.some((note, i) => i > 0 && note > tuning[i - 1])
+}
+
+/**
+ * Check one fret combination and rate how hard it is to finger. `bass` is
+ * the pitch class the lowest note must have, or null when any chord tone may
+ * sit lowest.
+ */
+function evaluateVoicing(
+  frets: number[],
+  tuning: number[],
+  chordTones: number[],
+  requiredTones: number[],
+  bass: number | null,
+  opts: typeof DEFAULT_OPTIONS
+): ChordVoicing | null {
+  const stringCount = tuning.length
+  const reentrant = isReentrant(tuning)
+  const sounding = frets.flatMap((f, i) => (f < 0 ? [] : [i]))
+  if (sounding.length === 0) {
+    return null
+  }
+
+  // On a linear tuning, muted strings only on the bass side so the chord can
+  // be strummed; a re-entrant tuning has no bass side to mute
+  if (!reentrant) {
+    const lowestString = sounding[sounding.length - 1]
+    if (sounding.length !== lowestString + 1) {
+      return null
+    }
+  }
+
+  const soundingCount = sounding.length
+  if (soundingCount < Math.min(3, stringCount)) {
+    return null
+  }
+
+  // The bass is the lowest pitch sounding, wherever its string lies. A capo
+  // raises every string alike, so the frets relative to it are enough.
+  const bassString = sounding.reduce((low, i) =>
+    tuning[i] + frets[i] < tuning[low] + frets[low] ? i : low
+  )
+  const pitchClasses = frets.map((f, i) => (f < 0 ? -1 : (tuning[i] + f) % 12))
+  if (bass !== null && pitchClasses[bassString] !== bass) {
+    return null
+  }
+  // A note outside the chord may only be the slash bass
+  if (
+    sounding.some(
+      (i) => i !== bassString && !chordTones.includes(pitchClasses[i])
+    )
+  ) {
+    return null
+  }
+  if (!requiredTones.every((tone) => pitchClasses.includes(tone))) {
+    return null
+  }
+
+  const fingering = assignFingers(frets, stringCount, opts.allowThumb)
+  if (!fingering) {
+    return null
+  }
+
+  const fretted = frets.filter((f) => f > 0)
+  const span = fretted.length > 0 ? Math.max(...fretted) - Math.min(...fretted) : 0
+  const fingerCount = new Set(Object.values(fingering.fingers)).size
+  const omittedTones = chordTones.filter(
+    (tone) => !pitchClasses.includes(tone)
+  ).length
+  const difficulty =
+    span +
+    fingerCount * 0.5 +
+    (fingering.barre ? 2.5 : 0) +
+    (fingering.usesThumb ? 2 : 0) +
+    // Without a bass side to leave out of the strum, a mute must be damped
+    (stringCount - soundingCount) * (reentrant ? 2 : 0.5) +
+    Math.max(0, ...fretted.map((f) => f - 5)) * 0.2 +
+    Math.max(0, Math.min(Infinity, ...fretted) - 1) * 0.2 +
+    omittedTones * 0.5
+
+  const strings: { [key: number]: StringConstraint } = {}
+  for (let i = 0; i < stringCount; i++) {
+    const stringIdx = i + 1
+    if (frets[i] < 0) {
+      strings[stringIdx] = { type: 'muted' }
+    } else if (frets[i] === 0) {
+      strings[stringIdx] = { type: 'open' }
+    } else {
+      strings[stringIdx] = {
+        type: 'fretted',
+        fret: frets[i],
+        finger: fingering.fingers[stringIdx],
+      }
+    }
+  }
+
+  const template: ChordTemplate = { name: '', strings }
+  if (fingering.barre) {
+    template.barre = fingering.barre
+  }
+
+  return { template, frets: [...frets], difficulty }
+}
+
+/**
+ * Assign fingers 1-4 (and optionally the thumb) to fretted notes, lowest
+ * fret first, falling back to an index-finger barre when needed
+ */
+function assignFingers(
+  frets: number[],
+  stringCount: number,
+  allowThumb: boolean
+): Fingering | null {
+  const notes = frets
+    .map((fret, i) => ({ stringIdx: i + 1, fret }))
+    .filter((n) => n.fret > 0)
+    .sort((a, b) => a.fret - b.fret || b.stringIdx - a.stringIdx)
+
+  const plain = fingerInOrder(notes, 1)
+  if (plain) {
+    return { fingers: plain, usesThumb: false }
+  }
+
+  const barred = fingerWithBarre(notes, frets)
+  if (barred) {
+    return barred
+  }
+
+  // Thumb wrapped over the neck takes the lowest string
+  const lowest = notes.find((n) => n.stringIdx === stringCount)
+  if (!allowThumb || !lowest) {
+    return null
+  }
+  const rest = notes.filter((n) => n !== lowest)
+  const restPlain = fingerInOrder(rest, 1)
+  const restBarred = restPlain ? null : fingerWithBarre(rest, frets)
+  if (!restPlain && !restBarred) {
+    return null
+  }
+
+  return {
+    fingers: { ...(restPlain ?? restBarred!.fingers), [lowest.stringIdx]: 0 },
+    barre: restBarred?.barre,
+    usesThumb: true,
+  }
+}
+
+function fingerInOrder(
+  notes: Array<{ stringIdx: number; fret: number }>,
+  firstFinger: number
+): { [stringIdx: number]: number } | null {
+  if (notes.length > 5 - firstFinger) {
+    return null
+  }
+
+  const fingers: { [stringIdx: number]: number } = {}
+  notes.forEach((note, i) => {
+    fingers[note.stringIdx] = firstFinger + i
+  })
+  return fingers
+}
+
+function fingerWithBarre(
+  notes: Array<{ stringIdx: number; fret: number }>,
+  frets: number[]
+): Fingering | null {
+  if (notes.length === 0) {
+    return null
+  }
+
+  const barreFret = notes[0].fret
+  const underBarre = notes.filter((n) => n.fret === barreFret)
+  if (underBarre.length < 2) {
+    return null
+  }
+
+  const fromString = Math.min(...underBarre.map((n) => n.stringIdx))
+  const toString = Math.max(...underBarre.map((n) => n.stringIdx))
+
+  // Every string under the barre must be fretted at or above it
+  for (let s = fromString; s <= toString; s++) {
+    if (frets[s - 1] < barreFret) {
+      return null
+    }
+  }
+
+  const above = fingerInOrder(
+    notes.filter((n) => n.fret > barreFret),
+    2
+  )
+  if (!above) {
+    return null
+  }
+
+  const fingers: { [stringIdx: number]: number } = { ...above }
+  underBarre.forEach((n) => {
+    fingers[n.stringIdx] = 1
+  })
+
+  return {
+    fingers,
+    barre: { finger: 1, fret: barreFret, fromString, toString },
+    usesThumb: false,
+  }
+}
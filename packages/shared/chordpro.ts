@@ -0,0 +1,102 @@
+// ChordPro parser: lyrics with inline [chords] into a playable song
+
+import type { Song, SongLine, ProgressionStep } from '@/lib/types'
+import { getChordTemplate } from './chord-templates'
+import { STANDARD_TUNING } from './tunings'
+import { DEFAULT_BEATS_PER_CHORD } from './progressions'
+
+export interface ChordProOptions {
+  beatsPerChord?: number // ChordPro has no durations, so every chord gets this
+  tuning?: number[] // Unknown chords are resolved for this tuning
+}
+
+const SECTION_NAMES: { [directive: string]: string } = {
+  start_of_chorus: 'Chorus',
+  soc: 'Chorus',
+  start_of_verse: 'Verse',
+  sov: 'Verse',
+  start_of_bridge: 'Bridge',
+  sob: 'Bridge',
+}
+
+/**
+ * Parse a ChordPro song. Every chord becomes a progression step in order;
+ * chords no template can be found or generated for are flagged instead.
+ */
+export function parseChordPro(text: string, options: ChordProOptions = {}): Song {
+  const beats = Math.max(1, options.beatsPerChord ?? DEFAULT_BEATS_PER_CHORD)
+  const tuning = options.tuning ?? STANDARD_TUNING
+
+  const song: Song = {
+    title: 'Untitled',
+    lines: [],
+    progression: { steps: [] },
+    unknownChords: [],
+  }
+  const steps: ProgressionStep[] = []
+  let section: string | undefined
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trimEnd()
+    if (line.trim().startsWith('#')) {
+      continue
+    }
+
+    const directive = /^\s*\{([^:}]+)(?::\s*([^}]*))?\}\s*$/.exec(line)
+    if (directive) {
+      const name = directive[1].trim().toLowerCase()
+      const value = directive[2]?.trim() ?? ''
+      if (name === 'title' || name === 't') {
+        song.title = value
+      } else if (name === 'artist' || name === 'subtitle' || name === 'st') {
+        song.artist = song.artist ?? value
+      } else if (name === 'tempo') {
+        const tempo = parseInt(value, 10)
+        song.tempo = isFinite(tempo) && tempo > 0 ? tempo : undefined
+      } else if (SECTION_NAMES[name]) {
+        section = value || SECTION_NAMES[name]
+      } else if (name.startsWith('end_of_') || /^eo[cvb]$/.test(name)) {
+        section = undefined
+      }
+      continue
+    }
+
+    const songLine: SongLine = { lyrics: '', chords: [] }
+    if (section) {
+      songLine.section = section
+    }
+
+    // Split "[G]Lyrics [C]here" into chords and the lyric text between them
+    const chordPattern = /\[([^\]]*)\]/g
+    let lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = chordPattern.exec(line)) !== null) {
+      songLine.lyrics += line.slice(lastIndex, match.index)
+      lastIndex = match.index + match[0].length
+
+      const chord = match[1].trim()
+      if (!chord) continue
+
+      let stepIndex = -1
+      if (getChordTemplate(chord, tuning)) {
+        stepIndex = steps.length
+        steps.push({ chord, beats })
+      } else if (!song.unknownChords.includes(chord)) {
+        song.unknownChords.push(chord)
+      }
+      songLine.chords.push({ chord, position: songLine.lyrics.length, stepIndex })
+    }
+    songLine.lyrics += line.slice(lastIndex)
+
+    // Collapse runs of blank lines
+    const isBlank = songLine.lyrics.trim() === '' && songLine.chords.length === 0
+    const previous = song.lines[song.lines.length - 1]
+    if (isBlank && (!previous || (previous.lyrics === '' && previous.chords.length === 0))) {
+      continue
+    }
+    song.lines.push(songLine)
+  }
+
+  song.progression = { name: song.title, steps }
+  return song
+}
@@ -0,0 +1,69 @@
+// Instrument profiles: string count, tunings and physical dimensions
+
+import type { InstrumentProfile } from '@/lib/types'
+import { TUNINGS } from './tunings'
+
+export const INSTRUMENTS: Record<string, InstrumentProfile> = {
+  guitar: {
+    id: 'guitar',
+    name: 'Guitar (6-string)',
+    stringCount: 6,
+    tunings: Object.values(TUNINGS),
+    scaleLengthMm: 648,
+    nutWidthMm: 43,
+  },
+  guitar7: {
+    id: 'guitar7',
+    name: 'Guitar (7-string)',
+    stringCount: 7,
+    tunings: [
+      { id: 'standard7', name: 'Standard (BEADGBE)', notes: [64, 59, 55, 50, 45, 40, 35] },
+      { id: 'dropA7', name: 'Drop A (AEADGBE)', notes: [64, 59, 55, 50, 45, 40, 33] },
+    ],
+    scaleLengthMm: 648,
+    nutWidthMm: 48,
+  },
+  bass4: {
+    id: 'bass4',
+    name: 'Bass (4-string)',
+    stringCount: 4,
+    tunings: [
+      { id: 'bassStandard', name: 'Standard (EADG)', notes: [43, 38, 33, 28] },
+      { id: 'bassDropD', name: 'Drop D (DADG)', notes: [43, 38, 33, 26] },
+    ],
+    scaleLengthMm: 864,
+    nutWidthMm: 38,
+  },
+  bass5: {
+    id: 'bass5',
+    name: 'Bass (5-string)',
+    stringCount: 5,
+    tunings: [
+      { id: 'bass5Standard', name: 'Standard (BEADG)', notes: [43, 38, 33, 28, 23] },
+    ],
+    scaleLengthMm: 864,
+    nutWidthMm: 45,
+  },
+  ukulele: {
+    id: 'ukulele',
+    name: 'Ukulele (soprano/concert)',
+    stringCount: 4,
+    tunings: [
+      // Re-entrant: string 4 (G) sits above string 3 (C)
+      { id: 'ukuleleStandard', name: 'Standard (gCEA)', notes: [69, 64, 60, 67] },
+      { id: 'ukuleleLowG', name: 'Low G (GCEA)', notes: [69, 64, 60, 55] },
+      { id: 'ukuleleD', name: 'D tuning (aDF#B)', notes: [71, 66, 62, 69] },
+    ],
+    scaleLengthMm: 350,
+    nutWidthMm: 35,
+  },
+}
+
+export const DEFAULT_INSTRUMENT = INSTRUMENTS.guitar
+
+/**
+ * Look up an instrument profile, falling back to 6-string guitar
+ */
+export function getInstrument(id: string | null | undefined): InstrumentProfile {
+  return (id && INSTRUMENTS[id]) || DEFAULT_INSTRUMENT
+}
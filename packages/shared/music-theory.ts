@@ -0,0 +1,208 @@
+// Note names, chord qualities and chord-name parsing
+
+export const NOTE_NAMES = [
+  'C',
+  'C#',
+  'D',
+  'D#',
+  'E',
+  'F',
+  'F#',
+  'G',
+  'G#',
+  'A',
+  'A#',
+  'B',
+]
+
+const NATURAL_PITCH_CLASSES: { [letter: string]: number } = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11,
+}
+
+export type ChordQuality =
+  | 'maj'
+  | 'min'
+  | '7'
+  | 'maj7'
+  | 'm7'
+  | '6'
+  | 'm6'
+  | '9'
+  | 'sus2'
+  | 'sus4'
+  | 'dim'
+  | 'dim7'
+  | 'm7b5'
+  | 'aug'
+  | 'add9'
+
+export interface ChordQualityDefinition {
+  label: string
+  symbol: string // Suffix in chord symbols, e.g. "m7"
+  intervals: number[] // Semitones above the root
+  optional: number[] // Intervals a voicing may leave out (usually the 5th)
+}
+
+export const CHORD_QUALITIES: Record<ChordQuality, ChordQualityDefinition> = {
+  maj: { label: 'Major', symbol: '', intervals: [0, 4, 7], optional: [] },
+  min: { label: 'Minor', symbol: 'm', intervals: [0, 3, 7], optional: [] },
+  '7': { label: '7', symbol: '7', intervals: [0, 4, 7, 10], optional: [7] },
+  maj7: { label: 'Major 7', symbol: 'maj7', intervals: [0, 4, 7, 11], optional: [7] },
+  m7: { label: 'Minor 7', symbol: 'm7', intervals: [0, 3, 7, 10], optional: [7] },
+  '6': { label: '6', symbol: '6', intervals: [0, 4, 7, 9], optional: [7] },
+  m6: { label: 'Minor 6', symbol: 'm6', intervals: [0, 3, 7, 9], optional: [7] },
+  '9': { label: '9', symbol: '9', intervals: [0, 4, 7, 10, 2], optional: [7] },
+  sus2: { label: 'Sus2', symbol: 'sus2', intervals: [0, 2, 7], optional: [] },
+  sus4: { label: 'Sus4', symbol: 'sus4', intervals: [0, 5, 7], optional: [] },
+  dim: { label: 'Diminished', symbol: 'dim', intervals: [0, 3, 6], optional: [] },
+  dim7: { label: 'Diminished 7', symbol: 'dim7', intervals: [0, 3, 6, 9], optional: [] },
+  m7b5: {
+    label: 'Half-Diminished',
+    symbol: 'm7b5',
+    intervals: [0, 3, 6, 10],
+    optional: [],
+  },
+  aug: { label: 'Augmented', symbol: 'aug', intervals: [0, 4, 8], optional: [] },
+  add9: { label: 'Add9', symbol: 'add9', intervals: [0, 4, 7, 2], optional: [] },
+}
+
+// Chord-symbol suffixes, as written in chord charts, for each quality
+const QUALITY_SUFFIXES: { [suffix: string]: ChordQuality } = {
+  '': 'maj',
+  M: 'maj',
+  maj: 'maj',
+  m: 'min',
+  min: 'min',
+  '-': 'min',
+  '7': '7',
+  dom7: '7',
+  maj7: 'maj7',
+  M7: 'maj7',
+  'Δ7': 'maj7',
+  m7: 'm7',
+  min7: 'm7',
+  '-7': 'm7',
+  '6': '6',
+  m6: 'm6',
+  '9': '9',
+  sus2: 'sus2',
+  sus: 'sus4',
+  sus4: 'sus4',
+  dim: 'dim',
+  '°': 'dim',
+  dim7: 'dim7',
+  '°7': 'dim7',
+  m7b5: 'm7b5',
+  'ø': 'm7b5',
+  aug: 'aug',
+  '+': 'aug',
+  add9: 'add9',
+  add2: 'add9',
+}
+
+export interface ParsedChordName {
+  root: number // Pitch class 0-11 (C=0)
+  rootName: string // As written, e.g. "F#" or "Bb"
+  quality: ChordQuality
+  bass?: number // Pitch class of a slash-chord bass note
+}
+
+/**
+ * Parse a pitch name such as "F#", "Bb" or "E♭" into a pitch class
+ */
+export function parsePitchClass(name: string): number | null {
+  const match = /^([A-G])([#♯b♭]?)$/.exec(name.trim())
+  if (!match) {
+    return null
+  }
+
+  let pitchClass = NATURAL_PITCH_CLASSES[match[1]]
+  if (match[2] === '#' || match[2] === '♯') {
+    pitchClass += 1
+  } else if (match[2] === 'b' || match[2] === '♭') {
+    pitchClass -= 1
+  }
+
+  return (pitchClass + 12) % 12
+}
+
+/**
+ * Parse a chord symbol such as "F#m7", "Bbmaj7" or "G/B"
+ */
+export function parseChordName(name: string): ParsedChordName | null {
+  const match = /^([A-G][#♯b♭]?)([^/]*)(?:\/([A-G][#♯b♭]?))?$/.exec(
+    name.trim()
+  )
+  if (!match) {
+    return null
+  }
+
+  const root = parsePitchClass(match[1])
+  const quality = QUALITY_SUFFIXES[match[2]]
+  if (root === null || quality === undefined) {
+    return null
+  }
+
+  const parsed: ParsedChordName = { root, rootName: match[1], quality }
+  if (match[3]) {
+    const bass = parsePitchClass(match[3])
+    if (bass === null) {
+      return null
+    }
+    parsed.bass = bass
+  }
+
+  return parsed
+}
+
+/**
+ * Pitch classes that make up a chord
+ */
+export function chordPitchClasses(root: number, quality: ChordQuality): number[] {
+  return CHORD_QUALITIES[quality].intervals.map((i) => (root + i) % 12)
+}
+
+/**
+ * Human-readable chord name, e.g. "F♯ Minor 7"
+ */
+export function formatChordName(rootName: string, quality: ChordQuality): string {
+  const root = rootName.replace('#', '♯').replace(/^([A-G])b$/, '$1♭')
+  return `${root} ${CHORD_QUALITIES[quality].label}`
+}
+
+/**
+ * Chord symbol from parts, e.g. "F#m7" or "G/B"
+ */
+export function chordSymbol(
+  root: number,
+  quality: ChordQuality,
+  bass?: number
+): string {
+  const symbol = `${NOTE_NAMES[root]}${CHORD_QUALITIES[quality].symbol}`
+  return bass !== undefined && bass !== root
+    ? `${symbol}/${NOTE_NAMES[bass]}`
+    : symbol
+}
+
+/**
+ * Transpose a chord symbol by a number of semitones (e.g. for a capo)
+ */
+export function transposeChordName(name: string, semitones: number): string | null {
+  const parsed = parseChordName(name)
+  if (!parsed) {
+    return null
+  }
+
+  const shift = (pc: number) => (((pc + semitones) % 12) + 12) % 12
+  return chordSymbol(
+    shift(parsed.root),
+    parsed.quality,
+    parsed.bass !== undefined ? shift(parsed.bass) : undefined
+  )
+}
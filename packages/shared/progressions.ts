@@ -0,0 +1,99 @@
+// Chord progressions: parsing and beat lookups
+
+import type { Progression, ProgressionStep } from '@/lib/types'
+import { CHORD_TEMPLATES } from './chord-templates'
+import { parseChordName } from './music-theory'
+
+export const DEFAULT_BEATS_PER_CHORD = 4
+
+/**
+ * Check that a chord name is one we can build a template for
+ */
+export function isKnownChord(name: string): boolean {
+  return name in CHORD_TEMPLATES || parseChordName(name) !== null
+}
+
+/**
+ * Build a progression where every chord gets the same number of beats
+ */
+export function createProgression(
+  chords: string[],
+  beatsPerChord: number = DEFAULT_BEATS_PER_CHORD,
+  name?: string
+): Progression {
+  const beats = Math.max(1, Math.round(beatsPerChord))
+  return { name, steps: chords.map((chord) => ({ chord, beats })) }
+}
+
+/**
+ * Parse a progression such as "G D Em C, 4 beats each" or "G:4 D:2 Em:2 C:8".
+ * A per-chord ":n" overrides the shared beat count.
+ */
+export function parseProgression(text: string): Progression | null {
+  let body = text.trim()
+  let beatsEach = DEFAULT_BEATS_PER_CHORD
+
+  const each = /[,;]?\s*(\d+)\s*beats?(?:\s+each)?\s*$/i.exec(body)
+  if (each) {
+    beatsEach = parseInt(each[1], 10)
+    body = body.slice(0, each.index)
+  }
+
+  const tokens = body.split(/[\s,|]+/).filter(Boolean)
+  if (tokens.length === 0 || beatsEach < 1) {
+    return null
+  }
+
+  const steps: ProgressionStep[] = []
+  for (const token of tokens) {
+    const match = /^([^:]+)(?::(\d+))?$/.exec(token)
+    if (!match || !isKnownChord(match[1])) {
+      return null
+    }
+
+    const beats = match[2] ? parseInt(match[2], 10) : beatsEach
+    if (beats < 1) {
+      return null
+    }
+    steps.push({ chord: match[1], beats })
+  }
+
+  return { steps }
+}
+
+/**
+ * Format a progression the way parseProgression reads it
+ */
+export function formatProgression(progression: Progression): string {
+  const beats = progression.steps.map((s) => s.beats)
+  if (beats.every((b) => b === beats[0])) {
+    return `${progression.steps.map((s) => s.chord).join(' ')}, ${beats[0]} beats each`
+  }
+  return progression.steps.map((s) => `${s.chord}:${s.beats}`).join(' ')
+}
+
+/**
+ * Beats in one pass through the progression
+ */
+export function progressionLength(progression: Progression): number {
+  return progression.steps.reduce((sum, step) => sum + step.beats, 0)
+}
+
+/**
+ * Step index and beats left in it at a beat count, looping the progression
+ */
+export function stepAtBeat(
+  progression: Progression,
+  beat: number
+): { index: number; beatsLeft: number } {
+  const total = progressionLength(progression)
+  let offset = total > 0 ? beat % total : 0
+  for (let i = 0; i < progression.steps.length; i++) {
+    const { beats } = progression.steps[i]
+    if (offset < beats) {
+      return { index: i, beatsLeft: beats - offset }
+    }
+    offset -= beats
+  }
+  return { index: 0, beatsLeft: progression.steps[0]?.beats ?? 0 }
+}
@@ -2,10 +2,28 @@
 
 import type {
   FingerAssignment,
+  FingerSegment,
+  FingerStrictness,
+  MuteEvidence,
   ChordTemplate,
   StringMatchResult,
   ChordMatchResult,
 } from '@/lib/types'
+import { relativeFret } from './tunings'
+
+export interface ScoringOptions {
+  segments?: FingerSegment[] // Whole-finger coverage, needed for barres
+  capo?: number // Template frets are relative to the capo
+  stringCount?: number // From the instrument profile, defaults to 6
+  fingerStrictness?: FingerStrictness // Defaults to 'ignore'
+  mutes?: MuteEvidence[] // Omit when muting was not checked at all
+}
+
+// Below this, a piece of mute evidence is ignored
+const MIN_MUTE_CONFIDENCE = 0.5
+
+// Below this, a finger segment is too far from flat across one fret to barre
+export const MIN_SEGMENT_CONFIDENCE = 0.7
 
 /**
  * Find the best finger assignment for a given string
@@ -18,7 +36,10 @@ export function bestFingerOnString(
     return null
   }
 
-  const candidates = fingers.filter((f) => f && f.stringIdx === stringIdx)
+  // Hovering fingers don't hold a string down
+  const candidates = fingers.filter(
+    (f) => f && f.stringIdx === stringIdx && f.pressed !== false
+  )
   if (candidates.length === 0) {
     return null
   }
@@ -29,16 +50,98 @@ export function bestFingerOnString(
   )
 }
 
+/**
+ * Check whether a string is held down by the template's barre finger.
+ * The finger segment (not only its tip) must lie flat across the barre fret
+ * and span the string.
+ */
+export function isStringBarred(
+  segments: FingerSegment[],
+  template: ChordTemplate,
+  stringIdx: number,
+  capo: number = 0
+): boolean {
+  const barre = template.barre
+  if (!barre) {
+    return false
+  }
+
+  const segment = segments.find((seg) => seg && seg.fingerId === barre.finger)
+  if (
+    !segment ||
+    segment.confidence < MIN_SEGMENT_CONFIDENCE ||
+    Math.abs(relativeFret(segment.fretIdx, capo) - barre.fret) > 0.5
+  ) {
+    return false
+  }
+
+  return stringIdx >= segment.fromString && stringIdx <= segment.toString
+}
+
+/**
+ * Check whether a string's constraint is meant to be covered by the barre
+ */
+function isBarreString(template: ChordTemplate, stringIdx: number): boolean {
+  const barre = template.barre
+  const expected = template.strings[stringIdx]
+  if (!barre || !expected || expected.type !== 'fretted') {
+    return false
+  }
+
+  return (
+    stringIdx >= barre.fromString &&
+    stringIdx <= barre.toString &&
+    expected.fret === barre.fret &&
+    expected.finger === barre.finger
+  )
+}
+
+/**
+ * Decide whether a string that should be muted is silent.
+ * A confident audio report that the string rang overrides the camera.
+ */
+export function checkMutedString(
+  mutes: MuteEvidence[],
+  stringIdx: number
+): StringMatchResult {
+  const evidence = mutes.filter(
+    (m) => m.stringIdx === stringIdx && m.confidence >= MIN_MUTE_CONFIDENCE
+  )
+
+  if (evidence.some((m) => m.source === 'audio' && !m.muted)) {
+    return { ok: false, reason: 'muted string ringing' }
+  }
+
+  const best = evidence
+    .filter((m) => m.muted)
+    .sort((a, b) => b.confidence - a.confidence)[0]
+  if (!best) {
+    return { ok: false, reason: 'string not muted' }
+  }
+
+  const by = {
+    thumb: 'thumb over the neck',
+    finger: 'finger leaning on it',
+    audio: 'no sound',
+  }
+  return { ok: true, reason: `muted (${by[best.source]})` }
+}
+
 /**
  * Compute penalty for extra fingers not in template
  */
 export function computeExtraFingerPenalty(
   fingers: FingerAssignment[],
-  template: ChordTemplate
+  template: ChordTemplate,
+  capo: number = 0
 ): number {
   let extraCount = 0
 
   for (const finger of fingers) {
+    if (finger.pressed === false) {
+      continue
+    }
+
     const stringConstraint = template.strings[finger.stringIdx]
     if (!stringConstraint) {
       extraCount++
@@ -50,7 +153,7 @@ export function computeExtraFingerPenalty(
       extraCount++
     } else if (stringConstraint.type === 'fretted') {
       // Check if finger matches expected fret
-      if (finger.fretIdx !== stringConstraint.fret) {
+      if (relativeFret(finger.fretIdx, capo) !== stringConstraint.fret) {
         extraCount += 0.5 // Partial penalty for wrong fret
       }
     }
@@ -65,7 +168,8 @@ export function computeExtraFingerPenalty(
  */
 export function scoreChord(
   fingers: FingerAssignment[],
-  template: ChordTemplate
+  template: ChordTemplate,
+  options: ScoringOptions = {}
 ): ChordMatchResult {
   if (!template || !template.strings) {
     return {
@@ -75,15 +179,19 @@ export function scoreChord(
     }
   }
 
+  const capo = options.capo ?? 0
+  const stringCount = options.stringCount ?? 6
+  const fingerStrictness = options.fingerStrictness ?? 'ignore'
   let score = 0
   let maxScore = 0
   const perString: { [key: number]: StringMatchResult } = {}
 
-  // Score each string (1-6)
-  for (let s = 1; s <= 6; s++) {
+  // Score each string (1 = highest pitched)
+  for (let s = 1; s <= stringCount; s++) {
     maxScore += 1
     const expected = template.strings[s]
     const observed = bestFingerOnString(fingers || [], s)
+    const observedFret = observed ? relativeFret(observed.fretIdx, capo) : 0
 
     if (!expected) {
       // No constraint = don't penalize
@@ -93,15 +201,21 @@ export function scoreChord(
     }
 
     if (expected.type === 'muted') {
-      // MVP cannot reliably detect muting, so don't penalize much
-      perString[s] = { ok: true, reason: 'muting not enforced' }
-      score += 0.6
+      if (!options.mutes) {
+        // Nothing to judge muting by: leave the string out of the score
+        perString[s] = { ok: true, reason: 'muting not checked' }
+        maxScore -= 1
+        continue
+      }
+
+      perString[s] = checkMutedString(options.mutes, s)
+      score += perString[s].ok ? 1 : 0
       continue
     }
 
     if (expected.type === 'open') {
       // Open string: check no finger blocking
-      if (observed === null || observed.fretIdx <= 0) {
+      if (observed === null || observedFret <= 0) {
         perString[s] = { ok: true }
         score += 1
       } else {
@@ -114,27 +228,72 @@ export function scoreChord(
       continue
     }
 
+    // Expected fretted under a barre: the finger segment must cover it
+    if (isBarreString(template, s)) {
+      const barreFinger = template.barre!.finger
+      if (isStringBarred(options.segments || [], template, s, capo)) {
+        perString[s] = { ok: true, fingerId: barreFinger }
+        score += 1
+      } else {
+        perString[s] = {
+          ok: false,
+          reason: options.segments?.some((seg) => seg.fingerId === barreFinger)
+            ? 'barre not covering string'
+            : 'missing barre',
+          fingerId: barreFinger,
+        }
+      }
+      continue
+    }
+
     // Expected fretted
     if (
       observed !== null &&
-      Math.abs(observed.fretIdx - expected.fret) <= 0.5 // Tolerance
+      Math.abs(observedFret - expected.fret) <= 0.5 // Tolerance
     ) {
-      perString[s] = { ok: true, fingerId: observed.fingerId }
-      score += 1
+      if (
+        fingerStrictness !== 'ignore' &&
+        observed.fingerId !== expected.finger
+      ) {
+        // Right note, wrong finger: flag it, and only half credit if strict
+        const penalize = fingerStrictness === 'penalize'
+        perString[s] = {
+          ok: !penalize,
+          reason: 'correct fret, wrong finger',
+          fingerId: observed.fingerId,
+          expectedFinger: expected.finger,
+          wrongFinger: true,
+        }
+        score += penalize ? 0.5 : 1
+      } else {
+        perString[s] = { ok: true, fingerId: observed.fingerId }
+        score += 1
+      }
     } else {
+      const hovering = (fingers || []).some(
+        (f) =>
+          f.stringIdx === s &&
+          f.pressed === false &&
+          Math.abs(relativeFret(f.fretIdx, capo) - expected.fret) <= 0.5
+      )
       perString[s] = {
         ok: false,
         reason: observed
-          ? `wrong fret (expected ${expected.fret}, got ${observed.fretIdx})`
-          : 'missing finger',
+          ? `wrong fret (expected ${expected.fret}, got ${observedFret})`
+          : hovering
+            ? 'finger not pressed'
+            : 'missing finger',
       }
       score += 0
     }
   }
 
   // Penalize extra fingers
-  const extraPenalty = computeExtraFingerPenalty(fingers, template)
-  const finalScore = Math.max(0, Math.min(1, score / maxScore - extraPenalty))
+  const extraPenalty = computeExtraFingerPenalty(fingers, template, capo)
+  const finalScore = Math.max(
+    0,
+    Math.min(1, (maxScore > 0 ? score / maxScore : 1) - extraPenalty)
+  )
 
   return {
     score: finalScore,
@@ -0,0 +1,61 @@
+// Strumming patterns: parsing and presets
+
+import type { StrumPattern } from '@/lib/types'
+
+export const STRUM_PATTERNS: Record<string, StrumPattern> = {
+  quarters: { name: 'Quarter notes', slots: ['down', 'down', 'down', 'down'], beatsPerBar: 4 },
+  eighths: {
+    name: 'Eighth notes',
+    slots: ['down', 'up', 'down', 'up', 'down', 'up', 'down', 'up'],
+    beatsPerBar: 4,
+  },
+  folk: {
+    name: 'Folk (D-DU-UDU)',
+    slots: ['down', null, 'down', 'up', null, 'up', 'down', 'up'],
+    beatsPerBar: 4,
+  },
+  waltz: { name: 'Waltz (D-DUDU)', slots: ['down', null, 'down', 'up', 'down', 'up'], beatsPerBar: 3 },
+}
+
+/**
+ * Parse a pattern such as "D-DU-UDU" (D = down, U = up, - = rest). The slots
+ * are spread evenly over the bar, so there must be a whole number per beat.
+ */
+export function parseStrumPattern(text: string, beatsPerBar: number = 4): StrumPattern | null {
+  const symbols = text.replace(/\s+/g, '').toUpperCase()
+  if (symbols.length === 0 || beatsPerBar < 1 || symbols.length % beatsPerBar !== 0) {
+    return null
+  }
+
+  const slots: StrumPattern['slots'] = []
+  for (const symbol of symbols) {
+    if (symbol === 'D') {
+      slots.push('down')
+    } else if (symbol === 'U') {
+      slots.push('up')
+    } else if (symbol === '-' || symbol === 'X' || symbol === '.') {
+      slots.push(null)
+    } else {
+      return null
+    }
+  }
+  if (slots.every((slot) => slot === null)) {
+    return null
+  }
+
+  return { slots, beatsPerBar }
+}
+
+/**
+ * Format a pattern the way parseStrumPattern reads it
+ */
+export function formatStrumPattern(pattern: StrumPattern): string {
+  return pattern.slots.map((slot) => (slot === 'down' ? 'D' : slot === 'up' ? 'U' : '-')).join('')
+}
+
+/**
+ * Slots per beat, e.g. 2 for eighth notes in 4/4
+ */
+export function slotsPerBeat(pattern: StrumPattern): number {
+  return pattern.slots.length / pattern.beatsPerBar
+}
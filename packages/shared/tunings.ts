@@ -0,0 +1,85 @@
+// Tuning presets and helpers for alternate tunings and capo
+
+import type { Tuning } from '@/lib/types'
+import { NOTE_NAMES, parsePitchClass } from './music-theory'
+
+// MIDI notes per string, index 0 = string 1 (high E)
+export const STANDARD_TUNING = [64, 59, 55, 50, 45, 40]
+
+export const MAX_CAPO_FRET = 12
+
+export const TUNINGS: Record<string, Tuning> = {
+  standard: { id: 'standard', name: 'Standard (EADGBE)', notes: STANDARD_TUNING },
+  dropD: { id: 'dropD', name: 'Drop D (DADGBE)', notes: [64, 59, 55, 50, 45, 38] },
+  dadgad: { id: 'dadgad', name: 'DADGAD', notes: [62, 57, 55, 50, 45, 38] },
+  openG: { id: 'openG', name: 'Open G (DGDGBD)', notes: [62, 59, 55, 50, 43, 38] },
+  halfStepDown: {
+    id: 'halfStepDown',
+    name: 'Half-step down (E♭A♭D♭G♭B♭E♭)',
+    notes: [63, 58, 54, 49, 44, 39],
+  },
+}
+
+export const DEFAULT_TUNING = TUNINGS.standard
+
+/**
+ * Check whether two tunings have the same notes
+ */
+export function isSameTuning(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((note, i) => note === b[i])
+}
+
+/**
+ * Convert a physical fret index to one relative to the capo
+ * (the capo acts as the nut, so anything at or behind it reads as 0)
+ */
+export function relativeFret(fretIdx: number, capo: number = 0): number {
+  return Math.max(0, fretIdx - capo)
+}
+
+/**
+ * Format a tuning low string first, e.g. "D A D G B E"
+ */
+export function formatTuning(notes: number[]): string {
+  return [...notes]
+    .reverse()
+    .map((note) => NOTE_NAMES[note % 12])
+    .join(' ')
+}
+
+/**
+ * Parse a custom tuning written low string first, e.g. "D A D G B E".
+ * Octaves are picked nearest to the reference tuning on each string.
+ */
+export function parseTuning(
+  text: string,
+  reference: number[] = STANDARD_TUNING
+): Tuning | null {
+  const names = text.trim().split(/[\s,]+/).filter(Boolean)
+  if (names.length !== reference.length) {
+    return null
+  }
+
+  const notes: number[] = []
+  const lowToHigh = [...reference].reverse()
+  for (let i = 0; i < names.length; i++) {
+    const pitchClass = parsePitchClass(names[i])
+    if (pitchClass === null) {
+      return null
+    }
+
+    // Nearest note with this pitch class, within a tritone of the reference
+    const ref = lowToHigh[i]
+    let offset = (pitchClass - (ref % 12) + 12) % 12
+    if (offset > 6) {
+      offset -= 12
+    }
+    notes.push(ref + offset)
+  }
+
+  return {
+    id: 'custom',
+    name: `Custom (${names.join(' ')})`,
+    notes: notes.reverse(),
+  }
+}
@@ -1,6 +1,11 @@
 import { describe, it, expect } from 'vitest'
 import { scoreChord } from '@/packages/shared/scoring'
-import type { FingerAssignment, ChordTemplate } from '@/lib/types'
+import { CHORD_TEMPLATES } from '@/packages/shared/chord-templates'
+import { STANDARD_TUNING } from '@/packages/shared/tunings'
+import { fuseChordMatches } from '@/features/chord-trainer/ChordFusion'
+import { generateFeedback } from '@/features/chord-trainer/ChordMatcher'
+import { matchChordAudio } from '@/features/audio/AudioChordMatcher'
+import type { FingerAssignment, FingerSegment, ChordTemplate } from '@/lib/types'
 
 describe('Chord Matching', () => {
   const eMajorTemplate: ChordTemplate = {
@@ -64,4 +69,218 @@ describe('Chord Matching', () => {
     expect(result.perString[2].ok).toBe(true) // Open string
     expect(result.perString[1].ok).toBe(true) // Open string
   })
+
+  it('should read fret positions relative to the capo', () => {
+    // E shape played with a capo on fret 2
+    const fingers: FingerAssignment[] = [
+      { fingerId: 1, stringIdx: 3, fretIdx: 3, confidence: 0.9, position: { x: 0, y: 0 } },
+      { fingerId: 2, stringIdx: 5, fretIdx: 4, confidence: 0.9, position: { x: 0, y: 0 } },
+      { fingerId: 3, stringIdx: 4, fretIdx: 4, confidence: 0.9, position: { x: 0, y: 0 } },
+    ]
+
+    expect(scoreChord(fingers, eMajorTemplate).score).toBeLessThan(0.6)
+
+    const result = scoreChord(fingers, eMajorTemplate, { capo: 2 })
+    expect(result.score).toBeGreaterThan(0.9)
+    expect(result.perString[3].ok).toBe(true)
+    expect(result.perString[6].ok).toBe(true)
+  })
+
+  describe('barre chords', () => {
+    const fMajor = CHORD_TEMPLATES.F
+    const fretted: FingerAssignment[] = [
+      { fingerId: 1, stringIdx: 6, fretIdx: 1, confidence: 0.9, position: { x: 0, y: 0 } },
+      { fingerId: 2, stringIdx: 3, fretIdx: 2, confidence: 0.9, position: { x: 0, y: 0 } },
+      { fingerId: 3, stringIdx: 5, fretIdx: 3, confidence: 0.9, position: { x: 0, y: 0 } },
+      { fingerId: 4, stringIdx: 4, fretIdx: 3, confidence: 0.9, position: { x: 0, y: 0 } },
+    ]
+
+    it('should credit strings covered by the barre segment', () => {
+      const segments: FingerSegment[] = [
+        { fingerId: 1, fretIdx: 1, fromString: 1, toString: 6, confidence: 0.9 },
+      ]
+
+      const result = scoreChord(fretted, fMajor, { segments })
+      expect(result.score).toBeGreaterThan(0.9)
+      expect(result.perString[1].ok).toBe(true)
+      expect(result.perString[2].ok).toBe(true)
+      expect(result.perString[6].ok).toBe(true)
+    })
+
+    it('should not credit the barre from the fingertip alone', () => {
+      const result = scoreChord(fretted, fMajor)
+      expect(result.perString[1].ok).toBe(false)
+      expect(result.perString[1].reason).toBe('missing barre')
+      expect(result.score).toBeLessThan(0.6)
+    })
+
+    it('should flag strings the barre segment does not reach', () => {
+      const segments: FingerSegment[] = [
+        { fingerId: 1, fretIdx: 1, fromString: 3, toString: 6, confidence: 0.9 },
+      ]
+
+      const result = scoreChord(fretted, fMajor, { segments })
+      expect(result.perString[6].ok).toBe(true)
+      expect(result.perString[1].ok).toBe(false)
+      expect(result.perString[1].reason).toBe('barre not covering string')
+    })
+
+    it('should not credit a finger lying diagonally across the frets', () => {
+      // Tip on the 1st fret but the knuckle end drifts into the 2nd
+      const segments: FingerSegment[] = [
+        { fingerId: 1, fretIdx: 1, fromString: 1, toString: 6, confidence: 0.4 },
+      ]
+
+      const result = scoreChord(fretted, fMajor, { segments })
+      expect(result.perString[1].ok).toBe(false)
+      expect(result.perString[2].ok).toBe(false)
+      expect(result.score).toBeLessThan(0.6)
+    })
+  })
+
+  describe('finger numbers', () => {
+    // Index and middle swapped on strings 3 and 5
+    const swapped: FingerAssignment[] = [
+      { fingerId: 2, stringIdx: 3, fretIdx: 1, confidence: 0.9, position: { x: 0, y: 0 } },
+      { fingerId: 1, stringIdx: 5, fretIdx: 2, confidence: 0.9, position: { x: 0, y: 0 } },
+      { fingerId: 3, stringIdx: 4, fretIdx: 2, confidence: 0.9, position: { x: 0, y: 0 } },
+    ]
+
+    it('should ignore finger numbers by default', () => {
+      const result = scoreChord(swapped, eMajorTemplate)
+      expect(result.perString[3].ok).toBe(true)
+      expect(result.perString[3].wrongFinger).toBeUndefined()
+    })
+
+    it('should flag but still credit wrong fingers when warning', () => {
+      const result = scoreChord(swapped, eMajorTemplate, { fingerStrictness: 'warn' })
+      expect(result.perString[3].ok).toBe(true)
+      expect(result.perString[3].wrongFinger).toBe(true)
+      expect(result.perString[3].expectedFinger).toBe(1)
+      expect(result.perString[4].wrongFinger).toBeUndefined()
+      expect(result.score).toBeGreaterThan(0.9)
+    })
+
+    it('should penalize wrong fingers in strict mode', () => {
+      const result = scoreChord(swapped, eMajorTemplate, { fingerStrictness: 'penalize' })
+      expect(result.perString[5].ok).toBe(false)
+      expect(result.perString[5].reason).toBe('correct fret, wrong finger')
+      expect(result.score).toBeLessThan(0.9)
+    })
+  })
+
+  describe('muted strings', () => {
+    const cMajor = CHORD_TEMPLATES.C
+    const fretted: FingerAssignment[] = [
+      { fingerId: 1, stringIdx: 2, fretIdx: 1, confidence: 0.9, position: { x: 0, y: 0 } },
+      { fingerId: 2, stringIdx: 4, fretIdx: 2, confidence: 0.9, position: { x: 0, y: 0 } },
+      { fingerId: 3, stringIdx: 5, fretIdx: 3, confidence: 0.9, position: { x: 0, y: 0 } },
+    ]
+
+    it('should leave muted strings out of the score when not checked', () => {
+      const result = scoreChord(fretted, cMajor)
+      expect(result.score).toBe(1)
+      expect(result.perString[6].reason).toBe('muting not checked')
+    })
+
+    it('should pass a string muted by the thumb', () => {
+      const result = scoreChord(fretted, cMajor, {
+        mutes: [{ stringIdx: 6, muted: true, source: 'thumb', confidence: 0.9 }],
+      })
+      expect(result.score).toBe(1)
+      expect(result.perString[6].ok).toBe(true)
+      expect(result.perString[6].reason).toBe('muted (thumb over the neck)')
+    })
+
+    it('should fail a muted string with no evidence', () => {
+      const result = scoreChord(fretted, cMajor, { mutes: [] })
+      expect(result.perString[6].ok).toBe(false)
+      expect(result.perString[6].reason).toBe('string not muted')
+      expect(result.score).toBeLessThan(0.9)
+    })
+
+    it('should trust audio that hears the string ringing', () => {
+      const result = scoreChord(fretted, cMajor, {
+        mutes: [
+          { stringIdx: 6, muted: true, source: 'finger', confidence: 0.8 },
+          { stringIdx: 6, muted: false, source: 'audio', confidence: 0.9 },
+        ],
+      })
+      expect(result.perString[6].ok).toBe(false)
+      expect(result.perString[6].reason).toBe('muted string ringing')
+    })
+  })
+
+  it('should not credit hovering fingers', () => {
+    const fingers: FingerAssignment[] = [
+      { fingerId: 1, stringIdx: 3, fretIdx: 1, confidence: 0.9, position: { x: 0, y: 0 }, pressed: true },
+      { fingerId: 2, stringIdx: 5, fretIdx: 2, confidence: 0.9, position: { x: 0, y: 0 }, pressed: true },
+      { fingerId: 3, stringIdx: 4, fretIdx: 2, confidence: 0.9, position: { x: 0, y: 0 }, pressed: false },
+    ]
+
+    const result = scoreChord(fingers, eMajorTemplate)
+    expect(result.perString[4].ok).toBe(false)
+    expect(result.perString[4].reason).toBe('finger not pressed')
+    expect(result.score).toBeLessThan(0.9)
+  })
+
+  describe('audio fusion', () => {
+    const eMajorFingers: FingerAssignment[] = [
+      { fingerId: 1, stringIdx: 3, fretIdx: 1, confidence: 0.9, position: { x: 0, y: 0 } },
+      { fingerId: 2, stringIdx: 5, fretIdx: 2, confidence: 0.9, position: { x: 0, y: 0 } },
+      { fingerId: 3, stringIdx: 4, fretIdx: 2, confidence: 0.9, position: { x: 0, y: 0 } },
+    ]
+
+    // Chroma with E, G# and B, optionally leaving some out
+    const eMajorChroma = (missing: number[] = []) => {
+      const chroma = new Array(12).fill(0)
+      for (const pc of [4, 8, 11]) {
+        chroma[pc] = missing.includes(pc) ? 0 : 1
+      }
+      return chroma
+    }
+
+    it('should report a fretted string that looks right but does not sound', () => {
+      const vision = scoreChord(eMajorFingers, eMajorTemplate)
+      const audio = matchChordAudio(eMajorChroma([8]), eMajorTemplate) // G# missing
+      const fused = fuseChordMatches(vision, audio, eMajorTemplate)!
+
+      expect(fused.perString[3]).toMatchObject({
+        ok: false,
+        reason: 'buzzing',
+        sources: { vision: true, audio: false },
+      })
+      expect(fused.sources).toEqual({ vision: vision.score, audio: audio.score })
+      expect(fused.score).toBeLessThan(vision.score)
+      expect(generateFeedback(fused, 'E', STANDARD_TUNING)).toContain(
+        'Shape is right but the G string is buzzing'
+      )
+    })
+
+    it('should report an open string that does not ring', () => {
+      const vision = scoreChord(eMajorFingers, eMajorTemplate)
+      const audio = matchChordAudio(eMajorChroma([11]), eMajorTemplate) // B missing
+      const fused = fuseChordMatches(vision, audio, eMajorTemplate)!
+
+      expect(fused.perString[2].reason).toBe('open string not ringing')
+      expect(generateFeedback(fused, 'E', STANDARD_TUNING)).toContain(
+        'Let the B string ring open'
+      )
+    })
+
+    it('should fall back to whichever source is available', () => {
+      const vision = scoreChord(eMajorFingers, eMajorTemplate)
+      const audio = matchChordAudio(eMajorChroma(), eMajorTemplate)
+
+      expect(fuseChordMatches(vision, null, eMajorTemplate)).toMatchObject({
+        score: vision.score,
+        sources: { vision: vision.score },
+      })
+      expect(fuseChordMatches(null, audio, eMajorTemplate)).toMatchObject({
+        score: audio.score,
+        sources: { audio: audio.score },
+      })
+      expect(fuseChordMatches(null, null, eMajorTemplate)).toBeNull()
+    })
+  })
 })
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import {
+  recognizeChord,
+  nameFromTheory,
+  soundingNotes,
+} from '@/features/chord-trainer/ChordRecognizer'
+import { STANDARD_TUNING } from '@/packages/shared/tunings'
+import type { FingerAssignment, FingerSegment } from '@/lib/types'
+
+function finger(fingerId: number, stringIdx: number, fretIdx: number): FingerAssignment {
+  return { fingerId, stringIdx, fretIdx, confidence: 0.9, position: { x: 0, y: 0 } }
+}
+
+describe('Chord Recognition', () => {
+  const cShape = [finger(1, 2, 1), finger(2, 4, 2), finger(3, 5, 3)]
+
+  it('should name a held open chord', () => {
+    const [best] = recognizeChord(cShape, { mutedStrings: [6] })
+    expect(best.name).toBe('C')
+    expect(best.confidence).toBeGreaterThan(0.8)
+  })
+
+  it('should report the sounding chord when a capo is on', () => {
+    // C shape two frets up, capo on 2, sounds as D
+    const shifted = cShape.map((f) => ({ ...f, fretIdx: f.fretIdx + 2 }))
+    const [best] = recognizeChord(shifted, { capo: 2, mutedStrings: [6] })
+    expect(best.name).toBe('D')
+  })
+
+  it('should limit results to the top candidates', () => {
+    expect(recognizeChord(cShape, { topN: 2 })).toHaveLength(2)
+  })
+
+  it('should derive names for shapes outside the template library', () => {
+    // x02010 = A minor 7 (A E G C E)
+    const [best] = nameFromTheory([45, 52, 55, 60, 64]).sort(
+      (a, b) => b.confidence - a.confidence
+    )
+    expect(best.name).toBe('Am7')
+    expect(best.source).toBe('theory')
+  })
+
+  describe('barre chords', () => {
+    // F barre: index flat across the 1st fret, its tip on string 6
+    const fShape = [finger(1, 6, 1), finger(2, 3, 2), finger(3, 5, 3), finger(4, 4, 3)]
+    const segments: FingerSegment[] = [
+      { fingerId: 1, fretIdx: 1, fromString: 1, toString: 6, confidence: 0.9 },
+    ]
+
+    it('should sound the strings under the barre at the barre fret', () => {
+      // F C F A C F, string 1 first
+      expect(soundingNotes(fShape, STANDARD_TUNING, 0, [], segments)).toEqual([
+        65, 60, 57, 53, 48, 41,
+      ])
+    })
+
+    it('should name the barre chord from its notes', () => {
+      const notes = soundingNotes(fShape, STANDARD_TUNING, 0, [], segments)
+      const [best] = nameFromTheory(notes).sort((a, b) => b.confidence - a.confidence)
+      expect(best.name).toBe('F')
+      expect(best.confidence).toBe(1)
+
+      expect(recognizeChord(fShape, { segments })[0].name).toBe('F')
+    })
+  })
+})
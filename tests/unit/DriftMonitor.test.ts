@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyDriftCorrection,
+  createDriftMonitor,
+  measureDrift,
+  updateDriftMonitor,
+  type DriftMeasurement,
+} from '@/features/ml/fretboard/DriftMonitor'
+import { cannyEdges } from '@/features/ml/fretboard/HoughDetector'
+import { computeHomography, invertHomography } from '@/features/calibration/homography'
+import type { Matrix3x3 } from '@/features/calibration/homography'
+import {
+  planeFretLines,
+  planeStringLines,
+  toImageLines,
+} from '@/features/ml/fretboard/FretGeometry'
+
+const WIDTH = 320
+const HEIGHT = 240
+
+// Calibration: plane unit square spans x 100-220, y 20-220
+const CALIBRATION = computeHomography(
+  [
+    { x: 100, y: 20 },
+    { x: 220, y: 20 },
+    { x: 100, y: 220 },
+    { x: 220, y: 220 },
+  ],
+  [
+    { x: 0, y: 0 },
+    { x: 1, y: 0 },
+    { x: 0, y: 1 },
+    { x: 1, y: 1 },
+  ]
+)!
+
+// Draw the calibration's strings and frets, moved by (dx, dy)
+function fretboardEdges(dx: number, dy: number): Uint8Array {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4).fill(30)
+  const inverse = invertHomography(CALIBRATION)!
+  const lines = toImageLines(inverse, [...planeStringLines(6), ...planeFretLines()])
+  for (const line of lines) {
+    for (let t = 0; t <= 1; t += 0.002) {
+      const x = Math.round(line.start.x + (line.end.x - line.start.x) * t + dx)
+      const y = Math.round(line.start.y + (line.end.y - line.start.y) * t + dy)
+      if (x < 0 || y < 0 || x >= WIDTH || y >= HEIGHT) continue
+      const idx = (y * WIDTH + x) * 4
+      data[idx] = data[idx + 1] = data[idx + 2] = 220
+      data[idx + 3] = 255
+    }
+  }
+  return cannyEdges({ width: WIDTH, height: HEIGHT, data, colorSpace: 'srgb' } as ImageData)
+}
+
+describe('DriftMonitor', () => {
+  it('should find little error when nothing has moved', () => {
+    const result = measureDrift(fretboardEdges(0, 0), WIDTH, HEIGHT, CALIBRATION, 6)
+
+    expect(result.error).toBeLessThanOrEqual(1)
+    expect(result.coverage).toBeGreaterThan(0.9)
+  })
+
+  it('should measure a shift and correct it', () => {
+    const edges = fretboardEdges(6, -4)
+    const result = measureDrift(edges, WIDTH, HEIGHT, CALIBRATION, 6)
+
+    expect(result.error).toBeGreaterThan(3)
+    expect(result.correction).not.toBeNull()
+    expect(result.correction!.dx).toBeCloseTo(6, 0)
+    expect(result.correction!.dy).toBeCloseTo(-4, 0)
+
+    const corrected = applyDriftCorrection(CALIBRATION as Matrix3x3, result.correction!)
+    const after = measureDrift(edges, WIDTH, HEIGHT, corrected, 6)
+    expect(after.error).toBeLessThanOrEqual(1)
+  })
+
+  it('should report the calibration lost when no edges match', () => {
+    const blank = new Uint8Array(WIDTH * HEIGHT)
+    expect(measureDrift(blank, WIDTH, HEIGHT, CALIBRATION, 6).coverage).toBe(0)
+  })
+
+  it('should only change state after repeated checks', () => {
+    const monitor = createDriftMonitor({ confirmChecks: 2 })
+    const drifted: DriftMeasurement = { error: 8, coverage: 0.8, correction: null }
+
+    expect(updateDriftMonitor(monitor, drifted).drift.state).toBe('ok')
+    expect(updateDriftMonitor(monitor, drifted).drift.state).toBe('drifting')
+
+    const ok: DriftMeasurement = { error: 1, coverage: 0.8, correction: null }
+    updateDriftMonitor(monitor, ok)
+    expect(updateDriftMonitor(monitor, ok).drift.state).toBe('ok')
+  })
+
+  it('should hand back a correction once drift is confirmed', () => {
+    const monitor = createDriftMonitor({ confirmChecks: 2 })
+    const correction = { dx: 5, dy: 0, angle: 0, center: { x: 160, y: 120 } }
+    const drifted: DriftMeasurement = { error: 5, coverage: 0.8, correction }
+
+    expect(updateDriftMonitor(monitor, drifted).correction).toBeNull()
+    const second = updateDriftMonitor(monitor, drifted)
+    expect(second.correction).toBe(correction)
+    expect(second.drift).toMatchObject({ state: 'ok', corrected: true })
+  })
+})
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest'
+import {
+  detectMarker,
+  markerCells,
+  markerFretboardHomography,
+  MARKER_GRID,
+  MARKER_MARGIN_MM,
+  MARKER_SIZE_MM,
+} from '@/features/calibration/FiducialMarker'
+import {
+  computeHomography,
+  invertHomography,
+  multiplyMatrixPoint,
+} from '@/features/calibration/homography'
+import type { Matrix3x3 } from '@/features/calibration/homography'
+import { planeFretY, planeStringX } from '@/features/ml/fretboard/FretGeometry'
+import type { Point2D } from '@/lib/types'
+
+const WIDTH = 320
+const HEIGHT = 240
+
+/**
+ * Render the marker card on a dark fretboard. `corners` are the image
+ * positions of the marker's printed top-left, top-right, bottom-right and
+ * bottom-left corners; `strings` draws thin dark lines across the card.
+ */
+function renderCard(corners: Point2D[], strings: number[] = []): ImageData {
+  const toImage = computeHomography(
+    [
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+      { x: 1, y: 1 },
+      { x: 0, y: 1 },
+    ],
+    corners
+  )!
+  const toMarker = invertHomography(toImage)!
+  const cells = markerCells()
+  const margin = MARKER_MARGIN_MM / MARKER_SIZE_MM
+
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4)
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const m = multiplyMatrixPoint(toMarker, { x, y })
+      let value = 60 // Fretboard
+      if (
+        m.x >= -margin &&
+        m.x < 1 + margin &&
+        m.y >= -margin &&
+        m.y < 1 + margin
+      ) {
+        value = 235 // Card
+        if (m.x >= 0 && m.x < 1 && m.y >= 0 && m.y < 1) {
+          const r = Math.floor(m.y * MARKER_GRID)
+          const c = Math.floor(m.x * MARKER_GRID)
+          value = cells[r][c] ? 20 : 235
+        }
+      }
+      if (strings.some((sx) => Math.abs(x - sx) < 1)) {
+        value = 90
+      }
+      const i = (y * WIDTH + x) * 4
+      data[i] = data[i + 1] = data[i + 2] = value
+      data[i + 3] = 255
+    }
+  }
+
+  return { width: WIDTH, height: HEIGHT, data, colorSpace: 'srgb' } as ImageData
+}
+
+function maxCornerError(found: Point2D[], expected: Point2D[]): number {
+  return Math.max(
+    ...found.map((p, i) => Math.hypot(p.x - expected[i].x, p.y - expected[i].y))
+  )
+}
+
+describe('detectMarker', () => {
+  const corners = [
+    { x: 120.3, y: 70.6 },
+    { x: 201.2, y: 76.1 },
+    { x: 196.4, y: 158.7 },
+    { x: 114.8, y: 151.9 },
+  ]
+
+  it('should find the marker corners to within a pixel', () => {
+    const detection = detectMarker(renderCard(corners))
+
+    expect(detection).not.toBeNull()
+    expect(detection!.bitErrors).toBe(0)
+    expect(maxCornerError(detection!.corners, corners)).toBeLessThan(0.75)
+  })
+
+  it('should report corners in printed order when the card is rotated', () => {
+    // Card turned a quarter: the printed top-left is now at the top right
+    const rotated = [corners[3], corners[0], corners[1], corners[2]]
+    const detection = detectMarker(renderCard(rotated))
+
+    expect(detection).not.toBeNull()
+    expect(maxCornerError(detection!.corners, rotated)).toBeLessThan(0.75)
+  })
+
+  it('should see the marker through strings crossing the card', () => {
+    const detection = detectMarker(renderCard(corners, [130, 150, 170, 190]))
+
+    expect(detection).not.toBeNull()
+    expect(maxCornerError(detection!.corners, corners)).toBeLessThan(1)
+  })
+
+  it('should return null without a marker', () => {
+    const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4)
+    for (let i = 0; i < WIDTH * HEIGHT; i++) {
+      // A plain dark square, no code inside
+      const x = i % WIDTH
+      const y = Math.floor(i / WIDTH)
+      const value = x > 100 && x < 180 && y > 60 && y < 140 ? 20 : 235
+      data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = value
+      data[i * 4 + 3] = 255
+    }
+
+    expect(
+      detectMarker({
+        width: WIDTH,
+        height: HEIGHT,
+        data,
+        colorSpace: 'srgb',
+      } as ImageData)
+    ).toBeNull()
+  })
+})
+
+describe('markerFretboardHomography', () => {
+  it('should place the nut and frets from the scale length', () => {
+    // 2 px per mm, marker top-left at (100, 50)
+    const scale = 2
+    const toPixels = (u: number, v: number) => ({
+      x: 100 + u * scale,
+      y: 50 + v * scale,
+    })
+    const corners = [
+      toPixels(0, 0),
+      toPixels(MARKER_SIZE_MM, 0),
+      toPixels(MARKER_SIZE_MM, MARKER_SIZE_MM),
+      toPixels(0, MARKER_SIZE_MM),
+    ]
+    const scaleLength = 648
+    const nutWidth = 43
+    const homography = markerFretboardHomography(
+      corners,
+      scaleLength,
+      nutWidth
+    ) as Matrix3x3
+
+    // Card top edge on the nut, centred: the nut's midpoint
+    const nutCenter = toPixels(MARKER_SIZE_MM / 2, -MARKER_MARGIN_MM)
+    const nut = multiplyMatrixPoint(homography, nutCenter)
+    expect(nut.x).toBeCloseTo(0.5, 6)
+    expect(nut.y).toBeCloseTo(0, 6)
+
+    // String 1 and the 3rd fret
+    const fret3Mm = scaleLength * (1 - Math.pow(2, -3 / 12))
+    const point = multiplyMatrixPoint(
+      homography,
+      toPixels(
+        MARKER_SIZE_MM / 2 - nutWidth / 2 + nutWidth / 12,
+        fret3Mm - MARKER_MARGIN_MM
+      )
+    )
+    expect(point.x).toBeCloseTo(planeStringX(1, 6), 6)
+    expect(point.y).toBeCloseTo(planeFretY(3), 6)
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import {
+  PLANE_FRET_SPAN,
+  fretDistance,
+  fretPositions,
+  fretShiftMatrix,
+  planeFretY,
+  planeYToFret,
+} from '@/features/ml/fretboard/FretGeometry'
+import { multiplyMatrixPoint } from '@/features/calibration/homography'
+
+describe('FretGeometry', () => {
+  it('should place the 12th fret at half the scale length', () => {
+    expect(fretDistance(12, 648)).toBeCloseTo(324, 6)
+    expect(fretDistance(1, 648)).toBeCloseTo(36.37, 2) // Rule of 18 gives 36
+  })
+
+  it('should shrink fret spacing towards the bridge', () => {
+    const positions = fretPositions(648, 5)
+    const gaps = positions.slice(1).map((p, i) => p - positions[i])
+    expect(positions[0]).toBe(0)
+    for (let i = 1; i < gaps.length; i++) {
+      expect(gaps[i] / gaps[i - 1]).toBeCloseTo(Math.pow(2, -1 / 12), 6)
+    }
+  })
+
+  it('should map plane y back to the fret', () => {
+    expect(planeFretY(0)).toBe(0)
+    expect(planeFretY(PLANE_FRET_SPAN)).toBeCloseTo(1, 10)
+    expect(planeYToFret(planeFretY(3))).toBeCloseTo(3, 10)
+    expect(planeYToFret(100)).toBe(Infinity)
+  })
+
+  it('should renumber frets with an affine shift', () => {
+    const shifted = multiplyMatrixPoint(fretShiftMatrix(2), { x: 0.5, y: planeFretY(1) })
+    expect(shifted.y).toBeCloseTo(planeFretY(3), 10)
+    expect(shifted.x).toBe(0.5)
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createFretboardTracker,
+  needsFretboardDetection,
+  updateFretboardTracker,
+} from '@/features/ml/fretboard/FretboardTracker'
+import {
+  computeHomography,
+  invertHomography,
+  multiplyMatrixPoint,
+} from '@/features/calibration/homography'
+import type { Matrix3x3 } from '@/features/calibration/homography'
+import type { FretboardState } from '@/lib/types'
+
+const UNIT = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+  { x: 1, y: 1 },
+]
+
+// A fretboard whose nut-left corner sits at (x, y)
+function detection(x: number, y: number, confidence = 0.9): FretboardState {
+  const corners = [
+    { x, y },
+    { x: x + 120, y },
+    { x, y: y + 200 },
+    { x: x + 120, y: y + 200 },
+  ]
+  return {
+    homography: computeHomography(corners, UNIT),
+    strings: [],
+    frets: [],
+    confidence,
+  }
+}
+
+function nutLeft(state: FretboardState) {
+  return multiplyMatrixPoint(invertHomography(state.homography as Matrix3x3)!, UNIT[0])
+}
+
+describe('FretboardTracker', () => {
+  it('should only re-detect at the interval while tracking well', () => {
+    const tracker = createFretboardTracker({ redetectInterval: 3 })
+    expect(needsFretboardDetection(tracker)).toBe(true)
+
+    const state = updateFretboardTracker(tracker, detection(100, 50), 0, 6)
+    expect(state.strings).toHaveLength(6)
+    expect(state.frets.length).toBeGreaterThan(0)
+
+    const needs = [33, 66, 99].map((ts) => {
+      updateFretboardTracker(tracker, null, ts, 6)
+      return needsFretboardDetection(tracker)
+    })
+    expect(needs).toEqual([false, false, true])
+  })
+
+  it('should smooth jitter between detections', () => {
+    const tracker = createFretboardTracker()
+    updateFretboardTracker(tracker, detection(100, 50), 0, 6)
+
+    const state = updateFretboardTracker(tracker, detection(110, 50), 33, 6)
+    expect(nutLeft(state).x).toBeCloseTo(105, 3)
+  })
+
+  it('should restart from a detection far from the track', () => {
+    const tracker = createFretboardTracker()
+    updateFretboardTracker(tracker, detection(100, 50), 0, 6)
+
+    const state = updateFretboardTracker(tracker, detection(300, 50), 33, 6)
+    expect(nutLeft(state).x).toBeCloseTo(300, 3)
+  })
+
+  it('should decay confidence and ignore weaker detections', () => {
+    const tracker = createFretboardTracker()
+    updateFretboardTracker(tracker, detection(100, 50, 0.9), 0, 6)
+
+    const coasting = updateFretboardTracker(tracker, null, 33, 6)
+    expect(coasting.confidence).toBeLessThan(0.9)
+
+    const state = updateFretboardTracker(tracker, detection(120, 50, 0.3), 66, 6)
+    expect(nutLeft(state).x).toBeCloseTo(100, 3)
+    expect(state.confidence).toBeGreaterThan(0.8)
+  })
+
+  it('should start from a saved calibration and refine it', () => {
+    const tracker = createFretboardTracker()
+    const saved = detection(100, 50)
+
+    const seeded = updateFretboardTracker(tracker, null, 0, 6, saved)
+    expect(nutLeft(seeded).x).toBeCloseTo(100, 3)
+
+    const refined = updateFretboardTracker(tracker, detection(110, 50), 33, 6, saved)
+    expect(nutLeft(refined).x).toBeCloseTo(105, 3)
+  })
+
+  it('should fall back to the saved calibration when detection is weak', () => {
+    const tracker = createFretboardTracker()
+    const saved = detection(100, 50)
+
+    const state = updateFretboardTracker(tracker, detection(300, 50, 0.4), 0, 6, saved)
+    expect(nutLeft(state).x).toBeCloseTo(100, 3)
+    expect(state.confidence).toBe(0.9)
+  })
+})
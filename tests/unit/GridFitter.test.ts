@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { fitFretboardGrid } from '@/features/ml/fretboard/GridFitter'
+import { multiplyMatrixPoint } from '@/features/calibration/homography'
+import type { Matrix3x3 } from '@/features/calibration/homography'
+import { planeFretY } from '@/features/ml/fretboard/FretGeometry'
+import type { Line } from '@/lib/types'
+
+// Plane -> image: a neck seen slightly from the side, strings running down
+const VIEW: Matrix3x3 = [
+  [300, 40, 170],
+  [-20, 260, 60],
+  [0.0004, 0.0008, 1],
+]
+
+function planeLine(x1: number, y1: number, x2: number, y2: number): Line {
+  return {
+    start: multiplyMatrixPoint(VIEW, { x: x1, y: y1 }),
+    end: multiplyMatrixPoint(VIEW, { x: x2, y: y2 }),
+  }
+}
+
+const strings = [0, 1, 2, 3, 4, 5].map((i) => {
+  const x = (i + 0.5) / 6
+  return planeLine(x, -0.1, x, 1.1)
+})
+const frets = [0, 1, 2, 3, 4, 5].map((k) =>
+  planeLine(-0.05, planeFretY(k), 1.05, planeFretY(k))
+)
+
+function expectOnGrid(homography: Matrix3x3) {
+  for (const [i, k] of [[0, 0], [5, 0], [2, 3], [5, 5]]) {
+    const image = multiplyMatrixPoint(VIEW, { x: (i + 0.5) / 6, y: planeFretY(k) })
+    const plane = multiplyMatrixPoint(homography, image)
+    expect(plane.x).toBeCloseTo((i + 0.5) / 6, 2)
+    expect(plane.y).toBeCloseTo(planeFretY(k), 2)
+  }
+}
+
+describe('fitFretboardGrid', () => {
+  it('should recover the plane from a clean string/fret grid', () => {
+    const fit = fitFretboardGrid(strings, frets)
+
+    expect(fit).not.toBeNull()
+    expect(fit!.inlierRatio).toBe(1)
+    expect(fit!.stringIndices).toEqual([0, 1, 2, 3, 4, 5])
+    expect(fit!.fretIndices).toEqual([0, 1, 2, 3, 4, 5])
+    expectOnGrid(fit!.homography)
+  })
+
+  it('should reject a stray line and tolerate a missed string', () => {
+    const edge = planeLine(0.67, -0.1, 0.67, 1.1) // Between two strings
+    const detected = [...strings.slice(0, 2), ...strings.slice(3), edge]
+
+    const fit = fitFretboardGrid(detected, frets)
+
+    expect(fit).not.toBeNull()
+    expect(fit!.inlierRatio).toBeCloseTo(5 / 6, 2)
+    expect(fit!.stringIndices).toEqual([0, 1, 3, -1, 4, 5])
+    expectOnGrid(fit!.homography)
+  })
+
+  it('should merge segments of the same line', () => {
+    const split = [...strings, planeLine(0.25, 0.5, 0.25, 1.1)]
+    const fit = fitFretboardGrid(split, frets)
+
+    expect(fit!.stringLines).toHaveLength(6)
+    expect(fit!.inlierRatio).toBe(1)
+  })
+
+  it('should place undetected frets from the physical spacing', () => {
+    const occluded = [...frets.slice(0, 3), ...frets.slice(4)]
+    const fit = fitFretboardGrid(strings, occluded)
+
+    expect(fit!.fretIndices).toEqual([0, 1, 2, 4, 5])
+    expectOnGrid(fit!.homography)
+  })
+
+  it('should need at least two lines of each family', () => {
+    expect(fitFretboardGrid(strings.slice(0, 1), frets)).toBeNull()
+    expect(fitFretboardGrid(strings, [])).toBeNull()
+  })
+})
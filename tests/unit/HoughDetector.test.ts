@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import {
+  detectLines,
+  cannyEdges,
+  houghLines,
+  lineAngle,
+  splitLineFamilies,
+} from '@/features/ml/fretboard/HoughDetector'
+import type { Point2D } from '@/lib/types'
+
+const DEG = Math.PI / 180
+
+// ImageData isn't available under node; the detector only reads these fields
+function createImage(
+  width: number,
+  height: number,
+  shade: (x: number, y: number) => number
+): ImageData {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = shade(x, y)
+      const i = (y * width + x) * 4
+      data[i] = data[i + 1] = data[i + 2] = value
+      data[i + 3] = 255
+    }
+  }
+  return { width, height, data, colorSpace: 'srgb' } as ImageData
+}
+
+// Bright 3px-wide lines through the given points at the given angles
+function drawLines(
+  width: number,
+  height: number,
+  lines: Array<{ through: Point2D; angle: number }>
+): ImageData {
+  return createImage(width, height, (x, y) =>
+    lines.some(({ through, angle }) => {
+      const distance = Math.abs(
+        (x - through.x) * Math.sin(angle) - (y - through.y) * Math.cos(angle)
+      )
+      return distance <= 1.5
+    })
+      ? 255
+      : 0
+  )
+}
+
+function angleDifference(a: number, b: number): number {
+  const diff = Math.abs(a - b) % Math.PI
+  return Math.min(diff, Math.PI - diff)
+}
+
+describe('HoughDetector', () => {
+  it('should produce thin edges around a filled shape', () => {
+    const image = createImage(60, 60, (x, y) => (x >= 20 && x < 40 && y >= 20 && y < 40 ? 255 : 0))
+    const edges = cannyEdges(image)
+    const edgeCount = edges.reduce((sum, v) => sum + (v ? 1 : 0), 0)
+
+    // Roughly one pixel around the 20×20 square's perimeter
+    expect(edgeCount).toBeGreaterThan(60)
+    expect(edgeCount).toBeLessThan(120)
+    expect(edges[30 * 60 + 30]).toBe(0) // Inside
+    expect(edges[5 * 60 + 5]).toBe(0) // Outside
+  })
+
+  it('should find a single tilted line at its angle', () => {
+    const image = drawLines(120, 120, [{ through: { x: 60, y: 60 }, angle: 30 * DEG }])
+    const result = detectLines(image)
+
+    expect(result.lines.length).toBeGreaterThan(0)
+    for (const line of result.lines) {
+      expect(angleDifference(lineAngle(line), 30 * DEG)).toBeLessThan(3 * DEG)
+    }
+    expect(angleDifference(result.dominantAngle, 30 * DEG)).toBeLessThan(2 * DEG)
+  })
+
+  it('should return one Hough peak per line after suppression', () => {
+    const image = drawLines(100, 100, [
+      { through: { x: 50, y: 30 }, angle: 0 },
+      { through: { x: 50, y: 70 }, angle: 0 },
+    ])
+    const peaks = houghLines(cannyEdges(image), 100, 100, { minVotes: 60 })
+
+    // A bar's top and bottom edges are close enough to merge into one line
+    expect(peaks).toHaveLength(2)
+    peaks.forEach((peak) => expect(angleDifference(peak.theta, 90 * DEG)).toBeLessThan(2 * DEG))
+  })
+
+  it('should detect a rotated grid of strings and frets', () => {
+    const angle = 70 * DEG // Strings, tilted 20° from vertical
+    const across = angle + 90 * DEG
+    const center = { x: 100, y: 100 }
+    const along = { x: Math.cos(angle), y: Math.sin(angle) }
+    const normal = { x: -along.y, y: along.x }
+
+    const strings = [-50, -30, -10, 10, 30, 50].map((offset) => ({
+      through: { x: center.x + normal.x * offset, y: center.y + normal.y * offset },
+      angle,
+    }))
+    const frets = [-60, -20, 20, 60].map((offset) => ({
+      through: { x: center.x + along.x * offset, y: center.y + along.y * offset },
+      angle: across,
+    }))
+    const result = detectLines(drawLines(200, 200, [...strings, ...frets]))
+    const families = splitLineFamilies(result.lines, angle)
+
+    expect(families.along.length).toBeGreaterThanOrEqual(6)
+    expect(families.across.length).toBeGreaterThanOrEqual(4)
+    expect(result.confidence).toBeGreaterThan(0.6)
+  })
+
+  it('should find nothing in a blank image', () => {
+    const result = detectLines(createImage(50, 50, () => 128))
+
+    expect(result.lines).toEqual([])
+    expect(result.confidence).toBe(0)
+  })
+})
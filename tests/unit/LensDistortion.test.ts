@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import {
+  collectLinePoints,
+  distortPoint,
+  estimateLensDistortion,
+  undistortHand,
+  undistortPoint,
+} from '@/features/calibration/LensDistortion'
+import type { LensDistortion, Point2D } from '@/lib/types'
+
+const WIDTH = 320
+const HEIGHT = 180
+const BARREL: LensDistortion = { k1: -0.12, k2: 0.02 }
+
+// Straight lines in the ideal image, bent by the lens
+function distortedLines(lens: LensDistortion): Point2D[][] {
+  const lines: Point2D[][] = []
+  for (const y of [20, 50, 130, 160]) {
+    lines.push(
+      Array.from({ length: 100 }, (_, i) =>
+        distortPoint({ x: 10 + i * 3, y }, lens, WIDTH, HEIGHT)
+      )
+    )
+  }
+  for (const x of [30, 280]) {
+    lines.push(
+      Array.from({ length: 60 }, (_, i) =>
+        distortPoint({ x, y: 5 + i * 2.8 }, lens, WIDTH, HEIGHT)
+      )
+    )
+  }
+  return lines
+}
+
+describe('lens distortion model', () => {
+  it('should undistort what it distorts', () => {
+    const point = { x: 300, y: 20 }
+    const distorted = distortPoint(point, BARREL, WIDTH, HEIGHT)
+
+    expect(distorted.x).toBeLessThan(point.x) // Barrel pulls corners in
+    const restored = undistortPoint(distorted, BARREL, WIDTH, HEIGHT)
+    expect(restored.x).toBeCloseTo(point.x, 3)
+    expect(restored.y).toBeCloseTo(point.y, 3)
+  })
+
+  it('should undistort normalized hand keypoints', () => {
+    const corner = distortPoint({ x: 300, y: 20 }, BARREL, WIDTH, HEIGHT)
+    const hand = undistortHand(
+      {
+        keypoints: [{ x: corner.x / WIDTH, y: corner.y / HEIGHT, z: 0.1 }],
+        handedness: 'Left',
+        score: 0.9,
+      },
+      BARREL,
+      WIDTH,
+      HEIGHT
+    )
+
+    expect(hand.keypoints[0].x).toBeCloseTo(300 / WIDTH, 4)
+    expect(hand.keypoints[0].y).toBeCloseTo(20 / HEIGHT, 4)
+    expect(hand.keypoints[0].z).toBe(0.1)
+  })
+})
+
+describe('estimateLensDistortion', () => {
+  it('should recover the coefficients that straighten the lines', () => {
+    const estimate = estimateLensDistortion(
+      distortedLines(BARREL),
+      WIDTH,
+      HEIGHT
+    )
+
+    expect(estimate).not.toBeNull()
+    expect(estimate!.lens.k1).toBeCloseTo(BARREL.k1, 2)
+    expect(estimate!.straightness).toBeLessThan(0.05)
+  })
+
+  it('should find no distortion in straight lines', () => {
+    const estimate = estimateLensDistortion(
+      distortedLines({ k1: 0, k2: 0 }),
+      WIDTH,
+      HEIGHT
+    )
+
+    expect(Math.abs(estimate!.lens.k1)).toBeLessThan(0.005)
+    expect(Math.abs(estimate!.lens.k2)).toBeLessThan(0.005)
+  })
+
+  it('should need at least three lines', () => {
+    expect(
+      estimateLensDistortion(distortedLines(BARREL).slice(0, 2), WIDTH, HEIGHT)
+    ).toBeNull()
+  })
+
+  it('should estimate from the edges of a photographed grid', () => {
+    // Render dark grid lines through the lens: each pixel looks up where it
+    // sits in the ideal image
+    const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4)
+    for (let y = 0; y < HEIGHT; y++) {
+      for (let x = 0; x < WIDTH; x++) {
+        const ideal = undistortPoint({ x, y }, BARREL, WIDTH, HEIGHT)
+        const onLine =
+          [25, 60, 120, 155].some((ly) => Math.abs(ideal.y - ly) < 1.5) ||
+          [30, 290].some((lx) => Math.abs(ideal.x - lx) < 1.5)
+        const i = (y * WIDTH + x) * 4
+        data[i] = data[i + 1] = data[i + 2] = onLine ? 30 : 220
+        data[i + 3] = 255
+      }
+    }
+    const image = {
+      width: WIDTH,
+      height: HEIGHT,
+      data,
+      colorSpace: 'srgb',
+    } as ImageData
+
+    const lines = collectLinePoints(image)
+    const estimate = estimateLensDistortion(lines, WIDTH, HEIGHT)
+
+    expect(lines.length).toBeGreaterThanOrEqual(3)
+    expect(estimate).not.toBeNull()
+    expect(estimate!.lens.k1).toBeCloseTo(BARREL.k1, 1)
+  })
+})
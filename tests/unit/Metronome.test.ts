@@ -0,0 +1,137 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { Metronome, type BeatEvent } from '@/features/metronome/Metronome'
+import {
+  createChordChanges,
+  chordChangeTarget,
+  advanceChordChanges,
+} from '@/features/metronome/ChordChanges'
+import { createProgression, parseProgression } from '@/packages/shared/progressions'
+
+function fakeClock(start = 0) {
+  const clock = { time: start, now: () => clock.time }
+  return clock
+}
+
+describe('Metronome', () => {
+  let metronome: Metronome | null = null
+
+  afterEach(() => {
+    metronome?.dispose()
+    metronome = null
+  })
+
+  it('should schedule clicks ahead and report beats when they arrive', () => {
+    const clock = fakeClock()
+    const clicks: Array<{ time: number; accent: boolean }> = []
+    const beats: BeatEvent[] = []
+    metronome = new Metronome({ bpm: 120, beatsPerBar: 3 }, clock, {
+      click: (time, accent) => clicks.push({ time, accent }),
+    })
+    metronome.onBeat((event) => beats.push(event))
+
+    metronome.start()
+    expect(clicks).toHaveLength(1)
+    expect(beats).toHaveLength(0)
+
+    // 120 BPM = a beat every 0.5s, the first 0.05s after start
+    clock.time = 1.6
+    metronome.tick()
+    expect(beats.map((b) => b.time)).toEqual([0.05, 0.55, 1.05, 1.55])
+    expect(beats.map((b) => b.beat)).toEqual([0, 1, 2, 0])
+    expect(beats.map((b) => b.accent)).toEqual([true, false, false, true])
+    expect(beats[3].bar).toBe(1)
+    expect(clicks.length).toBeGreaterThanOrEqual(beats.length)
+  })
+
+  it('should count eighth notes in 6/8', () => {
+    metronome = new Metronome({ bpm: 60, beatUnit: 8 }, fakeClock(), { click: () => {} })
+    expect(metronome.beatDuration).toBe(0.5)
+  })
+
+  it('should raise the tempo after enough clean bars', () => {
+    const tempos: number[] = []
+    metronome = new Metronome(
+      { bpm: 60, ramp: { stepBpm: 5, cleanBars: 2, maxBpm: 68 } },
+      fakeClock(),
+      { click: () => {} }
+    )
+    metronome.onTempoChange((bpm) => tempos.push(bpm))
+
+    metronome.recordBar(true)
+    metronome.recordBar(false) // Sloppy bar resets the streak
+    metronome.recordBar(true)
+    metronome.recordBar(true)
+    expect(metronome.bpm).toBe(65)
+
+    metronome.recordBar(true)
+    metronome.recordBar(true)
+    expect(metronome.bpm).toBe(68) // Capped
+    expect(tempos).toEqual([65, 68])
+  })
+})
+
+describe('ChordChanges', () => {
+  const beat = (bar: number, b: number): BeatEvent => ({
+    bar,
+    beat: b,
+    time: 0,
+    accent: b === 0,
+    bpm: 60,
+  })
+  const held = (chord: string, stabilityMs: number) => ({ chord, score: 0.9, stabilityMs })
+
+  it('should switch the target one beat before the change', () => {
+    const changes = createChordChanges(createProgression(['G', 'C'], 2))
+
+    expect(chordChangeTarget(changes)).toBe('G')
+    advanceChordChanges(changes, beat(0, 0), held('G', 500))
+    expect(chordChangeTarget(changes)).toBe('G')
+    advanceChordChanges(changes, beat(0, 1), held('G', 800))
+    expect(chordChangeTarget(changes)).toBe('C')
+  })
+
+  it('should follow per-chord beat counts and show the next chord', () => {
+    const changes = createChordChanges(parseProgression('G:3 D:1 Em:4')!)
+
+    const first = advanceChordChanges(changes, beat(0, 0), held('G', 500))
+    expect(first).toMatchObject({ current: 'G', upcoming: 'D', beatsUntilChange: 3 })
+    advanceChordChanges(changes, beat(0, 1), held('G', 500))
+    advanceChordChanges(changes, beat(0, 2), held('G', 500))
+    const d = advanceChordChanges(changes, beat(0, 3), held('D', 300))
+    expect(d).toMatchObject({ current: 'D', upcoming: 'Em', stepIndex: 1 })
+    expect(d.result?.stable).toBe(true)
+    expect(chordChangeTarget(changes)).toBe('Em')
+  })
+
+  it('should judge each change by the shape held on its downbeat', () => {
+    const changes = createChordChanges(createProgression(['G', 'C'], 2))
+
+    advanceChordChanges(changes, beat(0, 0), held('G', 500))
+    advanceChordChanges(changes, beat(0, 1), held('G', 800))
+    const onTime = advanceChordChanges(changes, beat(0, 2), held('C', 300))
+    expect(onTime.result).toMatchObject({ chord: 'C', stable: true })
+    advanceChordChanges(changes, beat(0, 3), held('C', 800))
+
+    const late = advanceChordChanges(changes, beat(1, 0), held('G', 50))
+    expect(late.result).toMatchObject({ chord: 'G', stable: false })
+  })
+
+  it('should score the progression bar by bar', () => {
+    const changes = createChordChanges(createProgression(['G', 'C'], 2))
+
+    advanceChordChanges(changes, beat(0, 0), held('G', 500))
+    advanceChordChanges(changes, beat(0, 1), held('G', 800))
+    advanceChordChanges(changes, beat(0, 2), held('C', 300))
+    advanceChordChanges(changes, beat(0, 3), held('C', 800))
+    const bar0 = advanceChordChanges(changes, beat(1, 0), held('C', 900)).bar
+    expect(bar0).toMatchObject({ bar: 0, chords: ['G', 'C'], clean: true })
+    expect(bar0?.score).toBeCloseTo(0.9)
+
+    advanceChordChanges(changes, beat(1, 1), held('G', 300))
+    advanceChordChanges(changes, beat(1, 2), held('C', 300))
+    advanceChordChanges(changes, beat(1, 3), held('C', 600))
+    const bar1 = advanceChordChanges(changes, beat(2, 0), held('G', 600)).bar
+    expect(bar1?.clean).toBe(false) // Still on C when G was due
+    expect(bar1?.score).toBeCloseTo(0.675)
+  })
+})
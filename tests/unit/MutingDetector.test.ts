@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest'
+import { detectMutedStrings } from '@/features/ml/fretboard/MutingDetector'
+import {
+  planeFretY,
+  planeStringLines,
+  planeStringX,
+} from '@/features/ml/fretboard/FretGeometry'
+import {
+  computeHomography,
+  invertHomography,
+  multiplyMatrixPoint,
+} from '@/features/calibration/homography'
+import type { Hand, Point2D } from '@/lib/types'
+
+const WIDTH = 640
+const HEIGHT = 360
+const STRINGS = planeStringLines(6)
+
+// Fretboard seen at an angle: its corners in frame pixels, nut first
+const PIXEL_TO_PLANE = computeHomography(
+  [
+    { x: 120, y: 90 },
+    { x: 130, y: 260 },
+    { x: 560, y: 290 },
+    { x: 540, y: 70 },
+  ],
+  [
+    { x: 0, y: 0 },
+    { x: 1, y: 0 },
+    { x: 1, y: 1 },
+    { x: 0, y: 1 },
+  ]
+)!
+const PLANE_TO_PIXEL = invertHomography(PIXEL_TO_PLANE)!
+
+interface FingerPose {
+  tip: Point2D
+  dip: Point2D
+}
+
+/**
+ * A fretting hand posed in the plane, as normalized keypoints. Fingers
+ * reach over from the treble side; the thumb defaults to behind the neck,
+ * where the camera sees it mid-neck.
+ */
+function handInPlane(
+  fingers: FingerPose[],
+  thumb = { tip: { x: 0.45, y: 0.2 }, ip: { x: 0.5, y: 0.25 } }
+): Hand {
+  const toKeypoint = (plane: Point2D) => {
+    const pixel = multiplyMatrixPoint(PLANE_TO_PIXEL, plane)
+    return { x: pixel.x / WIDTH, y: pixel.y / HEIGHT, z: 0 }
+  }
+
+  const palm = { x: -0.4, y: 0.3 }
+  const keypoints = new Array(21).fill(null).map(() => toKeypoint(palm))
+  keypoints[3] = toKeypoint(thumb.ip)
+  keypoints[4] = toKeypoint(thumb.tip)
+  fingers.forEach((finger, i) => {
+    const mcp = 5 + i * 4
+    keypoints[mcp] = toKeypoint({ x: -0.3, y: finger.tip.y })
+    keypoints[mcp + 1] = toKeypoint({ x: -0.1, y: finger.tip.y })
+    keypoints[mcp + 2] = toKeypoint(finger.dip)
+    keypoints[mcp + 3] = toKeypoint(finger.tip)
+  })
+
+  return { keypoints, handedness: 'Left', score: 0.9 }
+}
+
+/**
+ * A fingertip pressing a string behind a fret, its pad on the same string
+ */
+function pressing(stringIdx: number, fret: number, lean = 0.08): FingerPose {
+  const tip = {
+    x: planeStringX(stringIdx, 6),
+    y: (planeFretY(fret - 1) + planeFretY(fret) * 3) / 4,
+  }
+  return { tip, dip: { x: tip.x - lean, y: tip.y } }
+}
+
+describe('detectMutedStrings', () => {
+  // A major: index, middle and ring on strings 4, 3 and 2 at the 2nd fret
+  const aMajor = [pressing(4, 2), pressing(3, 2), pressing(2, 2)]
+
+  it('should find no mutes when fingers stand upright', () => {
+    const evidence = detectMutedStrings(
+      handInPlane(aMajor),
+      PIXEL_TO_PLANE,
+      STRINGS,
+      WIDTH,
+      HEIGHT
+    )
+
+    expect(evidence).toEqual([])
+  })
+
+  it('should mute string 6 under a thumb over the neck', () => {
+    const thumb = {
+      tip: { x: planeStringX(6, 6), y: planeFretY(1) },
+      ip: { x: 1.1, y: planeFretY(1) - 0.05 },
+    }
+    const evidence = detectMutedStrings(
+      handInPlane(aMajor, thumb),
+      PIXEL_TO_PLANE,
+      STRINGS,
+      WIDTH,
+      HEIGHT
+    )
+
+    expect(evidence).toHaveLength(1)
+    expect(evidence[0]).toMatchObject({
+      stringIdx: 6,
+      muted: true,
+      source: 'thumb',
+    })
+    expect(evidence[0].confidence).toBeGreaterThan(0.9)
+  })
+
+  it('should mute the string a flattened finger leans on', () => {
+    // Ring finger on string 2 laid flat, its pad resting on string 1
+    const fingers = [pressing(4, 2), pressing(3, 2), pressing(2, 2, 0.35)]
+    const evidence = detectMutedStrings(
+      handInPlane(fingers),
+      PIXEL_TO_PLANE,
+      STRINGS,
+      WIDTH,
+      HEIGHT
+    )
+
+    expect(evidence).toHaveLength(1)
+    expect(evidence[0]).toMatchObject({
+      stringIdx: 1,
+      muted: true,
+      source: 'finger',
+    })
+    expect(evidence[0].confidence).toBeGreaterThan(0.5)
+  })
+})
@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest'
+import {
+  isFingerPressed,
+  mapToStringsAndFrets,
+} from '@/features/ml/fretboard/StringFretMapper'
+import {
+  modelFretCount,
+  planeFretLines,
+  planeFretY,
+  planeStringLines,
+  planeStringX,
+} from '@/features/ml/fretboard/FretGeometry'
+import {
+  computeHomography,
+  invertHomography,
+  multiplyMatrixPoint,
+} from '@/features/calibration/homography'
+import { scoreChord } from '@/packages/shared/scoring'
+import { CHORD_TEMPLATES } from '@/packages/shared/chord-templates'
+import type { FingerAssignment, Point2D } from '@/lib/types'
+
+const WIDTH = 640
+const HEIGHT = 360
+
+// Fretboard seen at an angle: its corners in frame pixels, nut first
+const PIXEL_TO_PLANE = computeHomography(
+  [
+    { x: 120, y: 90 },
+    { x: 130, y: 260 },
+    { x: 560, y: 290 },
+    { x: 540, y: 70 },
+  ],
+  [
+    { x: 0, y: 0 },
+    { x: 1, y: 0 },
+    { x: 1, y: 1 },
+    { x: 0, y: 1 },
+  ]
+)!
+
+/**
+ * Where a plane point appears as a normalized keypoint
+ */
+function normalizedKeypoint(plane: Point2D): Point2D {
+  const pixel = multiplyMatrixPoint(invertHomography(PIXEL_TO_PLANE)!, plane)
+  return { x: pixel.x / WIDTH, y: pixel.y / HEIGHT }
+}
+
+function sample(x: number, z: number): FingerAssignment {
+  return { fingerId: 1, stringIdx: 3, fretIdx: 1, confidence: 0.9, position: { x, y: 0.5 }, z }
+}
+
+describe('isFingerPressed', () => {
+  it('should treat a still fingertip on the fretboard as pressed', () => {
+    const history = [sample(0.5, 0), sample(0.501, 0), sample(0.5, 0)]
+    expect(isFingerPressed(history[2], history)).toBe(true)
+  })
+
+  it('should treat a moving fingertip as hovering', () => {
+    const history = [sample(0.4, 0), sample(0.45, 0), sample(0.5, 0)]
+    expect(isFingerPressed(history[2], history)).toBe(false)
+  })
+
+  it('should treat a still fingertip lifted towards the camera as hovering', () => {
+    const history = [sample(0.5, 0), sample(0.5, -0.03), sample(0.5, -0.03)]
+    expect(isFingerPressed(history[2], history)).toBe(false)
+  })
+})
+
+describe('mapToStringsAndFrets', () => {
+  const strings = planeStringLines(6)
+  const frets = planeFretLines()
+
+  it('should read string and fret from normalized keypoints', () => {
+    // Fingertip behind the 2nd fret wire on string 3
+    const y = (planeFretY(1) + planeFretY(2) * 3) / 4
+    const position = normalizedKeypoint({ x: planeStringX(3, 6), y })
+    const result = mapToStringsAndFrets(
+      [{ fingerId: 1, position }],
+      PIXEL_TO_PLANE,
+      strings,
+      frets,
+      WIDTH,
+      HEIGHT
+    )
+
+    expect(result.assignments[0].stringIdx).toBe(3)
+    expect(result.assignments[0].fretIdx).toBe(2)
+    expect(result.assignments[0].confidence).toBeGreaterThan(0.7)
+  })
+
+  it('should give no confidence past the frets in view', () => {
+    const result = mapToStringsAndFrets(
+      [
+        {
+          fingerId: 1,
+          position: normalizedKeypoint({ x: planeStringX(3, 6), y: 1.2 }),
+        },
+      ],
+      PIXEL_TO_PLANE,
+      strings,
+      frets,
+      WIDTH,
+      HEIGHT
+    )
+
+    expect(result.assignments[0].confidence).toBe(0)
+  })
+
+  it('should keep the normalized keypoint as the assignment position', () => {
+    const position = normalizedKeypoint({
+      x: planeStringX(5, 6),
+      y: (planeFretY(2) + planeFretY(3)) / 2,
+    })
+    const result = mapToStringsAndFrets(
+      [{ fingerId: 2, position }],
+      PIXEL_TO_PLANE,
+      strings,
+      frets,
+      WIDTH,
+      HEIGHT
+    )
+
+    expect(result.assignments[0].stringIdx).toBe(5)
+    expect(result.assignments[0].fretIdx).toBe(3)
+    expect(result.assignments[0].position).toEqual(position)
+  })
+})
+
+describe('isFingerPressed with mapped fingertips', () => {
+  const strings = planeStringLines(6)
+  const frets = planeFretLines()
+
+  it('should treat a still tip anywhere in the fret band as pressed', () => {
+    for (const t of [0.3, 0.5, 0.7]) {
+      // On string 4, part way from the 1st fret wire to the 2nd
+      const y = planeFretY(1) + (planeFretY(2) - planeFretY(1)) * t
+      const position = normalizedKeypoint({ x: planeStringX(4, 6), y })
+      const mapped = mapToStringsAndFrets(
+        [{ fingerId: 1, position }],
+        PIXEL_TO_PLANE,
+        strings,
+        frets,
+        WIDTH,
+        HEIGHT
+      ).assignments[0]
+      const history = [mapped, { ...mapped }, { ...mapped }]
+
+      expect(mapped.fretIdx).toBe(2)
+      expect(isFingerPressed(mapped, history)).toBe(true)
+    }
+  })
+
+  it('should not press a tip mapped off the frets in view', () => {
+    const position = normalizedKeypoint({ x: planeStringX(4, 6), y: 1.2 })
+    const mapped = mapToStringsAndFrets(
+      [{ fingerId: 1, position }],
+      PIXEL_TO_PLANE,
+      strings,
+      frets,
+      WIDTH,
+      HEIGHT
+    ).assignments[0]
+
+    expect(isFingerPressed(mapped, [mapped, mapped, mapped])).toBe(false)
+  })
+})
+
+describe('mapping above a capo', () => {
+  it('should model enough frets to score a shape above a capo at 5', () => {
+    const capo = 5
+    const fretCount = modelFretCount(capo)
+    expect(fretCount).toBeGreaterThanOrEqual(capo + 3)
+
+    // C shape moved up behind the capo: strings 5, 4 and 2 at frets 8, 7, 6
+    const tips = [
+      { fingerId: 1, stringIdx: 2, fret: 6 },
+      { fingerId: 2, stringIdx: 4, fret: 7 },
+      { fingerId: 3, stringIdx: 5, fret: 8 },
+    ].map((tip) => ({
+      fingerId: tip.fingerId,
+      position: normalizedKeypoint({
+        x: planeStringX(tip.stringIdx, 6),
+        y: (planeFretY(tip.fret - 1) + planeFretY(tip.fret) * 3) / 4,
+      }),
+    }))
+    const result = mapToStringsAndFrets(
+      tips,
+      PIXEL_TO_PLANE,
+      planeStringLines(6, fretCount),
+      planeFretLines(fretCount),
+      WIDTH,
+      HEIGHT,
+      { capo }
+    )
+
+    expect(result.assignments.map((a) => a.fretIdx)).toEqual([6, 7, 8])
+    expect(result.assignments.every((a) => a.confidence > 0)).toBe(true)
+
+    const { perString } = scoreChord(result.assignments, CHORD_TEMPLATES.C, {
+      capo,
+      mutes: [{ stringIdx: 6, muted: true, source: 'thumb', confidence: 1 }],
+    })
+    expect([1, 2, 3, 4, 5, 6].every((s) => perString[s].ok)).toBe(true)
+  })
+})
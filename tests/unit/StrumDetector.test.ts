@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createStrumDetector,
+  updateStrumDetector,
+  confirmStrum,
+} from '@/features/ml/hands/StrumDetector'
+import type { Hand, StrumEvent } from '@/lib/types'
+
+// A hand whose wrist and index tip sit at the given height
+function handAt(y: number): Hand {
+  const keypoints = Array.from({ length: 21 }, () => ({ x: 0.7, y }))
+  return { keypoints, handedness: 'Right', score: 0.9 }
+}
+
+// Strumming up and down: y = 0.5 + 0.15·sin(2πt / period), sampled at 30 fps
+function strumSequence(durationMs: number, periodMs: number) {
+  const frames: Array<{ t: number; hand: Hand }> = []
+  for (let t = 0; t <= durationMs; t += 1000 / 30) {
+    frames.push({ t, hand: handAt(0.5 + 0.15 * Math.sin((2 * Math.PI * t) / periodMs)) })
+  }
+  return frames
+}
+
+describe('Strum detection', () => {
+  it('should report alternating down and up strums at the fastest point', () => {
+    const detector = createStrumDetector()
+    const events: StrumEvent[] = []
+    for (const { t, hand } of strumSequence(2000, 500)) {
+      const event = updateStrumDetector(detector, hand, t)
+      if (event) events.push(event)
+    }
+
+    // Hand moves fastest downwards at t = 0, 500, ... and upwards at 250, 750, ...
+    expect(events.length).toBeGreaterThanOrEqual(6)
+    events.forEach((event, i) => {
+      if (i > 0) {
+        expect(event.direction).not.toBe(events[i - 1].direction)
+      }
+      const phase = event.direction === 'down' ? 0 : 250
+      const offset = (((event.timestamp - phase) % 500) + 500) % 500
+      expect(Math.min(offset, 500 - offset)).toBeLessThan(80)
+      expect(event.speed).toBeGreaterThan(1.2)
+    })
+  })
+
+  it('should ignore a hand that barely moves', () => {
+    const detector = createStrumDetector()
+    for (let t = 0; t < 1000; t += 33) {
+      const y = 0.5 + 0.005 * Math.sin(t / 50)
+      expect(updateStrumDetector(detector, handAt(y), t)).toBeNull()
+    }
+  })
+
+  it('should finish a stroke when the hand disappears', () => {
+    const detector = createStrumDetector()
+    updateStrumDetector(detector, handAt(0.3), 0)
+    updateStrumDetector(detector, handAt(0.4), 33)
+    updateStrumDetector(detector, handAt(0.5), 66)
+
+    const event = updateStrumDetector(detector, null, 99)
+    expect(event).toMatchObject({ direction: 'down', timestamp: 66 })
+  })
+
+  it('should confirm strums with a nearby sound onset', () => {
+    const strum: StrumEvent = { timestamp: 1000, direction: 'down', speed: 2 }
+
+    expect(confirmStrum(strum, 1080).audioConfirmed).toBe(true)
+    expect(confirmStrum(strum, 1400).audioConfirmed).toBe(false)
+    expect(confirmStrum(strum, null).audioConfirmed).toBe(false)
+  })
+})
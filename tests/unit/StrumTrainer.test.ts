@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createStrumTrainer,
+  addStrum,
+  advanceStrumTrainer,
+  flushStrumTrainer,
+  summarizeStrumming,
+} from '@/features/strumming/StrumTrainer'
+import {
+  STRUM_PATTERNS,
+  parseStrumPattern,
+  formatStrumPattern,
+  slotsPerBeat,
+} from '@/packages/shared/strum-patterns'
+import type { StrumDirection, StrumBarResult } from '@/lib/types'
+
+const BEAT_MS = 500 // 120 BPM
+
+// Play one 4/4 bar starting at barStart, calling beats on the grid
+function playBar(
+  trainer: ReturnType<typeof createStrumTrainer>,
+  bar: number,
+  strums: Array<[number, StrumDirection, boolean?]> // [ms into bar, direction, heard]
+): StrumBarResult[] {
+  const barStart = 1000 + bar * 4 * BEAT_MS
+  strums.forEach(([offset, direction, heard]) =>
+    addStrum(trainer, { timestamp: barStart + offset, direction, speed: 2, audioConfirmed: heard })
+  )
+  const judged: StrumBarResult[] = []
+  for (let beat = 0; beat < 4; beat++) {
+    judged.push(
+      ...advanceStrumTrainer(trainer, { bar, beat }, barStart + beat * BEAT_MS, BEAT_MS)
+    )
+  }
+  return judged
+}
+
+describe('Strum patterns', () => {
+  it('should parse patterns written with D, U and rests', () => {
+    const pattern = parseStrumPattern('D-DU-UDU')!
+
+    expect(pattern.slots).toEqual(STRUM_PATTERNS.folk.slots)
+    expect(slotsPerBeat(pattern)).toBe(2)
+    expect(formatStrumPattern(pattern)).toBe('D-DU-UDU')
+    expect(parseStrumPattern('d - d u', 2)!.slots).toEqual(['down', null, 'down', 'up'])
+  })
+
+  it('should reject patterns that do not fit the bar', () => {
+    expect(parseStrumPattern('D-DU-UD')).toBeNull() // 7 slots over 4 beats
+    expect(parseStrumPattern('DXQU')).toBeNull()
+    expect(parseStrumPattern('----')).toBeNull()
+    expect(parseStrumPattern('')).toBeNull()
+  })
+})
+
+describe('Strum trainer', () => {
+  it('should score a bar played on time', () => {
+    const trainer = createStrumTrainer(STRUM_PATTERNS.folk)
+    // Slots are 250ms apart; rests at slots 1 and 4
+    playBar(trainer, 0, [
+      [10, 'down'],
+      [490, 'down'],
+      [760, 'up'],
+      [1230, 'up'],
+      [1500, 'down'],
+      [1770, 'up'],
+    ])
+    const judged = flushStrumTrainer(trainer, 1000 + 4 * BEAT_MS + 500)
+
+    expect(judged).toHaveLength(1)
+    expect(judged[0].accuracy).toBe(1)
+    expect(judged[0].missed).toBe(0)
+    expect(judged[0].extra).toBe(0)
+    expect(judged[0].slots[2]).toMatchObject({ status: 'hit', errorMs: -10 })
+    expect(judged[0].slots[1].status).toBe('rest')
+    expect(judged[0].meanErrorMs).toBeCloseTo((10 + 10 + 10 + 20 + 0 + 20) / 6)
+  })
+
+  it('should judge a bar once the next one is under way', () => {
+    const trainer = createStrumTrainer(STRUM_PATTERNS.quarters)
+
+    expect(playBar(trainer, 0, [[0, 'down']])).toEqual([])
+    const judged = playBar(trainer, 1, [])
+    expect(judged.map((b) => b.bar)).toEqual([0])
+    expect(judged[0].missed).toBe(3)
+    expect(judged[0].accuracy).toBe(0.25)
+  })
+
+  it('should flag wrong directions, late strums and heard strums on rests', () => {
+    const trainer = createStrumTrainer(STRUM_PATTERNS.folk, { toleranceMs: 80 })
+    playBar(trainer, 0, [
+      [0, 'up'], // Wrong direction
+      [250, 'up', true], // Heard on a rest
+      [620, 'down'], // 120ms late: too far from slot 2
+      [750, 'up'],
+      [1000, 'down'], // Unheard on a rest: a ghost stroke, fine
+      [1250, 'up'],
+      [1500, 'down'],
+      [1750, 'up'],
+    ])
+    const [bar] = flushStrumTrainer(trainer, 10000)
+
+    expect(bar.slots[0]).toMatchObject({ status: 'wrong direction', actual: 'up' })
+    expect(bar.slots[1].status).toBe('extra')
+    expect(bar.slots[2].status).toBe('missed')
+    expect(bar.slots[4].status).toBe('rest')
+    expect(bar.missed).toBe(1)
+    expect(bar.extra).toBe(2)
+    expect(bar.accuracy).toBeCloseTo(4 / 6)
+  })
+
+  it('should drop strokes the microphone did not hear', () => {
+    const trainer = createStrumTrainer(STRUM_PATTERNS.quarters)
+    playBar(trainer, 0, [
+      [0, 'down', true],
+      [500, 'down', false],
+      [1000, 'down', true],
+      [1500, 'down', true],
+    ])
+    const [bar] = flushStrumTrainer(trainer, 10000)
+
+    expect(bar.slots[1].status).toBe('missed')
+    expect(summarizeStrumming([bar])).toMatchObject({ accuracy: 0.75, missed: 1, extra: 0 })
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createTransitionTracker,
+  currentTransitionTarget,
+  updateTransition,
+  summarizeTransitions,
+} from '@/features/chord-trainer/TransitionEngine'
+
+describe('TransitionEngine', () => {
+  it('should alternate between the two chords', () => {
+    const tracker = createTransitionTracker(['G', 'C'], {}, 0)
+
+    expect(updateTransition(tracker, 'G', 0.95, 600, 1000)).toEqual({
+      type: 'reached',
+      chord: 'G',
+    })
+    expect(updateTransition(tracker, 'G', 0.3, 0, 2000)).toEqual({
+      type: 'left',
+      from: 'G',
+      next: 'C',
+    })
+    expect(currentTransitionTarget(tracker)).toBe('C')
+  })
+
+  it('should time a switch from leaving the shape to the stable next shape', () => {
+    const tracker = createTransitionTracker(['G', 'C'], {}, 0)
+    updateTransition(tracker, 'G', 0.95, 600, 1000)
+    updateTransition(tracker, 'G', 0.3, 0, 2000)
+
+    // C became stable at 2800 and has been held for 500ms
+    const event = updateTransition(tracker, 'C', 0.95, 500, 3300)
+    expect(event?.type).toBe('switched')
+    if (event?.type === 'switched') {
+      expect(event.switch).toMatchObject({ from: 'G', to: 'C', switchMs: 800, clean: true })
+    }
+  })
+
+  it('should ignore scores for a stale target', () => {
+    const tracker = createTransitionTracker(['G', 'C'], {}, 0)
+    expect(updateTransition(tracker, 'C', 0.95, 600, 1000)).toBeNull()
+    expect(tracker.phase).toBe('forming')
+  })
+
+  it('should count clean switches per minute', () => {
+    const tracker = createTransitionTracker(['G', 'C'], {}, 0)
+    updateTransition(tracker, 'G', 0.95, 600, 1000)
+    updateTransition(tracker, 'G', 0.3, 0, 2000)
+    updateTransition(tracker, 'C', 0.95, 500, 3000) // clean, 500ms
+    updateTransition(tracker, 'C', 0.3, 0, 4000)
+    updateTransition(tracker, 'G', 0.8, 500, 8000) // slow and sloppy
+
+    const summary = summarizeTransitions(tracker, 30000)
+    expect(summary.switches).toHaveLength(2)
+    expect(summary.switches[1].clean).toBe(false)
+    expect(summary.bestSwitchMs).toBe(500)
+    expect(summary.averageSwitchMs).toBe(2000)
+    expect(summary.cleanSwitchesPerMinute).toBeCloseTo(2)
+  })
+})
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest'
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { fft, chromagram, magnitudeSpectrum, hannWindow } from '@/features/audio/dsp'
+import { parseWav, encodeWav } from '@/features/audio/wav'
+import { AudioAnalyzer } from '@/features/audio/AudioAnalyzer'
+import {
+  matchChordAudio,
+  chordLikelihoods,
+  audioMuteEvidence,
+} from '@/features/audio/AudioChordMatcher'
+import { getChordTemplate } from '@/packages/shared/chord-templates'
+import type { AudioFrame } from '@/lib/types'
+
+const C = 0
+const E = 4
+const G = 7
+const A = 9
+
+function loadFixture(name: string) {
+  const file = readFileSync(join(__dirname, '../fixtures/audio', name))
+  return parseWav(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength))
+}
+
+function analyzeFixture(name: string): AudioFrame[] {
+  const wav = loadFixture(name)
+  const analyzer = new AudioAnalyzer({
+    sampleRate: wav.sampleRate,
+    frameSize: 2048,
+    hopSize: 512,
+  })
+  return analyzer.process(wav.channels[0])
+}
+
+// Average chroma over the frames where the chord is ringing
+function averageChroma(frames: AudioFrame[]): number[] {
+  const sum = new Array(12).fill(0)
+  frames.forEach((f) => f.chroma.forEach((v, i) => (sum[i] += v)))
+  const max = Math.max(...sum)
+  return sum.map((v) => v / max)
+}
+
+describe('DSP', () => {
+  it('should find the bin of a pure tone with the FFT', () => {
+    const size = 256
+    const re = new Float32Array(size)
+    const im = new Float32Array(size)
+    for (let i = 0; i < size; i++) {
+      re[i] = Math.cos((2 * Math.PI * 16 * i) / size)
+    }
+    fft(re, im)
+
+    expect(Math.hypot(re[16], im[16])).toBeCloseTo(size / 2, 3)
+    expect(Math.hypot(re[15], im[15])).toBeLessThan(1e-3)
+  })
+
+  it('should reject FFT sizes that are not a power of two', () => {
+    expect(() => fft(new Float32Array(100), new Float32Array(100))).toThrow()
+  })
+
+  it('should put a 440 Hz tone in the A chroma bin', () => {
+    const sampleRate = 16000
+    const samples = new Float32Array(4096)
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = Math.sin((2 * Math.PI * 440 * i) / sampleRate)
+    }
+    const chroma = chromagram(magnitudeSpectrum(samples, hannWindow(4096)), sampleRate)
+
+    expect(chroma[A]).toBe(1)
+    expect(Math.max(...Array.from(chroma).filter((_, pc) => pc !== A))).toBeLessThan(0.1)
+  })
+
+  it('should round-trip samples through WAV encoding', () => {
+    const samples = new Float32Array([0, 0.5, -0.5, 0.25])
+    const wav = parseWav(encodeWav(samples, 8000))
+
+    expect(wav.sampleRate).toBe(8000)
+    expect(wav.channels).toHaveLength(1)
+    wav.channels[0].forEach((v, i) => expect(v).toBeCloseTo(samples[i], 3))
+  })
+})
+
+describe('AudioAnalyzer', () => {
+  it('should hear C, E and G in a C major strum', () => {
+    const frames = analyzeFixture('c-major.wav')
+    const chroma = averageChroma(frames)
+
+    const top = chroma
+      .map((level, pc) => ({ level, pc }))
+      .sort((a, b) => b.level - a.level)
+      .slice(0, 3)
+      .map((entry) => entry.pc)
+    expect(top.sort((a, b) => a - b)).toEqual([C, E, G])
+  })
+
+  it('should report all-zero chroma for silence', () => {
+    const analyzer = new AudioAnalyzer({ sampleRate: 16000, frameSize: 1024, hopSize: 512 })
+    const frames = analyzer.process(new Float32Array(4096))
+
+    expect(frames.length).toBeGreaterThan(0)
+    frames.forEach((f) => {
+      expect(f.onset).toBe(false)
+      expect(f.chroma.every((v) => v === 0)).toBe(true)
+    })
+  })
+
+  it('should detect each pluck as an onset near when it starts', () => {
+    const frames = analyzeFixture('plucks.wav')
+    const onsets = frames.filter((f) => f.onset).map((f) => f.timestamp)
+
+    expect(onsets).toHaveLength(3)
+    // Frames are stamped at their last sample, so onsets land within one frame after the pluck
+    ;[250, 750, 1250].forEach((expected, i) => {
+      expect(onsets[i]).toBeGreaterThanOrEqual(expected)
+      expect(onsets[i] - expected).toBeLessThan(2048 / 16)
+    })
+  })
+
+  it('should give the same frames whether samples arrive at once or in chunks', () => {
+    const wav = loadFixture('c-major.wav')
+    const config = { sampleRate: wav.sampleRate, frameSize: 2048, hopSize: 512 }
+    const whole = new AudioAnalyzer(config).process(wav.channels[0])
+
+    const chunked = new AudioAnalyzer(config)
+    const frames: AudioFrame[] = []
+    for (let i = 0; i < wav.channels[0].length; i += 128) {
+      const chunk = wav.channels[0].subarray(i, i + 128)
+      frames.push(...chunked.process(chunk, (i / wav.sampleRate) * 1000))
+    }
+
+    expect(frames).toHaveLength(whole.length)
+    frames.forEach((f, i) => {
+      expect(f.timestamp).toBeCloseTo(whole[i].timestamp, 6)
+      expect(f.chroma).toEqual(whole[i].chroma)
+    })
+  })
+})
+
+describe('AudioChordMatcher', () => {
+  it('should rank the strummed chord first', () => {
+    const major = averageChroma(analyzeFixture('c-major.wav'))
+    const minor = averageChroma(analyzeFixture('e-minor.wav'))
+
+    expect(chordLikelihoods(major, ['C', 'G', 'Em', 'D'])[0].chord).toBe('C')
+    expect(chordLikelihoods(minor, ['C', 'G', 'Em', 'D'])[0].chord).toBe('Em')
+  })
+
+  it('should report strings whose note is missing', () => {
+    const chroma = new Array(12).fill(0)
+    chroma[C] = 1
+    chroma[E] = 0.8 // G missing
+    const result = matchChordAudio(chroma, getChordTemplate('C')!)
+
+    expect(result.perString[3]).toEqual({ ok: false, reason: 'not heard' })
+    expect(result.perString[2].ok).toBe(true)
+    expect(result.perString[6]).toEqual({ ok: true, reason: 'muting not checked' })
+    expect(result.score).toBeLessThan(1)
+  })
+
+  it('should flag a muted string that rings', () => {
+    const template = getChordTemplate('D')! // Strings 5 and 6 muted
+    const chroma = new Array(12).fill(0)
+    chroma[2] = 1 // D
+    chroma[6] = 0.7 // F#
+    chroma[A] = 0.8
+
+    // Low E (string 6) ringing, A (string 5) is a chord tone so can't be judged
+    const ringing = [...chroma]
+    ringing[E] = 0.6
+    expect(audioMuteEvidence(ringing, template)).toEqual([
+      expect.objectContaining({ stringIdx: 6, muted: false, source: 'audio' }),
+    ])
+    expect(audioMuteEvidence(chroma, template)[0].muted).toBe(true)
+    expect(audioMuteEvidence(new Array(12).fill(0), template)).toEqual([])
+  })
+})
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest'
+import {
+  generateVoicings,
+  generateVoicingsForName,
+} from '@/packages/shared/chord-voicings'
+import { INSTRUMENTS } from '@/packages/shared/instruments'
+import { parseChordName } from '@/packages/shared/music-theory'
+import { getChordTemplate } from '@/packages/shared/chord-templates'
+import { STANDARD_TUNING } from '@/packages/shared/tunings'
+
+// Render frets low string first, e.g. "x32010"
+function shape(frets: number[]): string {
+  return [...frets]
+    .reverse()
+    .map((f) => (f < 0 ? 'x' : String(f)))
+    .join(' ')
+}
+
+describe('Chord Voicings', () => {
+  it('should parse chord symbols', () => {
+    expect(parseChordName('F#m7')).toEqual({ root: 6, rootName: 'F#', quality: 'm7' })
+    expect(parseChordName('Bbmaj7')?.root).toBe(10)
+    expect(parseChordName('G/B')).toEqual({ root: 7, rootName: 'G', quality: 'maj', bass: 11 })
+    expect(parseChordName('H7')).toBeNull()
+    expect(parseChordName('Cfoo')).toBeNull()
+  })
+
+  it('should rank the familiar open shapes first', () => {
+    expect(shape(generateVoicingsForName('C')[0].frets)).toBe('x 3 2 0 1 0')
+    expect(shape(generateVoicingsForName('D')[0].frets)).toBe('x x 0 2 3 2')
+    expect(shape(generateVoicingsForName('Em')[0].frets)).toBe('0 2 2 0 0 0')
+  })
+
+  it('should respect span and finger limits', () => {
+    const voicings = generateVoicings(5, 'maj', 'F', { maxSpan: 2, limit: 50 })
+    expect(voicings.length).toBeGreaterThan(0)
+
+    for (const v of voicings) {
+      const fretted = v.frets.filter((f) => f > 0)
+      expect(Math.max(...fretted) - Math.min(...fretted)).toBeLessThanOrEqual(2)
+
+      const fingers = new Set(
+        Object.values(v.template.strings).flatMap((c) =>
+          c.type === 'fretted' ? [c.finger] : []
+        )
+      )
+      expect(fingers.size).toBeLessThanOrEqual(4)
+    }
+
+    const difficulties = voicings.map((v) => v.difficulty)
+    expect(difficulties).toEqual([...difficulties].sort((a, b) => a - b))
+  })
+
+  it('should use a barre when more than four notes are fretted', () => {
+    const [voicing] = generateVoicingsForName('F', { minFret: 1, maxFret: 3 })
+      .filter((v) => v.frets.every((f) => f > 0))
+
+    expect(shape(voicing.frets)).toBe('1 3 3 2 1 1')
+    expect(voicing.template.barre).toEqual({
+      finger: 1,
+      fret: 1,
+      fromString: 1,
+      toString: 6,
+    })
+  })
+
+  it('should keep the slash-chord bass note lowest', () => {
+    const [voicing] = generateVoicingsForName('G/B')
+    expect(shape(voicing.frets)).toBe('x 2 0 0 0 3')
+  })
+
+  it('should add a slash bass from outside the chord on the lowest string', () => {
+    const voicings = generateVoicingsForName('G/F')
+    expect(voicings.length).toBeGreaterThan(0)
+    expect(shape(voicings[0].frets)).toBe('1 2 0 0 0 3')
+
+    // F sounds only in the bass, over a plain G major
+    for (const v of voicings) {
+      const notes = v.frets.flatMap((f, i) =>
+        f < 0 ? [] : [STANDARD_TUNING[i] + f]
+      )
+      const lowest = Math.min(...notes)
+      const upper = notes.filter((n) => n !== lowest).map((n) => n % 12)
+      expect(lowest % 12).toBe(5)
+      expect(upper.every((pc) => [7, 11, 2].includes(pc))).toBe(true)
+    }
+  })
+
+  it('should resolve unknown chord names on demand', () => {
+    const template = getChordTemplate('F#m7')
+    expect(template?.name).toBe('F♯ Minor 7')
+    expect(getChordTemplate('C')?.name).toBe('C Major')
+    expect(getChordTemplate('not a chord')).toBeNull()
+  })
+})
+
+describe('Voicings on other instruments', () => {
+  const [ukulele, lowG] = INSTRUMENTS.ukulele.tunings
+  const [bass] = INSTRUMENTS.bass4.tunings
+
+  it('should find the familiar ukulele shapes on re-entrant tuning', () => {
+    const easiest = (name: string) =>
+      shape(generateVoicingsForName(name, { tuning: ukulele.notes })[0].frets)
+
+    expect(easiest('C')).toBe('0 0 0 3')
+    expect(easiest('F')).toBe('2 0 1 0')
+    expect(easiest('G')).toBe('0 2 3 2')
+    expect(easiest('Am')).toBe('2 0 0 0')
+  })
+
+  it('should take the bass from the lowest pitch, not the lowest string', () => {
+    // Low G tuning is linear, so the root sits lowest again
+    for (const v of generateVoicingsForName('C', { tuning: lowG.notes })) {
+      const notes = v.frets.flatMap((f, i) => (f < 0 ? [] : [lowG.notes[i] + f]))
+      expect(Math.min(...notes) % 12).toBe(0)
+    }
+
+    // A re-entrant slash chord puts its bass on the lowest pitch wherever it is
+    const [voicing] = generateVoicingsForName('C/E', { tuning: ukulele.notes })
+    const notes = voicing.frets.flatMap((f, i) =>
+      f < 0 ? [] : [ukulele.notes[i] + f]
+    )
+    expect(Math.min(...notes) % 12).toBe(4)
+  })
+
+  it('should voice bass chords with the root lowest', () => {
+    const voicings = generateVoicingsForName('G', { tuning: bass.notes })
+
+    expect(shape(voicings[0].frets)).toBe('3 2 0 0')
+    for (const v of voicings) {
+      expect(v.frets).toHaveLength(4)
+      const notes = v.frets.flatMap((f, i) => (f < 0 ? [] : [bass.notes[i] + f]))
+      expect(Math.min(...notes) % 12).toBe(7)
+    }
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { parseChordPro } from '@/packages/shared/chordpro'
+
+const SONG = `{title: Test Song}
+{artist: Someone}
+{tempo: 90}
+# A comment
+
+{start_of_chorus}
+[G]Hello [D]there [Em]friend
+{end_of_chorus}
+[C]Last [Xyz]line`
+
+describe('parseChordPro', () => {
+  it('should read the title, artist and tempo', () => {
+    const song = parseChordPro(SONG)
+    expect(song.title).toBe('Test Song')
+    expect(song.artist).toBe('Someone')
+    expect(song.tempo).toBe(90)
+  })
+
+  it('should place chords over the lyrics', () => {
+    const song = parseChordPro(SONG)
+    const chorus = song.lines.find((l) => l.section === 'Chorus')!
+    expect(chorus.lyrics).toBe('Hello there friend')
+    expect(chorus.chords.map((c) => [c.chord, c.position])).toEqual([
+      ['G', 0],
+      ['D', 6],
+      ['Em', 12],
+    ])
+  })
+
+  it('should build a progression in playing order', () => {
+    const song = parseChordPro(SONG, { beatsPerChord: 2 })
+    expect(song.progression.steps).toEqual([
+      { chord: 'G', beats: 2 },
+      { chord: 'D', beats: 2 },
+      { chord: 'Em', beats: 2 },
+      { chord: 'C', beats: 2 },
+    ])
+  })
+
+  it('should resolve generated chords and flag unknown ones', () => {
+    const song = parseChordPro('[F#m7]One [Xyz]two')
+    expect(song.progression.steps.map((s) => s.chord)).toEqual(['F#m7'])
+    expect(song.unknownChords).toEqual(['Xyz'])
+    expect(song.lines[0].chords[1].stepIndex).toBe(-1)
+  })
+})
@@ -1,5 +1,11 @@
 import { describe, it, expect } from 'vitest'
-import { computeHomography, multiplyMatrixPoint } from '@/features/calibration/homography'
+import {
+  computeHomography,
+  fitHomography,
+  invertHomography,
+  multiplyMatrixPoint,
+} from '@/features/calibration/homography'
+import type { Matrix3x3 } from '@/features/calibration/homography'
 import type { Point2D } from '@/lib/types'
 
 describe('Homography', () => {
@@ -44,3 +50,38 @@ describe('Homography', () => {
     expect(Math.abs(result.y - 100)).toBeLessThan(10)
   })
 })
+
+describe('fitHomography', () => {
+  const H: Matrix3x3 = [
+    [1.2, 0.1, 30],
+    [-0.05, 0.9, 12],
+    [0.0005, 0.0002, 1],
+  ]
+
+  it('should fit a perspective transform from many points', () => {
+    const src: Point2D[] = []
+    for (let x = 0; x <= 300; x += 100) {
+      for (let y = 0; y <= 200; y += 100) {
+        src.push({ x, y })
+      }
+    }
+    const fitted = fitHomography(src, src.map((p) => multiplyMatrixPoint(H, p)))
+
+    const result = multiplyMatrixPoint(fitted!, { x: 150, y: 50 })
+    const expected = multiplyMatrixPoint(H, { x: 150, y: 50 })
+    expect(result.x).toBeCloseTo(expected.x, 4)
+    expect(result.y).toBeCloseTo(expected.y, 4)
+  })
+
+  it('should reject collinear points', () => {
+    const src = [0, 1, 2, 3].map((i) => ({ x: i, y: i }))
+    expect(fitHomography(src, src)).toBeNull()
+  })
+
+  it('should invert a homography', () => {
+    const point = multiplyMatrixPoint(H, { x: 40, y: 70 })
+    const back = multiplyMatrixPoint(invertHomography(H)!, point)
+    expect(back.x).toBeCloseTo(40, 6)
+    expect(back.y).toBeCloseTo(70, 6)
+  })
+})
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_INSTRUMENT,
+  INSTRUMENTS,
+  getInstrument,
+} from '@/packages/shared/instruments'
+import { isReentrant } from '@/packages/shared/chord-voicings'
+
+describe('Instrument presets', () => {
+  it('should give every tuning one note per string', () => {
+    for (const instrument of Object.values(INSTRUMENTS)) {
+      expect(instrument.tunings.length).toBeGreaterThan(0)
+      for (const tuning of instrument.tunings) {
+        expect(tuning.notes).toHaveLength(instrument.stringCount)
+      }
+    }
+  })
+
+  it('should fall back to the 6-string guitar', () => {
+    expect(getInstrument('ukulele').stringCount).toBe(4)
+    expect(getInstrument('banjo')).toBe(DEFAULT_INSTRUMENT)
+    expect(getInstrument(null)).toBe(DEFAULT_INSTRUMENT)
+  })
+
+  it('should tell re-entrant tunings from linear ones', () => {
+    const [standard, lowG, d] = INSTRUMENTS.ukulele.tunings
+
+    expect(isReentrant(standard.notes)).toBe(true)
+    expect(isReentrant(d.notes)).toBe(true)
+    expect(isReentrant(lowG.notes)).toBe(false)
+    for (const id of ['guitar', 'guitar7', 'bass4', 'bass5']) {
+      for (const tuning of INSTRUMENTS[id].tunings) {
+        expect(isReentrant(tuning.notes)).toBe(false)
+      }
+    }
+  })
+})
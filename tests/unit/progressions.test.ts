@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseProgression,
+  formatProgression,
+  progressionLength,
+  stepAtBeat,
+} from '@/packages/shared/progressions'
+
+describe('progressions', () => {
+  it('should parse chords with a shared beat count', () => {
+    const progression = parseProgression('G D Em C, 4 beats each')
+    expect(progression?.steps).toEqual([
+      { chord: 'G', beats: 4 },
+      { chord: 'D', beats: 4 },
+      { chord: 'Em', beats: 4 },
+      { chord: 'C', beats: 4 },
+    ])
+  })
+
+  it('should parse per-chord durations', () => {
+    const progression = parseProgression('G:4 D:2 Em:2 C:8')
+    expect(progression?.steps.map((s) => s.beats)).toEqual([4, 2, 2, 8])
+    expect(progressionLength(progression!)).toBe(16)
+    expect(formatProgression(progression!)).toBe('G:4 D:2 Em:2 C:8')
+  })
+
+  it('should reject unknown chords', () => {
+    expect(parseProgression('G H C')).toBeNull()
+    expect(parseProgression('')).toBeNull()
+  })
+
+  it('should find the chord at a beat, looping around', () => {
+    const progression = parseProgression('G:3 D:1')!
+    expect(stepAtBeat(progression, 0)).toEqual({ index: 0, beatsLeft: 3 })
+    expect(stepAtBeat(progression, 3)).toEqual({ index: 1, beatsLeft: 1 })
+    expect(stepAtBeat(progression, 5)).toEqual({ index: 0, beatsLeft: 2 })
+  })
+})
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest'
+import { detectPitch } from '@/features/audio/pitch'
+import { PitchTracker } from '@/features/audio/PitchTracker'
+import {
+  centsFrom,
+  detectString,
+  readString,
+  nearestNote,
+  tuningRange,
+  formatNote,
+} from '@/features/tuner/tuner'
+import { STANDARD_TUNING } from '@/packages/shared/tunings'
+
+const SAMPLE_RATE = 44100
+
+function sine(frequency: number, length = 4096): Float32Array {
+  const buffer = new Float32Array(length)
+  for (let i = 0; i < length; i++) {
+    buffer[i] = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE)
+  }
+  return buffer
+}
+
+// Rich in harmonics, like a plucked string
+function sawtooth(frequency: number, length = 4096): Float32Array {
+  const buffer = new Float32Array(length)
+  for (let i = 0; i < length; i++) {
+    const phase = (frequency * i) / SAMPLE_RATE
+    buffer[i] = 2 * (phase - Math.floor(phase + 0.5))
+  }
+  return buffer
+}
+
+// Frequency a given number of cents away from a MIDI note
+function detuned(midi: number, cents: number): number {
+  return 440 * Math.pow(2, (midi - 69 + cents / 100) / 12)
+}
+
+describe('Pitch detection', () => {
+  it('should find the pitch of sine waves across the guitar range', () => {
+    for (const frequency of [82.41, 110, 196, 329.63, 660]) {
+      const pitch = detectPitch(sine(frequency), SAMPLE_RATE)
+      expect(pitch).not.toBeNull()
+      expect(Math.abs(centsFrom(pitch!.frequency, 69) - centsFrom(frequency, 69))).toBeLessThan(1)
+      expect(pitch!.clarity).toBeGreaterThan(0.9)
+    }
+  })
+
+  it('should find the fundamental of a sawtooth, not a harmonic', () => {
+    for (const frequency of [41.2, 82.41, 146.83, 246.94]) {
+      const pitch = detectPitch(sawtooth(frequency), SAMPLE_RATE, { minHz: 30 })
+      expect(pitch).not.toBeNull()
+      expect(Math.abs(centsFrom(pitch!.frequency, 69) - centsFrom(frequency, 69))).toBeLessThan(2)
+    }
+  })
+
+  it('should return null for noise and silence', () => {
+    let seed = 1
+    const noise = new Float32Array(4096).map(() => {
+      seed = (seed * 16807) % 2147483647
+      return seed / 2147483647 - 0.5
+    })
+
+    expect(detectPitch(noise, SAMPLE_RATE)).toBeNull()
+    expect(detectPitch(new Float32Array(4096), SAMPLE_RATE)).toBeNull()
+  })
+
+  it('should report silence from the streaming tracker', () => {
+    const tracker = new PitchTracker({ sampleRate: SAMPLE_RATE })
+    const readings = [
+      ...tracker.process(new Float32Array(8192)),
+      ...tracker.process(sine(220, 8192)),
+    ]
+
+    expect(readings[0].frequency).toBeNull()
+    expect(readings[readings.length - 1].frequency).toBeCloseTo(220, 0)
+  })
+})
+
+describe('Tuner', () => {
+  it('should auto-detect the string and its offset in cents', () => {
+    // G string (string 3) tuned 12 cents flat
+    const reading = detectString(detuned(55, -12), STANDARD_TUNING)
+
+    expect(reading.stringIdx).toBe(3)
+    expect(reading.midi).toBe(55)
+    expect(reading.cents).toBeCloseTo(-12, 1)
+  })
+
+  it('should measure a chosen string even when far out', () => {
+    // Low E tuned down to D: auto-detect can't know, a chosen string can
+    const reading = readString(detuned(38, 0), STANDARD_TUNING, 6)
+
+    expect(reading.cents).toBeCloseTo(-200, 1)
+    expect(nearestNote(detuned(38, 0))).toEqual({ midi: 38, cents: expect.closeTo(0, 3) })
+  })
+
+  it('should name notes and search a range around the tuning', () => {
+    const range = tuningRange(STANDARD_TUNING)
+
+    expect(formatNote(40)).toBe('E2')
+    expect(formatNote(64)).toBe('E4')
+    expect(range.minHz).toBeLessThan(82.41)
+    expect(range.maxHz).toBeGreaterThan(329.63)
+    expect(detectPitch(sawtooth(82.41), SAMPLE_RATE, range)!.frequency).toBeCloseTo(82.41, 0)
+  })
+})